@@ -0,0 +1,385 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Minus, Plus, Trash2 } from "lucide-react";
+import {
+  COMPOSER_GATES,
+  MAX_COMPOSER_QUBITS,
+  checkComposable,
+  composerFromGuppy,
+  composerToGuppy,
+  createOperation,
+  gateArity,
+  insertOperation,
+  layoutComposer,
+  normalizeComposer,
+  removeOperation,
+  replaceOperation,
+  resizeComposer,
+  type ComposerGate,
+} from "@/lib/composer";
+import { formatAngle } from "@/lib/circuit-diagram";
+import type { Circuit, Operation } from "@/lib/quantum/circuit";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { useMemo, useState, type DragEvent, type ReactNode } from "react";
+
+interface CircuitComposerProps {
+  code: string;
+  onChange: (code: string) => void;
+}
+
+const CELL = 48;
+const LABEL_WIDTH = 48;
+const DRAG_TYPE = "application/x-quantum-composer";
+
+type DragPayload = { gate: ComposerGate } | { index: number };
+
+const gateClass = (gate: ComposerGate) => {
+  if (gate === 'measure') return "bg-cyan-500 text-white";
+  if (gate === 'rx' || gate === 'ry' || gate === 'rz') return "bg-pink-500 text-white";
+  if (gateArity(gate) === 2) return "bg-blue-500 text-white";
+  return "bg-purple-500 text-white";
+};
+
+const gateOf = (op: Operation): ComposerGate => (op.kind === 'measure' ? 'measure' : (op as { name: ComposerGate }).name);
+
+const opQubits = (op: Operation): number[] =>
+  op.kind === 'gate' || op.kind === 'barrier' ? op.qubits : [op.qubit];
+
+export const CircuitComposer = ({ code, onChange }: CircuitComposerProps) => {
+  const { toast } = useToast();
+  const [selected, setSelected] = useState<number | null>(null);
+  // Tap a palette gate, then a cell: drag and drop is unavailable on touch screens
+  const [armedGate, setArmedGate] = useState<ComposerGate | null>(null);
+
+  // The grid is always read back from the code, so text edits show up here too
+  const composer = useMemo(() => composerFromGuppy(code), [code]);
+  const { circuit } = composer;
+  const layout = useMemo(() => (circuit ? layoutComposer(circuit) : null), [circuit]);
+  const selectedOp = circuit && selected !== null ? circuit.operations[selected] ?? null : null;
+
+  const commit = (next: Circuit): boolean => {
+    const normalized = normalizeComposer(next);
+    const reason = checkComposable(normalized);
+    if (reason) {
+      toast({
+        title: "Cannot place gate",
+        description: reason,
+        variant: "destructive",
+      });
+      return false;
+    }
+    onChange(composerToGuppy(normalized));
+    return true;
+  };
+
+  const placeGate = (gate: ComposerGate, column: number, qubit: number) => {
+    if (!circuit) return;
+    if (gateArity(gate) > circuit.numQubits) {
+      toast({
+        title: "Add another qubit",
+        description: `${gate.toUpperCase()} needs ${gateArity(gate)} qubits`,
+        variant: "destructive",
+      });
+      return;
+    }
+    if (commit(insertOperation(circuit, createOperation(gate, qubit, circuit.numQubits), column))) {
+      setSelected(null);
+    }
+  };
+
+  const moveOperation = (index: number, column: number, qubit: number) => {
+    if (!circuit) return;
+    const op = circuit.operations[index];
+    const offset = qubit - Math.min(...opQubits(op));
+    const moved: Operation = op.kind === 'gate'
+      ? { ...op, qubits: op.qubits.map(q => q + offset) }
+      : op.kind === 'measure' ? { ...op, qubit } : op;
+    if (opQubits(moved).some(q => q < 0 || q >= circuit.numQubits)) return;
+    if (commit(insertOperation(removeOperation(circuit, index), moved, column))) {
+      setSelected(null);
+    }
+  };
+
+  const handleDrop = (event: DragEvent, column: number, qubit: number) => {
+    event.preventDefault();
+    const raw = event.dataTransfer.getData(DRAG_TYPE);
+    if (!raw) return;
+    const payload = JSON.parse(raw) as DragPayload;
+    if ('gate' in payload) placeGate(payload.gate, column, qubit);
+    else moveOperation(payload.index, column, qubit);
+  };
+
+  const startDrag = (event: DragEvent, payload: DragPayload) => {
+    event.dataTransfer.setData(DRAG_TYPE, JSON.stringify(payload));
+    event.dataTransfer.effectAllowed = "copyMove";
+  };
+
+  const allowDrop = (event: DragEvent) => {
+    if (event.dataTransfer.types.includes(DRAG_TYPE)) event.preventDefault();
+  };
+
+  const handleCellClick = (column: number, qubit: number) => {
+    if (armedGate) {
+      placeGate(armedGate, column, qubit);
+      setArmedGate(null);
+    } else {
+      setSelected(null);
+    }
+  };
+
+  const updateSelected = (op: Operation) => {
+    if (circuit && selected !== null) commit(replaceOperation(circuit, selected, op));
+  };
+
+  const deleteSelected = () => {
+    if (circuit && selected !== null && commit(removeOperation(circuit, selected))) {
+      setSelected(null);
+    }
+  };
+
+  const resize = (numQubits: number) => {
+    if (circuit && commit(resizeComposer(circuit, numQubits))) {
+      setSelected(null);
+    }
+  };
+
+  const renderOperation = (op: Operation, index: number, column: number) => {
+    const qubits = opQubits(op);
+    const x = LABEL_WIDTH + column * CELL + CELL / 2;
+    const y = (q: number) => q * CELL + CELL / 2;
+    const gate = gateOf(op);
+    const isSelected = selected === index;
+    const top = Math.min(...qubits);
+
+    const marker = (q: number, content: ReactNode, className: string) => (
+      <div
+        key={q}
+        draggable
+        onDragStart={(e) => startDrag(e, { index })}
+        onDragOver={allowDrop}
+        onDrop={(e) => handleDrop(e, column, top)}
+        onClick={(e) => {
+          e.stopPropagation();
+          setSelected(index);
+        }}
+        className={cn(
+          "absolute flex items-center justify-center cursor-grab select-none font-mono text-xs font-semibold",
+          className,
+          isSelected && "ring-2 ring-offset-2 ring-primary ring-offset-background"
+        )}
+        style={{ left: x, top: y(q), transform: "translate(-50%, -50%)" }}
+      >
+        {content}
+      </div>
+    );
+
+    const connector = qubits.length > 1 && (
+      <div
+        className="absolute w-0.5 bg-foreground pointer-events-none"
+        style={{ left: x - 1, top: y(top), height: (Math.max(...qubits) - top) * CELL }}
+      />
+    );
+
+    let markers: ReactNode[];
+    if (op.kind === 'gate' && op.name === 'cx') {
+      markers = [
+        marker(op.qubits[0], null, "w-3 h-3 rounded-full bg-foreground"),
+        marker(op.qubits[1], "⊕", "w-7 h-7 rounded-full border-2 border-foreground bg-background text-lg leading-none"),
+      ];
+    } else if (op.kind === 'gate' && op.name === 'cz') {
+      markers = op.qubits.map(q => marker(q, null, "w-3 h-3 rounded-full bg-foreground"));
+    } else if (op.kind === 'gate' && op.name === 'swap') {
+      markers = op.qubits.map(q => marker(q, "✕", "w-6 h-6 text-base bg-background"));
+    } else {
+      const label = op.kind === 'gate' && op.params.length
+        ? `${op.name.toUpperCase()}(${formatAngle(op.params[0])})`
+        : gate === 'measure' ? "M" : gate.toUpperCase();
+      markers = [marker(qubits[0], label, cn("min-w-9 h-9 px-1 rounded-md", gateClass(gate), label.length > 3 && "text-[10px]"))];
+    }
+
+    return (
+      <div key={index}>
+        {connector}
+        {markers}
+      </div>
+    );
+  };
+
+  const renderSelection = () => {
+    if (!circuit || !selectedOp || selectedOp.kind === 'reset' || selectedOp.kind === 'barrier') return null;
+    const gate = gateOf(selectedOp);
+    const qubitOptions = Array.from({ length: circuit.numQubits }, (_, q) => q);
+    const roles = gate === 'cx' ? ["Control", "Target"] : ["Qubit", "Qubit"];
+
+    return (
+      <div className="flex flex-wrap items-end gap-3 p-3 border rounded-lg bg-muted/30">
+        <div className={cn("px-2 py-1 rounded-md font-mono text-sm font-semibold", gateClass(gate))}>
+          {gate === 'measure' ? "Measure" : gate.toUpperCase()}
+        </div>
+
+        {selectedOp.kind === 'gate' && selectedOp.qubits.map((qubit, slot) => (
+          <div key={slot} className="space-y-1">
+            <Label className="text-xs">{selectedOp.qubits.length > 1 ? roles[slot] : "Qubit"}</Label>
+            <Select
+              value={String(qubit)}
+              onValueChange={(value) => {
+                const qubits = [...selectedOp.qubits];
+                const other = qubits.indexOf(Number(value));
+                // Picking the other operand's wire swaps the two
+                if (other !== -1) qubits[other] = qubit;
+                qubits[slot] = Number(value);
+                updateSelected({ ...selectedOp, qubits });
+              }}
+            >
+              <SelectTrigger className="w-20 h-8">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {qubitOptions.map(q => (
+                  <SelectItem key={q} value={String(q)}>q{q}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        ))}
+
+        {selectedOp.kind === 'gate' && selectedOp.params.length > 0 && (
+          <div className="space-y-1">
+            <Label htmlFor="composer-angle" className="text-xs">Angle (× π)</Label>
+            <Input
+              id="composer-angle"
+              key={`${selected}-${selectedOp.params[0]}`}
+              type="number"
+              step="0.125"
+              defaultValue={Number((selectedOp.params[0] / Math.PI).toPrecision(12))}
+              onBlur={(e) => {
+                const turns = parseFloat(e.target.value);
+                if (Number.isFinite(turns)) updateSelected({ ...selectedOp, params: [turns * Math.PI] });
+              }}
+              className="w-24 h-8"
+            />
+          </div>
+        )}
+
+        <Button size="sm" variant="outline" onClick={deleteSelected} className="gap-2 ml-auto">
+          <Trash2 className="w-4 h-4" />
+          Remove
+        </Button>
+      </div>
+    );
+  };
+
+  return (
+    <Card className="h-full">
+      <CardHeader className="p-4 md:p-6">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base md:text-lg">Visual Composer</CardTitle>
+          {circuit && (
+            <div className="flex items-center gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resize(circuit.numQubits - 1)}
+                disabled={circuit.numQubits <= 1}
+                title="Remove last qubit"
+              >
+                <Minus className="w-4 h-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">{circuit.numQubits} qubits</span>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => resize(circuit.numQubits + 1)}
+                disabled={circuit.numQubits >= MAX_COMPOSER_QUBITS}
+                title="Add qubit"
+              >
+                <Plus className="w-4 h-4" />
+              </Button>
+            </div>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 md:p-6 pt-0 space-y-4">
+        {composer.reason ? (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertTitle>Not representable in the composer</AlertTitle>
+            <AlertDescription>
+              {composer.reason} Keep editing in the code tab, or pick a template from the library to start over.
+            </AlertDescription>
+          </Alert>
+        ) : circuit && layout && (
+          <>
+            {/* Palette */}
+            <div className="flex flex-wrap gap-2">
+              {COMPOSER_GATES.map(gate => (
+                <button
+                  key={gate}
+                  type="button"
+                  draggable
+                  onDragStart={(e) => startDrag(e, { gate })}
+                  onClick={() => setArmedGate(armedGate === gate ? null : gate)}
+                  className={cn(
+                    "h-9 min-w-9 px-2 rounded-md font-mono text-xs font-semibold cursor-grab select-none",
+                    gateClass(gate),
+                    armedGate === gate && "ring-2 ring-offset-2 ring-primary ring-offset-background"
+                  )}
+                  title={armedGate === gate ? "Click a wire to place" : "Drag onto a wire, or click then click a wire"}
+                >
+                  {gate === 'measure' ? "M" : gate.toUpperCase()}
+                </button>
+              ))}
+            </div>
+
+            {/* Grid of qubit wires */}
+            <div className="overflow-x-auto rounded-md border border-input">
+              <div
+                className="relative"
+                style={{
+                  width: LABEL_WIDTH + (layout.width + 2) * CELL,
+                  height: circuit.numQubits * CELL,
+                }}
+              >
+                {Array.from({ length: circuit.numQubits }, (_, q) => (
+                  <div key={q}>
+                    <div
+                      className="absolute flex items-center justify-center font-mono text-xs text-muted-foreground"
+                      style={{ left: 0, top: q * CELL, width: LABEL_WIDTH, height: CELL }}
+                    >
+                      q{q}
+                    </div>
+                    <div
+                      className="absolute h-px bg-border pointer-events-none"
+                      style={{ left: LABEL_WIDTH, right: 0, top: q * CELL + CELL / 2 }}
+                    />
+                    {Array.from({ length: layout.width + 2 }, (_, column) => (
+                      <div
+                        key={column}
+                        onDragOver={allowDrop}
+                        onDrop={(e) => handleDrop(e, column, q)}
+                        onClick={() => handleCellClick(column, q)}
+                        className={cn(
+                          "absolute hover:bg-primary/10",
+                          armedGate && "cursor-copy"
+                        )}
+                        style={{ left: LABEL_WIDTH + column * CELL, top: q * CELL, width: CELL, height: CELL }}
+                      />
+                    ))}
+                  </div>
+                ))}
+                {circuit.operations.map((op, index) => renderOperation(op, index, layout.columns[index]))}
+              </div>
+            </div>
+
+            {renderSelection()}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,101 @@
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Download } from "lucide-react";
+import { renderCircuitDiagramSVG, EDITOR_PALETTE } from "@/lib/circuit-diagram";
+import { generateCircuitDiagramSVG, downloadCircuitPortrait } from "@/lib/circuit-portrait-generator";
+import { compileGuppy } from "@/lib/guppy/compile";
+import { useToast } from "@/hooks/use-toast";
+import { useMemo } from "react";
+
+interface CircuitDiagramProps {
+  code: string;
+  currentDomain?: string;
+  backend?: string;
+  shots?: number;
+}
+
+export const CircuitDiagram = ({ code, currentDomain, backend, shots }: CircuitDiagramProps) => {
+  const { toast } = useToast();
+
+  // Recompile on every edit; the diagram only shows for code that compiles
+  const circuit = useMemo(() => {
+    if (!code.trim()) return null;
+    try {
+      return compileGuppy(code);
+    } catch {
+      return null;
+    }
+  }, [code]);
+
+  const svg = useMemo(() => (circuit ? renderCircuitDiagramSVG(circuit, EDITOR_PALETTE) : null), [circuit]);
+
+  const handleDownloadDiagram = async () => {
+    if (!circuit) return;
+
+    try {
+      const metadata = {
+        circuitName: circuit.name,
+        domain: currentDomain,
+        backend: backend,
+        shots: shots,
+        timestamp: new Date().toLocaleString('en-US', {
+          year: 'numeric',
+          month: 'long',
+          day: 'numeric',
+          hour: '2-digit',
+          minute: '2-digit',
+          hour12: true
+        })
+      };
+
+      const diagram = await generateCircuitDiagramSVG(circuit, metadata);
+      downloadCircuitPortrait(diagram, `quantum-circuit-diagram-${Date.now()}.svg`);
+
+      toast({
+        title: "Diagram Downloaded! ✨",
+        description: "Your circuit diagram is ready",
+      });
+    } catch (error) {
+      console.error('Error generating diagram:', error);
+      toast({
+        title: "Download Failed",
+        description: "Could not generate circuit diagram",
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="p-4 md:p-6">
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base md:text-lg">Circuit Diagram</CardTitle>
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleDownloadDiagram}
+            disabled={!circuit}
+            className="gap-2"
+            title="Download Circuit Diagram"
+          >
+            <Download className="w-4 h-4" />
+            <span className="hidden md:inline">Download Diagram</span>
+            <span className="md:hidden">Diagram</span>
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="p-4 md:p-6 pt-0">
+        {svg ? (
+          <div
+            className="overflow-x-auto text-foreground"
+            dangerouslySetInnerHTML={{ __html: svg }}
+          />
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            {code.trim() ? "Fix the errors in the editor to see the diagram." : "Write a circuit to see its diagram."}
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
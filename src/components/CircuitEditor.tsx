@@ -2,15 +2,27 @@ import { Textarea } from "@/components/ui/textarea";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Sparkles, Download } from "lucide-react";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Sparkles, Download, AlertCircle, FileCode, FileUp } from "lucide-react";
 import { generateCircuitPortraitSVG, downloadCircuitPortrait } from "@/lib/circuit-portrait-generator";
+import { checkGuppySource } from "@/lib/guppy/linearity";
+import { compileGuppy } from "@/lib/guppy/compile";
+import { GuppyError } from "@/lib/guppy/ast";
+import { TemplateError, isTemplate } from "@/lib/guppy/template";
+import { exportQasm, type QasmVersion } from "@/lib/qasm/exporter";
+import { QasmError } from "@/lib/qasm/errors";
 import { useToast } from "@/hooks/use-toast";
+import { useMemo, useRef } from "react";
 
 interface CircuitEditorProps {
   code: string;
   onChange: (code: string) => void;
+  // The code with template parameters filled in, null when that failed
+  renderedCode?: string | null;
+  templateError?: TemplateError | null;
   isCustomCircuit?: boolean;
   onGenerateClick?: () => void;
+  onImportClick?: () => void;
   currentDomain?: string;
   prompt?: string;
   category?: string;
@@ -21,8 +33,11 @@ interface CircuitEditorProps {
 export const CircuitEditor = ({ 
   code, 
   onChange, 
+  renderedCode,
+  templateError = null,
   isCustomCircuit, 
   onGenerateClick, 
+  onImportClick,
   currentDomain,
   prompt,
   category,
@@ -31,6 +46,31 @@ export const CircuitEditor = ({
 }: CircuitEditorProps) => {
   const { toast } = useToast();
 
+  const gutterRef = useRef<HTMLDivElement>(null);
+
+  const template = isTemplate(code);
+  const runnableCode = renderedCode ?? code;
+
+  // Re-check on every edit so syntax and qubit ownership errors show up while typing.
+  // Templates are checked once filled in, so their line numbers are the rendered code's
+  const diagnostics = useMemo(
+    () => (runnableCode.trim() && !templateError ? checkGuppySource(runnableCode) : []),
+    [runnableCode, templateError]
+  );
+
+  const diagnosticsByLine = useMemo(() => {
+    const byLine = new Map<number, string[]>();
+    if (templateError?.line) byLine.set(templateError.line, [templateError.message]);
+    if (template) return byLine;
+    for (const diagnostic of diagnostics) {
+      const line = diagnostic.span.start.line;
+      byLine.set(line, [...(byLine.get(line) ?? []), diagnostic.message]);
+    }
+    return byLine;
+  }, [diagnostics, template, templateError]);
+
+  const lineCount = code.split('\n').length;
+
   // Helper to validate SVG parsing
   const parseOk = (svgContent: string): boolean => {
     const parser = new DOMParser();
@@ -67,12 +107,12 @@ export const CircuitEditor = ({
       };
       
       // Try generating with highlighting first
-      let svg = await generateCircuitPortraitSVG(code, metadata);
+      let svg = await generateCircuitPortraitSVG(runnableCode, metadata);
       
       // Validate the SVG - if it fails, regenerate without highlighting
       if (!parseOk(svg)) {
         console.warn('SVG parsing failed with highlighting, retrying without...');
-        svg = await generateCircuitPortraitSVG(code, metadata, { highlight: false });
+        svg = await generateCircuitPortraitSVG(runnableCode, metadata, { highlight: false });
         
         toast({
           title: "Portrait Downloaded (Safe Mode) ✨",
@@ -98,6 +138,35 @@ export const CircuitEditor = ({
     }
   };
 
+  const handleDownloadQasm = (version: QasmVersion) => {
+    try {
+      if (templateError) throw templateError;
+      const circuit = compileGuppy(runnableCode);
+      const qasm = exportQasm(circuit, version);
+      const blob = new Blob([qasm], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${circuit.name}-qasm${version === '3.0' ? '3' : '2'}.qasm`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+
+      toast({
+        title: "QASM Downloaded",
+        description: `Exported ${circuit.name} as OpenQASM ${version}`,
+      });
+    } catch (error) {
+      if (!(error instanceof GuppyError || error instanceof QasmError || error instanceof TemplateError)) throw error;
+      toast({
+        title: `Cannot export OpenQASM ${version}`,
+        description: error.line ? `Line ${error.line}: ${error.message}` : error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <Card className="h-full">
       <CardHeader className="p-4 md:p-6">
@@ -122,6 +191,38 @@ export const CircuitEditor = ({
               <span className="hidden md:inline">Download Portrait</span>
               <span className="md:hidden">Portrait</span>
             </Button>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  className="gap-2"
+                  disabled={!code.trim()}
+                  title="Download OpenQASM"
+                >
+                  <FileCode className="w-4 h-4" />
+                  <span className="hidden md:inline">Download QASM</span>
+                  <span className="md:hidden">QASM</span>
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onClick={() => handleDownloadQasm('2.0')}>OpenQASM 2.0</DropdownMenuItem>
+                <DropdownMenuItem onClick={() => handleDownloadQasm('3.0')}>OpenQASM 3.0</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+            {onImportClick && (
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={onImportClick}
+                className="gap-2"
+                title="Import OpenQASM"
+              >
+                <FileUp className="w-4 h-4" />
+                <span className="hidden md:inline">Import QASM</span>
+                <span className="md:hidden">Import</span>
+              </Button>
+            )}
             {isCustomCircuit && (
               <Button
                 size="sm"
@@ -138,12 +239,64 @@ export const CircuitEditor = ({
         </div>
       </CardHeader>
       <CardContent className="p-4 md:p-6 pt-0">
-        <Textarea
-          value={code}
-          onChange={(e) => onChange(e.target.value)}
-          className="font-mono text-xs md:text-sm min-h-[250px] md:min-h-[400px] resize-none"
-          placeholder="Write your Guppy quantum circuit here..."
-        />
+        <div className="flex rounded-md border border-input overflow-hidden">
+          {/* Line numbers; lines with diagnostics are marked */}
+          <div
+            ref={gutterRef}
+            aria-hidden
+            className="select-none overflow-hidden bg-muted/50 py-2 text-right font-mono text-xs md:text-sm leading-5 md:leading-5 text-muted-foreground h-[250px] md:h-[400px]"
+          >
+            {Array.from({ length: lineCount }, (_, i) => {
+              const messages = diagnosticsByLine.get(i + 1);
+              return (
+                <div
+                  key={i}
+                  title={messages?.join('\n')}
+                  className={messages ? "px-2 bg-destructive/20 text-destructive font-semibold" : "px-2"}
+                >
+                  {i + 1}
+                </div>
+              );
+            })}
+          </div>
+          <Textarea
+            value={code}
+            onChange={(e) => onChange(e.target.value)}
+            onScroll={(e) => {
+              if (gutterRef.current) gutterRef.current.scrollTop = e.currentTarget.scrollTop;
+            }}
+            wrap="off"
+            spellCheck={false}
+            className="font-mono text-xs md:text-sm leading-5 md:leading-5 h-[250px] md:h-[400px] resize-none border-0 rounded-none focus-visible:ring-0 focus-visible:ring-offset-0"
+            placeholder="Write your Guppy quantum circuit here..."
+          />
+        </div>
+        {(templateError || diagnostics.length > 0) && (
+          <ul className="mt-2 space-y-1 text-xs md:text-sm text-destructive">
+            {templateError && (
+              <li className="flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>
+                  {templateError.line !== null && (
+                    <><span className="font-mono">Line {templateError.line}:</span>{" "}</>
+                  )}
+                  {templateError.message}
+                </span>
+              </li>
+            )}
+            {diagnostics.map((diagnostic, i) => (
+              <li key={i} className="flex items-start gap-2">
+                <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+                <span>
+                  <span className="font-mono">
+                    {template ? 'Filled-in line' : 'Line'} {diagnostic.span.start.line}, column {diagnostic.span.start.column}:
+                  </span>{" "}
+                  {diagnostic.message}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
       </CardContent>
     </Card>
   );
@@ -13,6 +13,12 @@ const iconMap: Record<string, typeof Atom> = {
   custom: FileCode
 };
 
+// "2–10Q" for templates with a qubit count parameter
+const describeQubits = (template: CircuitTemplate) => {
+  const qubits = Object.values(template.parameters).find(spec => spec.type === 'qubits');
+  return qubits?.type === 'qubits' ? `${qubits.min}–${qubits.max}Q` : `${template.qubitCount}Q`;
+};
+
 interface CircuitLibraryProps {
   onSelectTemplate: (template: CircuitTemplate) => void;
   selectedTemplateId?: string | null;
@@ -58,7 +64,7 @@ export const CircuitLibrary = ({ onSelectTemplate, selectedTemplateId }: Circuit
               <CardContent className="p-4 pt-0">
                 <div className="flex items-center gap-2">
                   <Badge variant="secondary" className="text-xs">
-                    {template.qubitCount}Q
+                    {describeQubits(template)}
                   </Badge>
                   <span className="text-xs text-muted-foreground">Click to load</span>
                 </div>
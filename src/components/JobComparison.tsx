@@ -0,0 +1,369 @@
+import { useEffect, useMemo, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Loader2 } from "lucide-react";
+import {
+  circuitName,
+  describeNoise,
+  formatDuration,
+  jobBindings,
+  jobNoise,
+  jobSeed,
+  jobTemplateValues,
+} from "@/lib/job-format";
+import { tryReadQuantumResult, type QuantumResult } from "@/lib/results/schema";
+import { hellingerFidelity, totalVariationDistance } from "@/lib/results/statistics";
+import { diffLines, type DiffLine } from "@/lib/text-diff";
+
+interface JobComparisonProps {
+  // In the order to show them; the first is the baseline the others are
+  // compared against
+  jobIds: string[];
+}
+
+type QuantumJob = Tables<"quantum_jobs">;
+
+interface ComparedJob {
+  job: QuantumJob;
+  label: string;
+  results: QuantumResult;
+}
+
+const JOB_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--secondary))',
+  'hsl(var(--accent))',
+  '#f97316',
+  '#22c55e',
+  '#eab308',
+  '#ec4899',
+  '#06b6d4',
+];
+
+// More outcomes than this make the overlaid bars unreadable; the chart keeps
+// the most likely ones and the delta table still lists every outcome
+const MAX_CHART_OUTCOMES = 32;
+
+// Unchanged lines kept around each change in the code diff
+const DIFF_CONTEXT = 2;
+
+const percent = (p: number) => `${(p * 100).toFixed(2)}%`;
+
+const signedPercent = (delta: number) => `${delta > 0 ? '+' : delta < 0 ? '−' : '±'}${Math.abs(delta * 100).toFixed(2)}%`;
+
+const colorOf = (index: number) => JOB_COLORS[index % JOB_COLORS.length];
+
+// Runs of unchanged lines longer than the context either side are folded
+const foldDiff = (lines: DiffLine[]) => {
+  const near = lines.map((_, i) =>
+    lines.slice(Math.max(0, i - DIFF_CONTEXT), i + DIFF_CONTEXT + 1).some(line => line.kind !== 'same'));
+  const folded: (DiffLine | { kind: 'fold'; count: number })[] = [];
+  lines.forEach((line, i) => {
+    if (near[i]) {
+      folded.push(line);
+      return;
+    }
+    const last = folded[folded.length - 1];
+    if (last?.kind === 'fold') last.count++;
+    else folded.push({ kind: 'fold', count: 1 });
+  });
+  return folded;
+};
+
+const SETTINGS: { label: string; value: (job: QuantumJob) => string }[] = [
+  { label: 'Circuit', value: job => circuitName(job) ?? '—' },
+  { label: 'Backend', value: job => job.backend_type },
+  { label: 'Shots', value: job => String(job.shots ?? '—') },
+  { label: 'Seed', value: job => String(jobSeed(job) ?? 'not recorded') },
+  { label: 'Noise', value: job => describeNoise(jobNoise(job)) },
+  { label: 'Kernel parameters', value: job => jobBindings(job) ?? '—' },
+  { label: 'Template parameters', value: job => jobTemplateValues(job) ?? '—' },
+  { label: 'Execution time', value: job => formatDuration(job.execution_time_ms) },
+];
+
+const SettingsTable = ({ jobs }: { jobs: ComparedJob[] }) => (
+  <div className="rounded-lg border border-border overflow-hidden overflow-x-auto">
+    <table className="w-full min-w-full">
+      <thead className="bg-muted">
+        <tr>
+          <th className="px-2 md:px-4 py-2 text-left text-[10px] md:text-xs font-medium" />
+          {jobs.map(({ label }, index) => (
+            <th key={label} className="px-2 md:px-4 py-2 text-left text-[10px] md:text-xs font-medium" style={{ color: colorOf(index) }}>
+              {label}
+            </th>
+          ))}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-border">
+        {SETTINGS.map(({ label, value }) => {
+          const values = jobs.map(({ job }) => value(job));
+          const differs = values.some(v => v !== values[0]);
+          return (
+            <tr key={label} className={differs ? 'bg-accent/10' : undefined}>
+              <td className={`px-2 md:px-4 py-2 text-xs md:text-sm ${differs ? 'font-medium' : 'text-muted-foreground'}`}>{label}</td>
+              {values.map((v, index) => (
+                <td key={index} className="px-2 md:px-4 py-2 text-xs md:text-sm font-mono break-all">{v}</td>
+              ))}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  </div>
+);
+
+const CodeDiff = ({ baseline, other, color }: { baseline: ComparedJob; other: ComparedJob; color: string }) => {
+  const lines = useMemo(
+    () => foldDiff(diffLines(baseline.job.guppy_code ?? '', other.job.guppy_code ?? '')),
+    [baseline, other]
+  );
+  const changed = lines.some(line => line.kind === 'added' || line.kind === 'removed');
+
+  return (
+    <div className="space-y-1">
+      <p className="text-[10px] md:text-xs text-muted-foreground">
+        {baseline.label} → <span style={{ color }}>{other.label}</span>
+        {!changed && ': same code'}
+      </p>
+      {changed && (
+        <pre className="rounded-lg border border-border bg-muted/50 text-[10px] md:text-xs font-mono overflow-x-auto py-2">
+          {lines.map((line, i) =>
+            line.kind === 'fold' ? (
+              <div key={i} className="px-3 text-muted-foreground italic">⋯ {line.count} unchanged {line.count === 1 ? 'line' : 'lines'}</div>
+            ) : (
+              <div
+                key={i}
+                className={`px-3 ${line.kind === 'added' ? 'bg-green-500/15' : line.kind === 'removed' ? 'bg-destructive/15' : ''}`}
+              >
+                {line.kind === 'added' ? '+ ' : line.kind === 'removed' ? '- ' : '  '}
+                {line.text}
+              </div>
+            )
+          )}
+        </pre>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Completed jobs side by side: their settings with differences highlighted,
+ * overlaid probability histograms, per-outcome differences from the first
+ * job, pairwise Hellinger fidelity and total variation distance, and the
+ * changes to each job's code.
+ */
+export const JobComparison = ({ jobIds }: JobComparisonProps) => {
+  const [jobs, setJobs] = useState<QuantumJob[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let current = true;
+    setJobs(null);
+    setError(null);
+    supabase
+      .from('quantum_jobs')
+      .select('*')
+      .in('id', jobIds)
+      .then(({ data, error: loadError }) => {
+        if (!current) return;
+        if (loadError) setError(loadError.message);
+        else setJobs(jobIds.map(id => data.find(job => job.id === id)).filter(Boolean));
+      });
+    return () => {
+      current = false;
+    };
+  }, [jobIds]);
+
+  const { compared, skipped } = useMemo(() => {
+    const compared: ComparedJob[] = [];
+    const skipped: string[] = [];
+    for (const job of jobs ?? []) {
+      const results = tryReadQuantumResult(job.results);
+      if (results && results.shots > 0) {
+        compared.push({ job, label: `#${compared.length + 1} ${job.id.slice(0, 8)}`, results });
+      } else {
+        skipped.push(job.id.slice(0, 8));
+      }
+    }
+    return { compared, skipped };
+  }, [jobs]);
+
+  const outcomes = useMemo(() => {
+    const all = [...new Set(compared.flatMap(({ results }) => Object.keys(results.probabilities)))];
+    const [baseline] = compared;
+    // Largest change from the baseline first
+    const change = (state: string) => Math.max(0, ...compared.map(({ results }) =>
+      Math.abs((results.probabilities[state] ?? 0) - (baseline?.results.probabilities[state] ?? 0))));
+    return all.sort((a, b) => change(b) - change(a) || a.localeCompare(b));
+  }, [compared]);
+
+  const chartData = useMemo(() => {
+    const peak = (state: string) => Math.max(...compared.map(({ results }) => results.probabilities[state] ?? 0));
+    return [...outcomes]
+      .sort((a, b) => peak(b) - peak(a))
+      .slice(0, MAX_CHART_OUTCOMES)
+      .sort()
+      .map(state => ({
+        state,
+        ...Object.fromEntries(compared.map(({ label, results }) => [label, (results.probabilities[state] ?? 0) * 100])),
+      }));
+  }, [compared, outcomes]);
+
+  if (error) return <p className="text-sm text-destructive">Couldn't load the jobs: {error}</p>;
+  if (!jobs) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  const [baseline, ...others] = compared;
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      {skipped.length > 0 && (
+        <p className="text-[10px] md:text-xs text-muted-foreground">
+          Left out without readable results: <span className="font-mono">{skipped.join(', ')}</span>
+        </p>
+      )}
+      {compared.length < 2 ? (
+        <p className="text-sm text-muted-foreground">Pick at least two completed jobs with results to compare.</p>
+      ) : (
+        <>
+          <div className="space-y-2">
+            <h3 className="text-xs md:text-sm font-medium">Settings</h3>
+            <SettingsTable jobs={compared} />
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-xs md:text-sm font-medium">Measurement Distributions</h3>
+            {outcomes.length > MAX_CHART_OUTCOMES && (
+              <p className="text-[10px] md:text-xs text-muted-foreground">
+                The {MAX_CHART_OUTCOMES} most likely of {outcomes.length} outcomes
+              </p>
+            )}
+            <ResponsiveContainer width="100%" height={260}>
+              <BarChart data={chartData}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis dataKey="state" className="text-[10px] md:text-xs" tickFormatter={(value) => `|${value}⟩`} />
+                <YAxis className="text-[10px] md:text-xs" unit="%" />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))'
+                  }}
+                  labelFormatter={(value) => `State: |${value}⟩`}
+                  formatter={(value: number) => `${value.toFixed(2)}%`}
+                />
+                <Legend wrapperStyle={{ fontSize: 12 }} />
+                {compared.map(({ label }, index) => (
+                  <Bar key={label} dataKey={label} fill={colorOf(index)} radius={[2, 2, 0, 0]} />
+                ))}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-xs md:text-sm font-medium">Distances</h3>
+            <div className="rounded-lg border border-border overflow-hidden overflow-x-auto">
+              <table className="w-full min-w-full">
+                <thead className="bg-muted">
+                  <tr>
+                    <th className="px-2 md:px-4 py-2 text-left text-[10px] md:text-xs font-medium">
+                      Hellinger fidelity / TVD
+                    </th>
+                    {compared.map(({ label }, index) => (
+                      <th key={label} className="px-2 md:px-4 py-2 text-right text-[10px] md:text-xs font-medium" style={{ color: colorOf(index) }}>
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {compared.map((row, i) => (
+                    <tr key={row.label}>
+                      <td className="px-2 md:px-4 py-2 text-xs md:text-sm font-medium" style={{ color: colorOf(i) }}>{row.label}</td>
+                      {compared.map((column, j) => (
+                        <td key={column.label} className="px-2 md:px-4 py-2 text-right text-xs md:text-sm font-mono">
+                          {i === j ? (
+                            <span className="text-muted-foreground">—</span>
+                          ) : (
+                            <>
+                              {hellingerFidelity(row.results.probabilities, column.results.probabilities).toFixed(4)}
+                              <span className="text-muted-foreground">
+                                {' / '}
+                                {totalVariationDistance(row.results.probabilities, column.results.probabilities).toFixed(4)}
+                              </span>
+                            </>
+                          )}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className="text-[10px] md:text-xs text-muted-foreground">
+              Fidelity 1 and distance 0 mean identical distributions. Runs of the same circuit still differ by sampling noise.
+            </p>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-xs md:text-sm font-medium">Per-outcome Differences from {baseline.label}</h3>
+            <div className="rounded-lg border border-border overflow-hidden overflow-x-auto max-h-[400px] overflow-y-auto">
+              <table className="w-full min-w-full">
+                <thead className="bg-muted sticky top-0">
+                  <tr>
+                    <th className="px-2 md:px-4 py-2 text-left text-[10px] md:text-xs font-medium">State</th>
+                    <th className="px-2 md:px-4 py-2 text-right text-[10px] md:text-xs font-medium" style={{ color: colorOf(0) }}>
+                      {baseline.label}
+                    </th>
+                    {others.map(({ label }, index) => (
+                      <th key={label} className="px-2 md:px-4 py-2 text-right text-[10px] md:text-xs font-medium" style={{ color: colorOf(index + 1) }}>
+                        {label}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {outcomes.map(state => {
+                    const base = baseline.results.probabilities[state] ?? 0;
+                    return (
+                      <tr key={state} className="hover:bg-muted/50">
+                        <td className="px-2 md:px-4 py-2">
+                          <code className="text-xs md:text-sm font-mono">|{state}⟩</code>
+                        </td>
+                        <td className="px-2 md:px-4 py-2 text-right text-xs md:text-sm">{percent(base)}</td>
+                        {others.map(({ label, results }) => {
+                          const p = results.probabilities[state] ?? 0;
+                          const delta = p - base;
+                          return (
+                            <td key={label} className="px-2 md:px-4 py-2 text-right text-xs md:text-sm">
+                              {percent(p)}{' '}
+                              <span className={delta > 0 ? 'text-green-600' : delta < 0 ? 'text-destructive' : 'text-muted-foreground'}>
+                                ({signedPercent(delta)})
+                              </span>
+                            </td>
+                          );
+                        })}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <h3 className="text-xs md:text-sm font-medium">Code</h3>
+            {others.map((other, index) => (
+              <CodeDiff key={other.label} baseline={baseline} other={other} color={colorOf(index + 1)} />
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,162 @@
+import { useMemo } from "react";
+import type { Tables } from "@/integrations/supabase/types";
+import { Button } from "@/components/ui/button";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { JobStatusBadge } from "@/components/JobStatus";
+import { QuantumResults } from "@/components/QuantumResults";
+import {
+  describeNoise,
+  formatDate,
+  formatDuration,
+  jobBindings,
+  jobCircuit,
+  jobNoise,
+  jobObservableBasis,
+  jobSeed,
+  jobSweepPoint,
+  jobTemplateValues,
+} from "@/lib/job-format";
+import { Loader2, PencilLine, RotateCcw } from "lucide-react";
+
+interface JobDetailsProps {
+  job: Tables<"quantum_jobs">;
+  onRerun?: () => void;
+  onOpenInEditor?: () => void;
+  // True while a re-run of this job is executing
+  rerunning?: boolean;
+  showResults?: boolean;
+}
+
+// Everything needed to reproduce a job: the code it ran, backend, shots,
+// seed and noise model, with actions to run it again
+export const JobDetails = ({ job, onRerun, onOpenInEditor, rerunning = false, showResults = true }: JobDetailsProps) => {
+  const seed = jobSeed(job);
+  const templateValues = jobTemplateValues(job);
+  const bindings = jobBindings(job);
+  const sweepPoint = job.sweep_id ? jobSweepPoint(job) : null;
+  const observableBasis = jobObservableBasis(job);
+  const hasCode = Boolean(job.guppy_code);
+  const circuit = useMemo(() => (showResults ? jobCircuit(job) : null), [job, showResults]);
+
+  return (
+    <div className="space-y-4 md:space-y-6">
+      <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+        <dt className="text-muted-foreground">Status</dt>
+        <dd><JobStatusBadge status={job.status} cancelRequested={job.cancel_requested} cached={Boolean(job.cached_from)} /></dd>
+        <dt className="text-muted-foreground">Backend</dt>
+        <dd>{job.backend_type}</dd>
+        <dt className="text-muted-foreground">Shots</dt>
+        <dd>{job.shots ?? '—'}</dd>
+        <dt className="text-muted-foreground">Seed</dt>
+        <dd className="font-mono">{seed ?? 'not recorded'}</dd>
+        <dt className="text-muted-foreground">Noise</dt>
+        <dd>{describeNoise(jobNoise(job))}</dd>
+        {templateValues && (
+          <>
+            <dt className="text-muted-foreground">Template parameters</dt>
+            <dd className="font-mono">{templateValues}</dd>
+          </>
+        )}
+        {bindings && (
+          <>
+            <dt className="text-muted-foreground">Kernel parameters</dt>
+            <dd className="font-mono">{bindings}</dd>
+          </>
+        )}
+        {sweepPoint && (
+          <>
+            <dt className="text-muted-foreground">Sweep point</dt>
+            <dd className="font-mono">{sweepPoint}</dd>
+          </>
+        )}
+        {observableBasis && (
+          <>
+            <dt className="text-muted-foreground">Observable basis</dt>
+            <dd className="font-mono">{observableBasis}</dd>
+          </>
+        )}
+        {job.cached_from && (
+          <>
+            <dt className="text-muted-foreground">Served from cache</dt>
+            <dd>Results of job <span className="font-mono">{job.cached_from.slice(0, 8)}</span></dd>
+          </>
+        )}
+        {job.circuit_hash && (
+          <>
+            <dt className="text-muted-foreground">Circuit hash</dt>
+            <dd className="font-mono truncate" title={job.circuit_hash}>{job.circuit_hash.slice(0, 16)}</dd>
+          </>
+        )}
+        <dt className="text-muted-foreground">Created</dt>
+        <dd>{formatDate(job.created_at)}</dd>
+        <dt className="text-muted-foreground">Completed</dt>
+        <dd>{formatDate(job.completed_at)}</dd>
+        <dt className="text-muted-foreground">Execution time</dt>
+        <dd>{formatDuration(job.execution_time_ms)}</dd>
+        {job.attempts > 0 && (
+          <>
+            <dt className="text-muted-foreground">Attempts</dt>
+            <dd>{job.attempts} of {job.max_attempts}</dd>
+          </>
+        )}
+      </dl>
+
+      {job.error_message && (
+        <Alert variant={job.status === 'failed' ? 'destructive' : 'default'}>
+          <AlertTitle>{job.status === 'failed' ? 'Error' : 'Message'}</AlertTitle>
+          <AlertDescription className="break-words">{job.error_message}</AlertDescription>
+        </Alert>
+      )}
+
+      {(onRerun || onOpenInEditor) && (
+        <div className="space-y-2">
+          <div className="flex flex-wrap gap-2">
+            {onRerun && (
+              <Button onClick={onRerun} disabled={!hasCode || rerunning} size="sm" className="gradient-quantum">
+                {rerunning ? (
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                ) : (
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                )}
+                Re-run identically
+              </Button>
+            )}
+            {onOpenInEditor && (
+              <Button onClick={onOpenInEditor} disabled={!hasCode} variant="outline" size="sm">
+                <PencilLine className="w-4 h-4 mr-2" />
+                Open in editor
+              </Button>
+            )}
+          </div>
+          {!hasCode ? (
+            <p className="text-xs text-muted-foreground">
+              This job was submitted without a copy of its code, so it can't be run again.
+            </p>
+          ) : seed === null && (
+            <p className="text-xs text-muted-foreground">
+              No seed was recorded for this job; a re-run will draw a new one.
+            </p>
+          )}
+        </div>
+      )}
+
+      {job.guppy_code && (
+        <div>
+          <h3 className="text-xs md:text-sm font-medium mb-2">Code</h3>
+          <pre className="text-[10px] md:text-xs bg-muted p-2 md:p-3 rounded-lg overflow-x-auto">
+            {job.guppy_code}
+          </pre>
+        </div>
+      )}
+
+      <div>
+        <h3 className="text-xs md:text-sm font-medium mb-2">Parameters</h3>
+        <pre className="text-[10px] md:text-xs bg-muted p-2 md:p-3 rounded-lg overflow-x-auto">
+          {JSON.stringify(job.parameters ?? {}, null, 2)}
+        </pre>
+      </div>
+
+      {showResults && job.results && <QuantumResults results={job.results} circuit={circuit} />}
+    </div>
+  );
+};
@@ -1,13 +1,15 @@
 import { useEffect, useState } from "react";
+import { Link } from "react-router-dom";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { supabase } from "@/integrations/supabase/client";
-import { Loader2, CheckCircle2, XCircle, Clock, Download } from "lucide-react";
+import { Loader2, Download, X, GitCompare } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import { generateResultsSVG, downloadSVG } from "@/lib/svg-generator";
-import { generateKrumpSVG, downloadKrumpSVG } from "@/lib/krump-svg-generator";
+import { Checkbox } from "@/components/ui/checkbox";
+import { JobStatusBadge, JobStatusIcon } from "@/components/JobStatus";
+import { downloadKrumpJobSVG, downloadQuantumJobSVG, isKrumpResults } from "@/lib/job-downloads";
 import { useToast } from "@/hooks/use-toast";
+import type { Json } from "@/integrations/supabase/types";
 
 interface Job {
   id: string;
@@ -16,18 +18,25 @@ interface Job {
   shots: number;
   created_at: string;
   execution_time_ms?: number;
-  results?: any;
+  results?: Json | null;
+  cancel_requested?: boolean;
+  cached_from?: string | null;
 }
 
 interface JobQueueProps {
   onJobClick?: (jobId: string) => void;
+  // Shows checkboxes on completed jobs and a button to compare the ticked ones
+  onCompare?: (jobIds: string[]) => void;
   isMobilePopup?: boolean;
 }
 
-export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
+export const JobQueue = ({ onJobClick, onCompare, isMobilePopup }: JobQueueProps) => {
   const [jobs, setJobs] = useState<Job[]>([]);
   const [downloadingJobId, setDownloadingJobId] = useState<string | null>(null);
+  const [cancellingJobId, setCancellingJobId] = useState<string | null>(null);
   const [krumpJobIds, setKrumpJobIds] = useState<Set<string>>(new Set());
+  // In the order they were ticked, so the first is the comparison's baseline
+  const [compareIds, setCompareIds] = useState<string[]>([]);
   const { toast } = useToast();
 
   const formatJobDateTime = (dateString: string) => {
@@ -63,7 +72,7 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
   const fetchJobs = async () => {
     const { data } = await supabase
       .from('quantum_jobs')
-      .select('id, status, backend_type, shots, created_at, execution_time_ms, results')
+      .select('id, status, backend_type, shots, created_at, execution_time_ms, results, cancel_requested, cached_from')
       .order('created_at', { ascending: false })
       .limit(10);
 
@@ -73,7 +82,7 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
       // Identify which jobs are Krump choreography
       const krumpIds = new Set<string>();
       data.forEach(job => {
-        if (job.results && (job.results as any).circuit === 'krump_choreography') {
+        if (isKrumpResults(job.results)) {
           krumpIds.add(job.id);
         }
       });
@@ -81,24 +90,62 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
     }
   };
 
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return <CheckCircle2 className="w-4 h-4 text-green-500" />;
-      case 'failed':
-        return <XCircle className="w-4 h-4 text-destructive" />;
-      case 'running':
-        return <Loader2 className="w-4 h-4 text-secondary animate-spin" />;
-      default:
-        return <Clock className="w-4 h-4 text-muted-foreground" />;
-    }
-  };
+  const toggleCompare = (jobId: string, checked: boolean) =>
+    setCompareIds(ids => (checked ? [...ids, jobId] : ids.filter(id => id !== jobId)));
+
+  const compareButton = onCompare && (
+    <Button
+      variant="outline"
+      size="sm"
+      onClick={() => onCompare(compareIds)}
+      disabled={compareIds.length < 2}
+      title={compareIds.length < 2 ? "Tick two or more completed jobs" : "Compare the ticked jobs"}
+      className="h-7 text-xs"
+    >
+      <GitCompare className="w-3 h-3 mr-1" />
+      Compare{compareIds.length > 0 && ` (${compareIds.length})`}
+    </Button>
+  );
 
-  const getStatusBadge = (status: string) => {
-    const variant = status === 'completed' ? 'default' : 
-                   status === 'failed' ? 'destructive' : 
-                   status === 'running' ? 'secondary' : 'outline';
-    return <Badge variant={variant as any}>{status}</Badge>;
+  const compareCheckbox = (job: Job) => onCompare && job.status === 'completed' && (
+    <Checkbox
+      checked={compareIds.includes(job.id)}
+      onCheckedChange={(checked) => toggleCompare(job.id, checked === true)}
+      onClick={(e) => e.stopPropagation()}
+      aria-label="Select to compare"
+    />
+  );
+
+  const isCancellable = (job: Job) =>
+    (job.status === 'queued' || job.status === 'running') && !job.cancel_requested;
+
+  const handleCancelJob = async (jobId: string, e: React.MouseEvent) => {
+    e.stopPropagation();
+    setCancellingJobId(jobId);
+
+    try {
+      const { data: status, error } = await supabase.rpc('cancel_quantum_job', { job_id: jobId });
+      if (error) throw error;
+      if (!status) throw new Error('Job not found');
+
+      toast({
+        title: status === 'cancelled' ? "Job cancelled" : "Cancelling job",
+        description: status === 'running'
+          ? "The job will stop as soon as its runner notices"
+          : status === 'cancelled'
+            ? "Nothing was running the job, so it was cancelled straight away"
+            : `The job already ${status}`,
+      });
+    } catch (error) {
+      console.error('Error cancelling job:', error);
+      toast({
+        title: "Error",
+        description: "Failed to cancel job",
+        variant: "destructive",
+      });
+    } finally {
+      setCancellingJobId(null);
+    }
   };
 
   const handleDownloadKrumpJob = async (jobId: string, e: React.MouseEvent) => {
@@ -116,17 +163,7 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
         throw new Error('Failed to fetch job results');
       }
 
-      const results = data.results as any;
-      const metadata = {
-        backend_type: data.backend_type,
-        shots: data.shots,
-        created_at: data.created_at,
-        circuit: results.circuit
-      };
-      
-      const svg = await generateKrumpSVG(results, metadata);
-      const filename = `krump-choreography-${jobId.slice(0, 8)}-${Date.now()}.svg`;
-      downloadKrumpSVG(svg, filename);
+      await downloadKrumpJobSVG({ id: jobId, ...data });
 
       toast({
         title: "Success",
@@ -159,17 +196,7 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
         throw new Error('Failed to fetch job results');
       }
 
-      const results = data.results as any;
-      const metadata = {
-        backend_type: data.backend_type,
-        shots: data.shots,
-        created_at: data.created_at,
-        circuit: results.circuit
-      };
-      
-      const svg = await generateResultsSVG(results, metadata);
-      const filename = `quantum-job-${jobId.slice(0, 8)}-${Date.now()}.svg`;
-      downloadSVG(svg, filename);
+      await downloadQuantumJobSVG({ id: jobId, ...data });
 
       toast({
         title: "Success",
@@ -191,6 +218,7 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
   if (isMobilePopup) {
     return (
       <div className="flex flex-col h-full p-4">
+        {compareButton && <div className="flex justify-end mb-2">{compareButton}</div>}
         <ScrollArea className="flex-1">
           <div className="space-y-2">
             {jobs.length === 0 && (
@@ -209,7 +237,8 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
                 }`}
               >
                 <div className="flex items-center gap-3 flex-1 min-w-0">
-                  {getStatusIcon(job.status)}
+                  {compareCheckbox(job)}
+                  <JobStatusIcon status={job.status} />
                   <div className="min-w-0 flex-1">
                     <p className="text-sm font-medium truncate">
                       {job.backend_type} ({job.shots} shots)
@@ -271,7 +300,23 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
                       )}
                     </>
                   )}
-                  {getStatusBadge(job.status)}
+                  {isCancellable(job) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => handleCancelJob(job.id, e)}
+                      disabled={cancellingJobId === job.id}
+                      className="h-8 w-8"
+                      title="Cancel job"
+                    >
+                      {cancellingJobId === job.id ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <X className="w-4 h-4" />
+                      )}
+                    </Button>
+                  )}
+                  <JobStatusBadge status={job.status} cancelRequested={job.cancel_requested} cached={Boolean(job.cached_from)} />
                 </div>
               </div>
             ))}
@@ -285,7 +330,15 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
   return (
     <Card>
       <CardHeader className="p-4 md:p-6">
-        <CardTitle className="text-base md:text-lg">Job Queue</CardTitle>
+        <div className="flex items-center justify-between">
+          <CardTitle className="text-base md:text-lg">Job Queue</CardTitle>
+          <div className="flex items-center gap-3">
+            {compareButton}
+            <Button asChild variant="link" size="sm" className="h-auto p-0 text-xs md:text-sm">
+              <Link to="/jobs">View all</Link>
+            </Button>
+          </div>
+        </div>
       </CardHeader>
       <CardContent className="p-4 md:p-6 pt-0">
         <ScrollArea className="h-[200px] md:h-[300px]">
@@ -306,7 +359,8 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
                 }`}
               >
                 <div className="flex items-center gap-2 md:gap-3 flex-1 min-w-0">
-                  {getStatusIcon(job.status)}
+                  {compareCheckbox(job)}
+                  <JobStatusIcon status={job.status} />
                   <div className="min-w-0 flex-1">
                     <p className="text-xs md:text-sm font-medium truncate">
                       {job.backend_type} ({job.shots} shots)
@@ -368,7 +422,23 @@ export const JobQueue = ({ onJobClick, isMobilePopup }: JobQueueProps) => {
                       )}
                     </>
                   )}
-                  {getStatusBadge(job.status)}
+                  {isCancellable(job) && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={(e) => handleCancelJob(job.id, e)}
+                      disabled={cancellingJobId === job.id}
+                      className="h-7 w-7 md:h-8 md:w-8"
+                      title="Cancel job"
+                    >
+                      {cancellingJobId === job.id ? (
+                        <Loader2 className="w-3 h-3 md:w-4 md:h-4 animate-spin" />
+                      ) : (
+                        <X className="w-3 h-3 md:w-4 md:h-4" />
+                      )}
+                    </Button>
+                  )}
+                  <JobStatusBadge status={job.status} cancelRequested={job.cancel_requested} cached={Boolean(job.cached_from)} />
                 </div>
               </div>
             ))}
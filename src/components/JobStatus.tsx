@@ -0,0 +1,42 @@
+import { Badge } from "@/components/ui/badge";
+import { Ban, CheckCircle2, Clock, Loader2, XCircle } from "lucide-react";
+
+// Status icon and badge shared by the job queue and the job history page
+
+export const JobStatusIcon = ({ status }: { status: string }) => {
+  switch (status) {
+    case 'completed':
+      return <CheckCircle2 className="w-4 h-4 text-green-500" />;
+    case 'failed':
+      return <XCircle className="w-4 h-4 text-destructive" />;
+    case 'running':
+      return <Loader2 className="w-4 h-4 text-secondary animate-spin" />;
+    case 'cancelled':
+      return <Ban className="w-4 h-4 text-orange-500" />;
+    default:
+      return <Clock className="w-4 h-4 text-muted-foreground" />;
+  }
+};
+
+interface JobStatusBadgeProps {
+  status: string;
+  cancelRequested?: boolean;
+  // Completed by reusing an earlier job's results
+  cached?: boolean;
+}
+
+export const JobStatusBadge = ({ status, cancelRequested, cached }: JobStatusBadgeProps) => {
+  if (status === 'completed' && cached) {
+    return <Badge variant="secondary">cached</Badge>;
+  }
+  if (status === 'cancelled') {
+    return <Badge variant="outline" className="border-orange-500/50 text-orange-500">cancelled</Badge>;
+  }
+  if (status === 'running' && cancelRequested) {
+    return <Badge variant="secondary">cancelling</Badge>;
+  }
+  const variant = status === 'completed' ? 'default' :
+                 status === 'failed' ? 'destructive' :
+                 status === 'running' ? 'secondary' : 'outline';
+  return <Badge variant={variant}>{status}</Badge>;
+};
@@ -6,12 +6,13 @@ import { Download } from "lucide-react";
 import { decodeKrumpResults, getEnergyLevel, getSuggestedRoutine, type DecodedMove } from "@/lib/krump-decoder";
 import { generateKrumpSVG, downloadKrumpSVG } from "@/lib/krump-svg-generator";
 import { useToast } from "@/hooks/use-toast";
+import type { QuantumResult } from "@/lib/results/schema";
 
 interface KrumpChoreographyProps {
   measurements: Record<string, number>;
   probabilities: Record<string, number>;
   shots: number;
-  results?: any;
+  results?: QuantumResult;
   jobMetadata?: {
     circuit?: string;
     backend_type?: string;
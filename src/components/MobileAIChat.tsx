@@ -8,9 +8,10 @@ import { GeneratedCircuitsGallery } from "@/components/GeneratedCircuitsGallery"
 
 interface MobileAIChatProps {
   onJobClick: (jobId: string) => void;
+  onCompareJobs?: (jobIds: string[]) => void;
 }
 
-export const MobileAIChat = ({ onJobClick }: MobileAIChatProps) => {
+export const MobileAIChat = ({ onJobClick, onCompareJobs }: MobileAIChatProps) => {
   const [isOpen, setIsOpen] = useState(false);
   const [activeTab, setActiveTab] = useState("ai");
 
@@ -105,7 +106,7 @@ export const MobileAIChat = ({ onJobClick }: MobileAIChatProps) => {
                 </TabsContent>
                 
                 <TabsContent value="jobs" className="flex-1 mt-0 overflow-hidden">
-                  <JobQueue onJobClick={onJobClick} isMobilePopup />
+                  <JobQueue onJobClick={onJobClick} onCompare={onCompareJobs} isMobilePopup />
                 </TabsContent>
               </Tabs>
             </div>
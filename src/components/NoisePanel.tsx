@@ -0,0 +1,184 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Plus, Trash2, Waves } from "lucide-react";
+import { GATES, type GateName } from "@/lib/quantum/gates";
+import { NOISE_RATES, type NoiseModel, type NoiseRate, type NoiseRates } from "@/lib/quantum/noise";
+
+interface NoisePanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  model: NoiseModel;
+  onModelChange: (model: NoiseModel) => void;
+  numQubits?: number;
+}
+
+// One editable row per overridden rate
+interface Override {
+  scope: "gate" | "qubit";
+  target: string;
+  rate: NoiseRate;
+  value: number;
+}
+
+const GATE_NAMES = Object.keys(GATES) as GateName[];
+const GATE_RATES = NOISE_RATES.filter(rate => !rate.readout);
+
+const overridesOf = (model: NoiseModel): Override[] => [
+  ...Object.entries(model.gates ?? {}).flatMap(([target, rates]) =>
+    Object.entries(rates).map(([rate, value]) => ({ scope: "gate" as const, target, rate: rate as NoiseRate, value }))
+  ),
+  ...Object.entries(model.qubits ?? {}).flatMap(([target, rates]) =>
+    Object.entries(rates).map(([rate, value]) => ({ scope: "qubit" as const, target, rate: rate as NoiseRate, value }))
+  ),
+];
+
+const withOverrides = (model: NoiseModel, overrides: Override[]): NoiseModel => {
+  const gates: Partial<Record<GateName, Partial<NoiseRates>>> = {};
+  const qubits: Record<string, Partial<NoiseRates>> = {};
+  for (const { scope, target, rate, value } of overrides) {
+    if (scope === "gate") gates[target as GateName] = { ...gates[target as GateName], [rate]: value };
+    else qubits[target] = { ...qubits[target], [rate]: value };
+  }
+  return { ...model, gates, qubits };
+};
+
+const parseRate = (text: string) => Math.min(1, Math.max(0, parseFloat(text) || 0));
+
+export const NoisePanel = ({ enabled, onEnabledChange, model, onModelChange, numQubits = 1 }: NoisePanelProps) => {
+  const overrides = overridesOf(model);
+
+  const setDefault = (rate: NoiseRate, value: number) =>
+    onModelChange({ ...model, defaults: { ...model.defaults, [rate]: value } });
+
+  const setOverride = (index: number, change: Partial<Override>) => {
+    const next = overrides.map((override, i) => (i === index ? { ...override, ...change } : override));
+    // Readout only applies per qubit
+    const edited = next[index];
+    if (edited.scope === "gate" && NOISE_RATES.find(r => r.key === edited.rate)?.readout) {
+      edited.rate = "depolarizing";
+    }
+    onModelChange(withOverrides(model, next));
+  };
+
+  const addOverride = () =>
+    onModelChange(withOverrides(model, [...overrides, { scope: "gate", target: "cx", rate: "depolarizing", value: 0.02 }]));
+
+  const removeOverride = (index: number) =>
+    onModelChange(withOverrides(model, overrides.filter((_, i) => i !== index)));
+
+  return (
+    <Card>
+      <CardHeader className="p-4 md:p-6">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base md:text-lg">
+              <Waves className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+              Noise Model
+            </CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              Channels are applied after every gate on each qubit it touches; readout errors flip recorded bits
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="noise-enabled" className="text-xs md:text-sm">Enabled</Label>
+            <Switch id="noise-enabled" checked={enabled} onCheckedChange={onEnabledChange} />
+          </div>
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="p-4 md:p-6 pt-0 space-y-4">
+          <div className="grid grid-cols-2 sm:grid-cols-4 md:grid-cols-7 gap-3">
+            {NOISE_RATES.map(rate => (
+              <div key={rate.key} className="space-y-1">
+                <Label htmlFor={`noise-${rate.key}`} className="text-xs">{rate.label}</Label>
+                <Input
+                  id={`noise-${rate.key}`}
+                  type="number"
+                  min="0"
+                  max="1"
+                  step="0.001"
+                  value={model.defaults[rate.key]}
+                  onChange={(e) => setDefault(rate.key, parseRate(e.target.value))}
+                  className="h-8 text-xs"
+                />
+              </div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label className="text-xs md:text-sm">Per-gate and per-qubit overrides</Label>
+              <Button size="sm" variant="outline" onClick={addOverride} className="gap-1 h-7 text-xs">
+                <Plus className="w-3 h-3" />
+                Add
+              </Button>
+            </div>
+            {overrides.length === 0 && (
+              <p className="text-xs text-muted-foreground">
+                Every gate and qubit uses the rates above. Qubit overrides win over gate overrides.
+              </p>
+            )}
+            {overrides.map((override, index) => {
+              const rates = override.scope === "gate" ? GATE_RATES : NOISE_RATES;
+              return (
+                <div key={`${override.scope}-${override.target}-${override.rate}`} className="flex flex-wrap items-center gap-2">
+                  <Select
+                    value={`${override.scope}:${override.target}`}
+                    onValueChange={(value) => {
+                      const [scope, target] = value.split(":");
+                      setOverride(index, { scope: scope as Override["scope"], target });
+                    }}
+                  >
+                    <SelectTrigger className="h-8 w-32 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {GATE_NAMES.map(gate => (
+                        <SelectItem key={gate} value={`gate:${gate}`}>Gate {gate}</SelectItem>
+                      ))}
+                      {Array.from({ length: Math.max(numQubits, Number(override.target) + 1 || 0) }, (_, q) => (
+                        <SelectItem key={q} value={`qubit:${q}`}>Qubit {q}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select value={override.rate} onValueChange={(rate) => setOverride(index, { rate: rate as NoiseRate })}>
+                    <SelectTrigger className="h-8 w-40 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {rates.map(rate => (
+                        <SelectItem key={rate.key} value={rate.key}>{rate.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.001"
+                    value={override.value}
+                    onChange={(e) => setOverride(index, { value: parseRate(e.target.value) })}
+                    className="h-8 w-24 text-xs"
+                  />
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => removeOverride(index)}
+                    className="h-8 w-8"
+                    title="Remove override"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,106 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Sigma } from "lucide-react";
+import {
+  PauliError,
+  denseLabel,
+  describeTerm,
+  groupTerms,
+  observableQubits,
+  parseObservable,
+} from "@/lib/quantum/pauli";
+
+interface ObservablePanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  source: string;
+  onSourceChange: (source: string) => void;
+  // Qubits of the circuit in the editor, when it compiles
+  numQubits: number | null;
+}
+
+const PLACEHOLDER = `# One term per line, or joined with + and -
+0.5 * ZZ
+- 0.25 X0 X1
++ 1.0`;
+
+const describeError = (error: unknown) => {
+  if (error instanceof PauliError && error.line !== null) return `Line ${error.line}: ${error.message}`;
+  return error instanceof Error ? error.message : 'Invalid observable';
+};
+
+export const ObservablePanel = ({ enabled, onEnabledChange, source, onSourceChange, numQubits }: ObservablePanelProps) => {
+  let summary: string;
+  let invalid = false;
+  let settings: { basis: string; terms: string[] }[] = [];
+  try {
+    const terms = parseObservable(source);
+    const groups = groupTerms(terms);
+    const width = Math.max(numQubits ?? 0, observableQubits(terms));
+    if (numQubits !== null && observableQubits(terms) > numQubits) {
+      invalid = true;
+      summary = `The observable acts on ${observableQubits(terms)} qubits but the circuit has ${numQubits}`;
+    } else {
+      summary = `${terms.length} ${terms.length === 1 ? 'term' : 'terms'} measured in ${groups.length} ${groups.length === 1 ? 'setting' : 'settings'}, one job each`;
+    }
+    settings = groups.map(group => ({
+      basis: denseLabel(group.basis, width),
+      terms: group.terms.map(index => describeTerm(terms[index])),
+    }));
+  } catch (error) {
+    invalid = true;
+    summary = describeError(error);
+  }
+
+  return (
+    <Card>
+      <CardHeader className="p-4 md:p-6">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base md:text-lg">
+              <Sigma className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+              Expectation Values
+            </CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              Estimate a Pauli string or a weighted sum of them. Terms that share a measurement basis run as one job
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="observable-enabled" className="text-xs md:text-sm">Observable</Label>
+            <Switch id="observable-enabled" checked={enabled} onCheckedChange={onEnabledChange} />
+          </div>
+        </div>
+      </CardHeader>
+      {enabled && (
+        <CardContent className="p-4 md:p-6 pt-0 space-y-3">
+          <Textarea
+            id="observable-source"
+            value={source}
+            onChange={(e) => onSourceChange(e.target.value)}
+            placeholder={PLACEHOLDER}
+            rows={4}
+            spellCheck={false}
+            className="font-mono text-xs md:text-sm"
+          />
+          <p className="text-xs text-muted-foreground">
+            Dense strings like <code className="font-mono">XZI</code> put qubit 0 first; sparse ones name each qubit,
+            as in <code className="font-mono">X0 Z2</code>. A term without Paulis is a constant.
+          </p>
+          <p className={`text-xs ${invalid ? 'text-destructive' : 'text-muted-foreground'}`}>{summary}</p>
+          {!invalid && (
+            <ul className="space-y-1">
+              {settings.map(({ basis, terms }) => (
+                <li key={basis} className="text-xs">
+                  <code className="font-mono font-medium">{basis}</code>
+                  <span className="text-muted-foreground">: {terms.join(', ')}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
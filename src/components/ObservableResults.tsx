@@ -0,0 +1,68 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { denseLabel, describeTerm, observableQubits } from "@/lib/quantum/pauli";
+import { estimateObservable, type Estimate } from "@/lib/results/expectation";
+import type { ObservableRun } from "@/hooks/useQuantumExecution";
+
+interface ObservableResultsProps {
+  run: ObservableRun;
+}
+
+const formatEstimate = ({ value, standardError }: Estimate) =>
+  Number.isNaN(value) ? '—' : `${value.toFixed(4)} ± ${Number.isNaN(standardError) ? '?' : standardError.toFixed(4)}`;
+
+// ⟨H⟩ and each term's ⟨P⟩, with standard errors from the shot counts
+export const ObservableResults = ({ run }: ObservableResultsProps) => {
+  const estimate = useMemo(() => estimateObservable(run.terms, run.groups, run.results), [run]);
+  const width = observableQubits(run.terms);
+  const basisOf = (index: number) => {
+    const group = run.groups.find(g => g.terms.includes(index));
+    return group ? denseLabel(group.basis, width) : null;
+  };
+
+  return (
+    <Card>
+      <CardHeader className="p-4 md:p-6">
+        <CardTitle className="text-base md:text-lg">Expectation Value</CardTitle>
+        <CardDescription className="text-xs md:text-sm">
+          {run.groups.length} {run.groups.length === 1 ? 'job' : 'jobs'}, one per measurement basis; errors are one standard error
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 md:p-6 pt-0 space-y-4">
+        <div className="rounded-lg border border-border p-3 md:p-4">
+          <p className="text-[10px] md:text-xs text-muted-foreground">⟨H⟩</p>
+          <p className="text-lg md:text-2xl font-semibold font-mono">{formatEstimate(estimate.total)}</p>
+        </div>
+
+        <div className="rounded-lg border border-border overflow-hidden overflow-x-auto">
+          <table className="w-full min-w-full">
+            <thead className="bg-muted">
+              <tr>
+                <th className="px-2 md:px-4 py-2 text-left text-[10px] md:text-xs font-medium">Term</th>
+                <th className="px-2 md:px-4 py-2 text-right text-[10px] md:text-xs font-medium">Coefficient</th>
+                <th className="px-2 md:px-4 py-2 text-right text-[10px] md:text-xs font-medium">⟨P⟩</th>
+                <th className="px-2 md:px-4 py-2 text-right text-[10px] md:text-xs font-medium">Basis</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-border">
+              {run.terms.map((term, index) => (
+                <tr key={describeTerm(term)} className="hover:bg-muted/50">
+                  <td className="px-2 md:px-4 py-2">
+                    <code className="text-xs md:text-sm font-mono">{describeTerm(term)}</code>
+                  </td>
+                  <td className="px-2 md:px-4 py-2 text-right text-xs md:text-sm">{term.coefficient}</td>
+                  <td className="px-2 md:px-4 py-2 text-right text-xs md:text-sm font-mono">
+                    {formatEstimate(estimate.terms[index])}
+                  </td>
+                  <td className="px-2 md:px-4 py-2 text-right text-xs md:text-sm text-muted-foreground">
+                    <code className="font-mono">{basisOf(index) ?? 'constant'}</code>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
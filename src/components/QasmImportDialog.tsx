@@ -0,0 +1,169 @@
+import { useMemo, useState, type ChangeEvent } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertCircle, CheckCircle2, FileUp, Loader2 } from "lucide-react";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { importQasm } from "@/lib/qasm/importer";
+import { QasmError } from "@/lib/qasm/errors";
+
+interface QasmImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImport: (code: string, circuitId: string | null) => void;
+}
+
+const functionName = (name: string) =>
+  name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '') || 'imported_circuit';
+
+export const QasmImportDialog = ({ open, onOpenChange, onImport }: QasmImportDialogProps) => {
+  const [source, setSource] = useState("");
+  const [name, setName] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Convert while typing so problems show up before importing
+  const preview = useMemo(() => {
+    if (!source.trim()) return null;
+    try {
+      return { result: importQasm(source, functionName(name)), error: null };
+    } catch (error) {
+      if (!(error instanceof QasmError)) throw error;
+      return { result: null, error };
+    }
+  }, [source, name]);
+
+  const handleFile = async (event: ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    setSource(await file.text());
+    if (!name.trim()) setName(file.name.replace(/\.q?asm$/i, ''));
+    event.target.value = "";
+  };
+
+  const handleImport = async () => {
+    if (!preview?.result) return;
+    const { result } = preview;
+
+    setIsSaving(true);
+    try {
+      let circuitId: string | null = null;
+      const { data: { user } } = await supabase.auth.getUser();
+      if (user) {
+        const { data, error } = await supabase
+          .from('quantum_circuits')
+          .insert({
+            user_id: user.id,
+            name: name.trim() || 'Imported Circuit',
+            description: `Imported from OpenQASM ${result.version}`,
+            guppy_code: result.code,
+            circuit_type: 'imported_qasm',
+            parameters: { qasm_version: result.version, qasm_source: source },
+          })
+          .select('id')
+          .single();
+        if (error) throw error;
+        circuitId = data.id;
+      }
+
+      onImport(result.code, circuitId);
+
+      toast({
+        title: "Circuit imported",
+        description: `${result.circuit.numQubits} qubits, ${result.circuit.operations.length} operations`,
+      });
+
+      setSource("");
+      setName("");
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Import error:', error);
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Could not save the imported circuit",
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-[95vw] sm:max-w-md md:max-w-2xl max-h-[90vh] overflow-y-auto p-4 sm:p-6">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2 text-lg sm:text-xl md:text-2xl">
+            <FileUp className="w-5 h-5 sm:w-6 sm:h-6 text-primary" />
+            Import OpenQASM
+          </DialogTitle>
+          <DialogDescription className="text-xs sm:text-sm">
+            Choose a .qasm file or paste an OpenQASM 2.0 / 3.0 program to convert it to Guppy
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 sm:space-y-4 py-3 sm:py-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="qasm-name">Circuit name</Label>
+              <Input
+                id="qasm-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Imported Circuit"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="qasm-file">File</Label>
+              <Input id="qasm-file" type="file" accept=".qasm,.txt,text/plain" onChange={handleFile} />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="qasm-source">OpenQASM source</Label>
+            <Textarea
+              id="qasm-source"
+              value={source}
+              onChange={(e) => setSource(e.target.value)}
+              spellCheck={false}
+              placeholder={'OPENQASM 2.0;\ninclude "qelib1.inc";\nqreg q[2];\ncreg c[2];\nh q[0];\ncx q[0], q[1];\nmeasure q -> c;'}
+              className="min-h-[200px] font-mono text-xs sm:text-sm"
+            />
+          </div>
+
+          {preview?.error && (
+            <p className="flex items-start gap-2 text-xs sm:text-sm text-destructive">
+              <AlertCircle className="w-4 h-4 mt-0.5 shrink-0" />
+              <span>
+                {preview.error.line !== null && (
+                  <span className="font-mono">
+                    Line {preview.error.line}{preview.error.column !== null && `, column ${preview.error.column}`}:
+                  </span>
+                )}{" "}
+                {preview.error.message}
+              </span>
+            </p>
+          )}
+          {preview?.result && (
+            <p className="flex items-center gap-2 text-xs sm:text-sm text-muted-foreground">
+              <CheckCircle2 className="w-4 h-4 text-green-500" />
+              OpenQASM {preview.result.version} · {preview.result.circuit.numQubits} qubits · {preview.result.circuit.operations.length} operations
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!preview?.result || isSaving} className="gap-2">
+            {isSaving ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileUp className="w-4 h-4" />}
+            Import to Editor
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -6,25 +6,22 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Badge } from "@/components/ui/badge";
 import { Loader2, Zap, CheckCircle2, XCircle } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { validateQuantumResult, type QuantumResult } from "@/lib/results/schema";
+import { transformSeleneResults } from "@/lib/results/selene";
 
 interface KrumpMove {
   jab_stomp: boolean;
   arm_swing: boolean;
   chest_pop: boolean;
   count: number;
+  // Fraction of shots
   probability: number;
 }
 
-interface KrumpResult {
-  measurements: Record<string, number>;
-  probabilities: Record<string, number>;
-  shots: number;
-}
-
 export const QuantumKrumpCircuit = () => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [results, setResults] = useState<KrumpResult | null>(null);
+  const [results, setResults] = useState<QuantumResult | null>(null);
   const [krumpMoves, setKrumpMoves] = useState<KrumpMove[]>([]);
   const { toast } = useToast();
 
@@ -49,7 +46,7 @@ export const QuantumKrumpCircuit = () => {
       }
 
       const data = await response.json();
-      const transformed = transformKrumpResults(data);
+      const transformed = validateQuantumResult(transformSeleneResults(data));
       setResults(transformed);
       setKrumpMoves(decodeChoreography(transformed));
 
@@ -70,30 +67,7 @@ export const QuantumKrumpCircuit = () => {
     }
   };
 
-  const transformKrumpResults = (seleneData: any): KrumpResult => {
-    const measurements: Record<string, number> = {};
-    const totalShots = seleneData.results?.length || 0;
-
-    if (seleneData.results) {
-      seleneData.results.forEach((result: any) => {
-        const bitstring = `${result.m0 ? "1" : "0"}${result.m1 ? "1" : "0"}${result.m2 ? "1" : "0"}`;
-        measurements[bitstring] = (measurements[bitstring] || 0) + 1;
-      });
-    }
-
-    const probabilities: Record<string, number> = {};
-    Object.entries(measurements).forEach(([key, count]) => {
-      probabilities[key] = (count / totalShots) * 100;
-    });
-
-    return {
-      measurements,
-      probabilities,
-      shots: totalShots,
-    };
-  };
-
-  const decodeChoreography = (results: KrumpResult): KrumpMove[] => {
+  const decodeChoreography = (results: QuantumResult): KrumpMove[] => {
     const moves: KrumpMove[] = [];
 
     Object.entries(results.measurements).forEach(([bitstring, count]) => {
@@ -160,10 +134,10 @@ export const QuantumKrumpCircuit = () => {
                         {move.chest_pop ? "1" : "0"}⟩
                       </span>
                       <span className="text-muted-foreground">
-                        {move.count} shots ({move.probability.toFixed(1)}%)
+                        {move.count} shots ({(move.probability * 100).toFixed(1)}%)
                       </span>
                     </div>
-                    <Progress value={move.probability} className="h-2" />
+                    <Progress value={move.probability * 100} className="h-2" />
                   </div>
                 ))}
               </div>
@@ -179,7 +153,7 @@ export const QuantumKrumpCircuit = () => {
                         Move Sequence {index + 1}
                       </span>
                       <Badge variant="secondary">
-                        {move.probability.toFixed(1)}% probability
+                        {(move.probability * 100).toFixed(1)}% probability
                       </Badge>
                     </div>
                     <div className="space-y-2">
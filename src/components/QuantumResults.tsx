@@ -3,26 +3,43 @@ import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContaine
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { ChevronDown, Download } from "lucide-react";
 import { Progress } from "@/components/ui/progress";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { BlochSphere } from "./BlochSphere";
 import { KrumpChoreography } from "./KrumpChoreography";
+import { ResultAnalysis } from "./ResultAnalysis";
+import { ShotSequence } from "./ShotSequence";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Button } from "@/components/ui/button";
 import { generateResultsSVG, downloadSVG } from "@/lib/svg-generator";
 import { generateKrumpSVG, downloadKrumpSVG } from "@/lib/krump-svg-generator";
 import { useToast } from "@/hooks/use-toast";
+import { readQuantumResult, ResultSchemaError, type QuantumResult } from "@/lib/results/schema";
+import type { Circuit } from "@/lib/quantum/circuit";
 
 interface QuantumResultsProps {
-  results: any;
+  // A results column as stored; checked against the result schema here
+  results: unknown;
+  // The circuit that produced them, for comparing against its ideal distribution
+  circuit?: Circuit | null;
 }
 
-export const QuantumResults = ({ results }: QuantumResultsProps) => {
+export const QuantumResults = ({ results: stored, circuit }: QuantumResultsProps) => {
   const [debugOpen, setDebugOpen] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
-    console.log('QuantumResults received:', results);
-  }, [results]);
+    console.log('QuantumResults received:', stored);
+  }, [stored]);
+
+  const { results, schemaError } = useMemo((): { results: QuantumResult | null; schemaError: string | null } => {
+    if (!stored) return { results: null, schemaError: null };
+    try {
+      return { results: readQuantumResult(stored), schemaError: null };
+    } catch (error) {
+      if (error instanceof ResultSchemaError) return { results: null, schemaError: error.message };
+      throw error;
+    }
+  }, [stored]);
 
   const handleDownloadQuantumSVG = async () => {
     try {
@@ -50,6 +67,21 @@ export const QuantumResults = ({ results }: QuantumResultsProps) => {
     }
   };
 
+  if (schemaError) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Results</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-destructive text-sm text-center py-8">
+            These results can't be displayed. {schemaError}
+          </p>
+        </CardContent>
+      </Card>
+    );
+  }
+
   if (!results) {
     return (
       <Card>
@@ -65,16 +97,19 @@ export const QuantumResults = ({ results }: QuantumResultsProps) => {
     );
   }
 
-  const chartData = Object.entries(results.measurements || {}).map(([state, count]) => ({
+  const chartData = Object.entries(results.measurements).map(([state, count]) => ({
     state,
-    count: Number(count),
-    probability: results.probabilities?.[state] || 0
+    count,
+    probability: results.probabilities[state] || 0
   }));
 
   console.log('Chart data:', chartData);
 
+  // Set by sampling backends that can estimate their own error, e.g. noisy trajectories
+  const statisticalError = results.statistical_error;
+
   const nQubits = results.n_qubits || (chartData[0]?.state?.length || 0);
-  const showBlochSphere = nQubits === 1 && results.probabilities;
+  const showBlochSphere = nQubits === 1;
   const isKrumpChoreography = results.circuit === 'krump_choreography';
 
   // If Krump choreography, show both views in tabs
@@ -132,6 +167,9 @@ export const QuantumResults = ({ results }: QuantumResultsProps) => {
                             <td className="px-2 md:px-4 py-2 text-right text-xs md:text-sm">{count}</td>
                             <td className="px-2 md:px-4 py-2 text-right text-xs md:text-sm">
                               {(probability * 100).toFixed(2)}%
+                              {statisticalError?.[state] !== undefined && (
+                                <span className="text-muted-foreground"> ± {(statisticalError[state] * 100).toFixed(2)}%</span>
+                              )}
                             </td>
                           </tr>
                         ))}
@@ -203,6 +241,10 @@ export const QuantumResults = ({ results }: QuantumResultsProps) => {
                   </div>
                 )}
 
+                <ResultAnalysis results={results} circuit={circuit} />
+
+                <ShotSequence results={results} />
+
                 {/* Debug Data Collapsible */}
                 <Collapsible open={debugOpen} onOpenChange={setDebugOpen}>
                   <CollapsibleTrigger className="flex items-center gap-2 text-[10px] md:text-xs text-muted-foreground hover:text-foreground touch-target">
@@ -258,6 +300,9 @@ export const QuantumResults = ({ results }: QuantumResultsProps) => {
                       <td className="px-2 md:px-4 py-2 text-right text-xs md:text-sm">{count}</td>
                       <td className="px-2 md:px-4 py-2 text-right text-xs md:text-sm">
                         {(probability * 100).toFixed(2)}%
+                        {statisticalError?.[state] !== undefined && (
+                          <span className="text-muted-foreground"> ± {(statisticalError[state] * 100).toFixed(2)}%</span>
+                        )}
                       </td>
                     </tr>
                   ))}
@@ -344,6 +389,10 @@ export const QuantumResults = ({ results }: QuantumResultsProps) => {
           </div>
         )}
 
+          <ResultAnalysis results={results} circuit={circuit} />
+
+          <ShotSequence results={results} />
+
           {/* Debug Data Collapsible */}
           <Collapsible open={debugOpen} onOpenChange={setDebugOpen}>
             <CollapsibleTrigger className="flex items-center gap-2 text-[10px] md:text-xs text-muted-foreground hover:text-foreground touch-target">
@@ -0,0 +1,191 @@
+import { useMemo, useState } from "react";
+import { Badge } from "@/components/ui/badge";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import type { Circuit } from "@/lib/quantum/circuit";
+import type { QuantumResult } from "@/lib/results/schema";
+import { idealProbabilities } from "@/lib/results/ideal";
+import { registerNames } from "@/lib/results/shots";
+import {
+  chiSquaredTest,
+  marginalize,
+  shannonEntropy,
+  totalVariationDistance,
+  wilsonInterval,
+  type Distribution,
+} from "@/lib/results/statistics";
+
+interface ResultAnalysisProps {
+  results: QuantumResult;
+  // The circuit that produced the results, simulated exactly for the ideal
+  // distribution; without it only the run's own statistics are shown
+  circuit?: Circuit | null;
+}
+
+// Below this p-value the run is reported as deviating from the ideal
+const SIGNIFICANCE = 0.05;
+
+const percent = (p: number) => `${(p * 100).toFixed(2)}%`;
+
+const formatPValue = (p: number) => (p < 1e-4 ? p.toExponential(1) : p.toFixed(4));
+
+interface OutcomeTableProps {
+  counts: Record<string, number>;
+  shots: number;
+  ideal: Distribution | null;
+}
+
+// Observed probability with its 95% interval next to the ideal one
+const OutcomeTable = ({ counts, shots, ideal }: OutcomeTableProps) => {
+  const outcomes = [...new Set([...Object.keys(counts), ...Object.keys(ideal ?? {})])].sort();
+  return (
+    <div className="rounded-lg border border-border overflow-hidden overflow-x-auto">
+      <table className="w-full min-w-full">
+        <thead className="bg-muted">
+          <tr>
+            <th className="px-2 md:px-4 py-2 text-left text-[10px] md:text-xs font-medium">State</th>
+            <th className="px-2 md:px-4 py-2 text-right text-[10px] md:text-xs font-medium">Observed</th>
+            <th className="px-2 md:px-4 py-2 text-right text-[10px] md:text-xs font-medium">95% interval</th>
+            {ideal && <th className="px-2 md:px-4 py-2 text-right text-[10px] md:text-xs font-medium">Ideal</th>}
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-border">
+          {outcomes.map(state => {
+            const count = counts[state] ?? 0;
+            const { lower, upper } = wilsonInterval(count, shots);
+            const expected = ideal?.[state] ?? 0;
+            const outside = ideal !== null && (expected < lower || expected > upper);
+            return (
+              <tr key={state} className="hover:bg-muted/50">
+                <td className="px-2 md:px-4 py-2">
+                  <code className="text-xs md:text-sm font-mono">|{state}⟩</code>
+                </td>
+                <td className="px-2 md:px-4 py-2 text-right text-xs md:text-sm">{percent(count / shots)}</td>
+                <td className="px-2 md:px-4 py-2 text-right text-xs md:text-sm text-muted-foreground">
+                  {percent(lower)} – {percent(upper)}
+                </td>
+                {ideal && (
+                  <td className={`px-2 md:px-4 py-2 text-right text-xs md:text-sm ${outside ? 'text-destructive font-medium' : ''}`}>
+                    {percent(expected)}
+                  </td>
+                )}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const Statistic = ({ label, value, detail }: { label: string; value: string; detail?: string }) => (
+  <div className="rounded-lg border border-border p-2 md:p-3">
+    <p className="text-[10px] md:text-xs text-muted-foreground">{label}</p>
+    <p className="text-sm md:text-base font-semibold">{value}</p>
+    {detail && <p className="text-[10px] md:text-xs text-muted-foreground">{detail}</p>}
+  </div>
+);
+
+/**
+ * How far a run's counts are from what the circuit should produce:
+ * confidence intervals per outcome, total variation distance and a
+ * chi-squared test against an exact noiseless simulation, entropy, and
+ * marginals over chosen bits.
+ */
+export const ResultAnalysis = ({ results, circuit }: ResultAnalysisProps) => {
+  const [marginalBits, setMarginalBits] = useState<string[]>(['0']);
+  const { measurements, probabilities, shots } = results;
+
+  const { ideal, idealError } = useMemo((): { ideal: Distribution | null; idealError: string | null } => {
+    if (!circuit) return { ideal: null, idealError: 'The circuit behind these results is not available' };
+    try {
+      return { ideal: idealProbabilities(circuit, results), idealError: null };
+    } catch (error) {
+      return { ideal: null, idealError: error instanceof Error ? error.message : String(error) };
+    }
+  }, [circuit, results]);
+
+  const test = useMemo(() => (ideal ? chiSquaredTest(measurements, ideal, shots) : null), [ideal, measurements, shots]);
+
+  const width = Object.keys(measurements)[0]?.length ?? 0;
+  const names = registerNames(results.registers ?? {});
+  const bitLabel = (bit: number) => (names.length === width ? names[bit] : `bit ${bit}`);
+  const chosen = marginalBits.map(Number).filter(bit => bit < width).sort((a, b) => a - b);
+
+  if (shots === 0 || width === 0) return null;
+
+  const deviates = test !== null && test.pValue < SIGNIFICANCE;
+
+  return (
+    <div className="space-y-3 md:space-y-4">
+      <div className="flex items-center justify-between gap-2">
+        <h3 className="text-xs md:text-sm font-medium">Statistical Analysis</h3>
+        {test && (
+          <Badge variant={deviates ? "destructive" : "secondary"} className="text-[10px] md:text-xs">
+            {deviates ? 'Deviates from ideal' : 'Consistent with ideal'}
+          </Badge>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 md:gap-3">
+        <Statistic
+          label="Shannon entropy"
+          value={`${shannonEntropy(probabilities).toFixed(3)} bits`}
+          detail={ideal ? `Ideal ${shannonEntropy(ideal).toFixed(3)} bits` : `Max ${width} bits`}
+        />
+        {ideal && test && (
+          <>
+            <Statistic
+              label="Total variation distance"
+              value={totalVariationDistance(probabilities, ideal).toFixed(4)}
+              detail="0 matches the ideal exactly"
+            />
+            <Statistic
+              label="χ² p-value"
+              value={formatPValue(test.pValue)}
+              detail={`χ² = ${Number.isFinite(test.statistic) ? test.statistic.toFixed(2) : '∞'}, ${test.degreesOfFreedom} d.o.f.`}
+            />
+            <Statistic label="Shots" value={String(shots)} detail={`Significance level ${SIGNIFICANCE}`} />
+          </>
+        )}
+      </div>
+
+      {idealError && (
+        <p className="text-[10px] md:text-xs text-muted-foreground">
+          No ideal distribution to compare against: {idealError}
+        </p>
+      )}
+      {test && !Number.isFinite(test.statistic) && (
+        <p className="text-[10px] md:text-xs text-muted-foreground">
+          Some outcomes were measured that the ideal circuit never produces, so the p-value is 0.
+        </p>
+      )}
+
+      <OutcomeTable counts={measurements} shots={shots} ideal={ideal} />
+
+      <div className="space-y-2">
+        <h4 className="text-[10px] md:text-xs font-medium">Marginal distribution</h4>
+        <ToggleGroup
+          type="multiple"
+          value={marginalBits}
+          onValueChange={setMarginalBits}
+          className="flex-wrap justify-start"
+        >
+          {Array.from({ length: width }, (_, bit) => (
+            <ToggleGroupItem key={bit} value={String(bit)} size="sm" className="font-mono text-[10px] md:text-xs">
+              {bitLabel(bit)}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+        {chosen.length > 0 ? (
+          <OutcomeTable
+            counts={marginalize(measurements, chosen)}
+            shots={shots}
+            ideal={ideal && marginalize(ideal, chosen)}
+          />
+        ) : (
+          <p className="text-[10px] md:text-xs text-muted-foreground">Pick one or more bits to sum the others out.</p>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { KRUMP_MOVES } from "@/lib/krump-decoder";
+import type { QuantumResult } from "@/lib/results/schema";
+import { registerNames } from "@/lib/results/shots";
+
+interface ShotSequenceProps {
+  results: QuantumResult;
+}
+
+const PAGE_SIZE = 50;
+
+// Each shot in the order it ran, with the measurements that came out 1 named
+export const ShotSequence = ({ results }: ShotSequenceProps) => {
+  const [visible, setVisible] = useState(PAGE_SIZE);
+  const names = registerNames(results.registers ?? {});
+  const records = results.shot_records ?? [];
+  const isKrump = results.circuit === 'krump_choreography';
+
+  if (names.length === 0) return null;
+
+  return (
+    <div>
+      <h3 className="text-xs md:text-sm font-medium mb-2 md:mb-3">Shots in Order</h3>
+      <p className="text-[10px] md:text-xs text-muted-foreground mb-2">
+        Bits, leftmost first:{" "}
+        {names.map((name, index) => (
+          <code key={name} className="font-mono">{index > 0 && " "}{name}</code>
+        ))}
+      </p>
+      {records.length === 0 ? (
+        <p className="text-[10px] md:text-xs text-muted-foreground">
+          Individual shots weren't recorded for this run, only their counts.
+        </p>
+      ) : (
+        <>
+          <div className="rounded-lg border border-border overflow-hidden overflow-x-auto">
+            <table className="w-full min-w-full">
+              <thead className="bg-muted">
+                <tr>
+                  <th className="px-2 md:px-4 py-2 text-left text-[10px] md:text-xs font-medium">Shot</th>
+                  <th className="px-2 md:px-4 py-2 text-left text-[10px] md:text-xs font-medium">Outcome</th>
+                  <th className="px-2 md:px-4 py-2 text-left text-[10px] md:text-xs font-medium">Measured 1</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-border">
+                {records.slice(0, visible).map((record, shot) => {
+                  const bitstring = names.map(name => (record[name] ? '1' : '0')).join('');
+                  const set = names.filter(name => record[name]);
+                  return (
+                    <tr key={shot} className="hover:bg-muted/50">
+                      <td className="px-2 md:px-4 py-1.5 text-xs md:text-sm text-muted-foreground">{shot + 1}</td>
+                      <td className="px-2 md:px-4 py-1.5">
+                        <code className="text-xs md:text-sm font-mono">|{bitstring}⟩</code>
+                      </td>
+                      <td className="px-2 md:px-4 py-1.5 text-xs md:text-sm">
+                        {isKrump && KRUMP_MOVES[bitstring]
+                          ? `${KRUMP_MOVES[bitstring].emoji} ${KRUMP_MOVES[bitstring].name}`
+                          : set.length > 0 ? set.join(', ') : <span className="text-muted-foreground">none</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          {visible < records.length && (
+            <Button variant="ghost" size="sm" className="mt-2" onClick={() => setVisible(visible + PAGE_SIZE)}>
+              Show {Math.min(PAGE_SIZE, records.length - visible)} more of {records.length}
+            </Button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,213 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { SlidersHorizontal } from "lucide-react";
+import type { KernelParameter } from "@/lib/guppy/compile";
+import {
+  MAX_SWEEP_POINTS,
+  countSweepPoints,
+  rangeFor,
+  sweepAxes,
+  type SweepRange,
+  type SweepSettings,
+} from "@/lib/sweeps";
+
+interface SweepPanelProps {
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  settings: SweepSettings;
+  onSettingsChange: (settings: SweepSettings) => void;
+  // Classical parameters of the kernel in the editor
+  parameters: KernelParameter[];
+  shots: number;
+  // A noise model is on and the backend supports it
+  noiseAvailable: boolean;
+}
+
+const parseNumber = (text: string) => (text.trim() === '' ? NaN : Number(text));
+
+const parseSteps = (text: string) => Math.max(1, Math.round(Number(text) || 1));
+
+interface RangeInputsProps {
+  id: string;
+  range: SweepRange;
+  onChange: (range: SweepRange) => void;
+  step?: string;
+}
+
+const RangeInputs = ({ id, range, onChange, step = "any" }: RangeInputsProps) => (
+  <div className="grid grid-cols-3 gap-2">
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-start`} className="text-xs text-muted-foreground">Start</Label>
+      <Input
+        id={`${id}-start`}
+        type="number"
+        step={step}
+        value={Number.isNaN(range.start) ? '' : range.start}
+        onChange={(e) => onChange({ ...range, start: parseNumber(e.target.value) })}
+        className="h-8 text-xs"
+      />
+    </div>
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-stop`} className="text-xs text-muted-foreground">Stop</Label>
+      <Input
+        id={`${id}-stop`}
+        type="number"
+        step={step}
+        value={Number.isNaN(range.stop) ? '' : range.stop}
+        onChange={(e) => onChange({ ...range, stop: parseNumber(e.target.value) })}
+        className="h-8 text-xs"
+      />
+    </div>
+    <div className="space-y-1">
+      <Label htmlFor={`${id}-steps`} className="text-xs text-muted-foreground">Steps</Label>
+      <Input
+        id={`${id}-steps`}
+        type="number"
+        min="1"
+        max={MAX_SWEEP_POINTS}
+        value={range.steps}
+        onChange={(e) => onChange({ ...range, steps: parseSteps(e.target.value) })}
+        className="h-8 text-xs"
+      />
+    </div>
+  </div>
+);
+
+export const SweepPanel = ({
+  enabled,
+  onEnabledChange,
+  settings,
+  onSettingsChange,
+  parameters,
+  shots,
+  noiseAvailable,
+}: SweepPanelProps) => {
+  const setParameter = (name: string, range: SweepRange) =>
+    onSettingsChange({ ...settings, parameters: { ...settings.parameters, [name]: range } });
+
+  let summary: string;
+  let invalid = false;
+  try {
+    const points = countSweepPoints(sweepAxes({ ...settings, noise: noiseAvailable ? settings.noise : null }, parameters));
+    invalid = points > MAX_SWEEP_POINTS;
+    summary = invalid
+      ? `${points} points; at most ${MAX_SWEEP_POINTS} are allowed`
+      : `${points} ${points === 1 ? 'job' : 'jobs'}, run one after another`;
+  } catch (error) {
+    invalid = true;
+    summary = error instanceof Error ? error.message : 'Invalid sweep';
+  }
+
+  return (
+    <Card>
+      <CardHeader className="p-4 md:p-6">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle className="flex items-center gap-2 text-base md:text-lg">
+              <SlidersHorizontal className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+              Parameter Sweep
+            </CardTitle>
+            <CardDescription className="text-xs md:text-sm">
+              {parameters.length > 0
+                ? 'Values for the kernel\'s parameters; sweep them, the shot count or the noise strength across a grid'
+                : 'Run the circuit across a grid of shot counts or noise strengths. Add float parameters to the kernel to sweep angles'}
+            </CardDescription>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label htmlFor="sweep-enabled" className="text-xs md:text-sm">Sweep</Label>
+            <Switch id="sweep-enabled" checked={enabled} onCheckedChange={onEnabledChange} />
+          </div>
+        </div>
+      </CardHeader>
+      {(enabled || parameters.length > 0) && (
+        <CardContent className="p-4 md:p-6 pt-0 space-y-4">
+          {parameters.map(parameter => {
+            const range = rangeFor(settings, parameter);
+            return (
+              <div key={parameter.name} className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-2 sm:items-end">
+                <div className="text-xs md:text-sm">
+                  <code className="font-mono">{parameter.name}</code>
+                  {parameter.type && <span className="text-muted-foreground">: {parameter.type}</span>}
+                </div>
+                {enabled ? (
+                  <RangeInputs
+                    id={`sweep-${parameter.name}`}
+                    range={range}
+                    onChange={(next) => setParameter(parameter.name, next)}
+                    step={parameter.type === 'int' ? '1' : 'any'}
+                  />
+                ) : (
+                  <div className="space-y-1">
+                    <Label htmlFor={`sweep-${parameter.name}-value`} className="text-xs text-muted-foreground">Value</Label>
+                    <Input
+                      id={`sweep-${parameter.name}-value`}
+                      type="number"
+                      step={parameter.type === 'int' ? '1' : 'any'}
+                      value={Number.isNaN(range.start) ? '' : range.start}
+                      onChange={(e) => setParameter(parameter.name, { ...range, start: parseNumber(e.target.value) })}
+                      className="h-8 text-xs"
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+
+          {enabled && (
+            <>
+              <div className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-2 sm:items-end">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="sweep-shots"
+                    checked={settings.shots !== null}
+                    onCheckedChange={(checked) => onSettingsChange({
+                      ...settings,
+                      shots: checked ? { start: Math.max(1, Math.round(shots / 4)), stop: shots, steps: 4 } : null,
+                    })}
+                  />
+                  <Label htmlFor="sweep-shots" className="text-xs md:text-sm">Shots</Label>
+                </div>
+                {settings.shots && (
+                  <RangeInputs
+                    id="sweep-shots"
+                    range={settings.shots}
+                    onChange={(range) => onSettingsChange({ ...settings, shots: range })}
+                    step="1"
+                  />
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-[10rem_1fr] gap-2 sm:items-end">
+                <div className="flex items-center gap-2">
+                  <Switch
+                    id="sweep-noise"
+                    checked={noiseAvailable && settings.noise !== null}
+                    disabled={!noiseAvailable}
+                    onCheckedChange={(checked) => onSettingsChange({
+                      ...settings,
+                      noise: checked ? { start: 0, stop: 2, steps: 5 } : null,
+                    })}
+                  />
+                  <Label htmlFor="sweep-noise" className="text-xs md:text-sm">Noise scale</Label>
+                </div>
+                {!noiseAvailable ? (
+                  <p className="text-xs text-muted-foreground">Turn on a noise model to sweep its strength</p>
+                ) : settings.noise && (
+                  <RangeInputs
+                    id="sweep-noise"
+                    range={settings.noise}
+                    onChange={(range) => onSettingsChange({ ...settings, noise: range })}
+                  />
+                )}
+              </div>
+
+              <p className={`text-xs ${invalid ? 'text-destructive' : 'text-muted-foreground'}`}>{summary}</p>
+            </>
+          )}
+        </CardContent>
+      )}
+    </Card>
+  );
+};
@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { CartesianGrid, Legend, Line, LineChart, ResponsiveContainer, Tooltip, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  axisKey,
+  axisLabel,
+  observableLabel,
+  observableValue,
+  sweepBitstrings,
+  type Observable,
+  type SweepRun,
+} from "@/lib/sweeps";
+
+interface SweepResultsProps {
+  sweep: SweepRun;
+}
+
+const SERIES_COLORS = [
+  'hsl(var(--primary))',
+  'hsl(var(--secondary))',
+  'hsl(var(--accent))',
+  '#f97316',
+  '#22c55e',
+  '#eab308',
+  '#ec4899',
+  '#06b6d4',
+];
+
+// Select values for observables: "parity", "z:<bit>" or "p:<bitstring>"
+const encodeObservable = (observable: Observable) =>
+  observable.kind === 'parity' ? 'parity'
+    : observable.kind === 'z' ? `z:${observable.bit}`
+      : `p:${observable.bitstring}`;
+
+const decodeObservable = (value: string): Observable => {
+  const [kind, arg] = value.split(':');
+  if (kind === 'z') return { kind: 'z', bit: Number(arg) };
+  if (kind === 'p') return { kind: 'probability', bitstring: arg };
+  return { kind: 'parity' };
+};
+
+const formatValue = (value: number) => (Number.isInteger(value) ? String(value) : value.toFixed(3));
+
+export const SweepResults = ({ sweep }: SweepResultsProps) => {
+  const varying = sweep.axes.filter(axis => axis.values.length > 1);
+  const bitstrings = sweepBitstrings(sweep.points);
+  const width = bitstrings[0]?.length ?? 0;
+
+  const [xKey, setXKey] = useState(varying[0] ? axisKey(varying[0]) : '');
+  const [observableChoice, setObservableChoice] = useState(() =>
+    encodeObservable(bitstrings[0] ? { kind: 'probability', bitstring: bitstrings[0] } : { kind: 'parity' })
+  );
+  const observable = decodeObservable(observableChoice);
+
+  const xAxis = varying.find(axis => axisKey(axis) === xKey) ?? varying[0];
+  // The other swept axes split the points into one line each
+  const seriesAxes = varying.filter(axis => axis !== xAxis);
+  const seriesName = (point: Record<string, number>) =>
+    seriesAxes.length === 0
+      ? observableLabel(observable)
+      : seriesAxes.map(axis => `${axisLabel(axis)}=${formatValue(point[axisKey(axis)])}`).join(', ');
+
+  const rows = new Map<number, Record<string, number>>();
+  const series = new Set<string>();
+  if (xAxis) {
+    for (const { point, results } of sweep.points) {
+      const value = observableValue(results, observable);
+      if (value === null) continue;
+      const x = point[axisKey(xAxis)];
+      const name = seriesName(point);
+      series.add(name);
+      rows.set(x, { ...rows.get(x), x, [name]: value });
+    }
+  }
+  const data = [...rows.values()].sort((a, b) => a.x - b.x);
+
+  return (
+    <Card>
+      <CardHeader className="p-4 md:p-6">
+        <CardTitle className="text-base md:text-lg">Sweep Results</CardTitle>
+        <CardDescription className="text-xs md:text-sm">
+          {sweep.points.length} points over {sweep.axes.map(axisLabel).join(' × ') || 'no axes'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 md:p-6 pt-0 space-y-4">
+        {!xAxis ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            Nothing was swept; give an axis more than one step to plot it
+          </p>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor="sweep-x" className="text-xs">Plot against</Label>
+                <Select value={axisKey(xAxis)} onValueChange={setXKey}>
+                  <SelectTrigger id="sweep-x" className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {varying.map(axis => (
+                      <SelectItem key={axisKey(axis)} value={axisKey(axis)}>{axisLabel(axis)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="sweep-observable" className="text-xs">Observable</Label>
+                <Select value={observableChoice} onValueChange={setObservableChoice}>
+                  <SelectTrigger id="sweep-observable" className="h-9">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {width > 1 && <SelectItem value="parity">Parity ⟨Z…Z⟩</SelectItem>}
+                    {Array.from({ length: width }, (_, bit) => (
+                      <SelectItem key={bit} value={`z:${bit}`}>{observableLabel({ kind: 'z', bit })} (bit {bit} from the left)</SelectItem>
+                    ))}
+                    {bitstrings.map(bitstring => (
+                      <SelectItem key={bitstring} value={`p:${bitstring}`}>P(|{bitstring}⟩)</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <ResponsiveContainer width="100%" height={300}>
+              <LineChart data={data}>
+                <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                <XAxis
+                  dataKey="x"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  className="text-xs"
+                  tickFormatter={formatValue}
+                />
+                <YAxis
+                  className="text-xs"
+                  domain={observable.kind === 'probability' ? [0, 1] : [-1, 1]}
+                  tickFormatter={formatValue}
+                />
+                <Tooltip
+                  contentStyle={{
+                    backgroundColor: 'hsl(var(--card))',
+                    border: '1px solid hsl(var(--border))'
+                  }}
+                  labelFormatter={(value) => `${axisLabel(xAxis)} = ${formatValue(Number(value))}`}
+                  formatter={(value) => formatValue(Number(value))}
+                />
+                {series.size > 1 && <Legend />}
+                {[...series].map((name, i) => (
+                  <Line
+                    key={name}
+                    type="monotone"
+                    dataKey={name}
+                    stroke={SERIES_COLORS[i % SERIES_COLORS.length]}
+                    strokeWidth={2}
+                    dot={{ r: 3 }}
+                    connectNulls
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+
+            <div className="rounded-lg border border-border overflow-x-auto max-h-64">
+              <table className="w-full min-w-full">
+                <thead className="bg-muted sticky top-0">
+                  <tr>
+                    {varying.map(axis => (
+                      <th key={axisKey(axis)} className="px-2 md:px-4 py-2 text-left text-[10px] md:text-xs font-medium">
+                        {axisLabel(axis)}
+                      </th>
+                    ))}
+                    <th className="px-2 md:px-4 py-2 text-right text-[10px] md:text-xs font-medium">
+                      {observableLabel(observable)}
+                    </th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-border">
+                  {sweep.points.map(({ point, jobId, results }, i) => {
+                    const value = observableValue(results, observable);
+                    return (
+                      <tr key={jobId ?? i} className="hover:bg-muted/50">
+                        {varying.map(axis => (
+                          <td key={axisKey(axis)} className="px-2 md:px-4 py-1.5 text-xs md:text-sm">
+                            {formatValue(point[axisKey(axis)])}
+                          </td>
+                        ))}
+                        <td className="px-2 md:px-4 py-1.5 text-right text-xs md:text-sm">
+                          {value === null ? '—' : value.toFixed(4)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
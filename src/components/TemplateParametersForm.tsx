@@ -0,0 +1,90 @@
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Settings2 } from "lucide-react";
+import {
+  parameterErrors,
+  type ParameterDeclarations,
+  type ParameterSpec,
+  type ParameterValues,
+} from "@/lib/guppy/template";
+
+interface TemplateParametersFormProps {
+  declarations: ParameterDeclarations;
+  values: ParameterValues;
+  onValuesChange: (values: ParameterValues) => void;
+}
+
+const parseNumber = (text: string) => (text.trim() === '' ? NaN : Number(text));
+
+// e.g. "0 – 2π" for an angle or "2 – 10" for a count
+const describeBounds = (spec: ParameterSpec) => {
+  if (spec.type === 'boolean' || (spec.min === undefined && spec.max === undefined)) return null;
+  const format = (bound: number | undefined) =>
+    bound === undefined ? '' : spec.type === 'angle' ? `${+(bound / Math.PI).toFixed(3)}π` : String(bound);
+  return `${format(spec.min)} – ${format(spec.max)}`;
+};
+
+// Values for a template's declared parameters, substituted into its code
+// before every run
+export const TemplateParametersForm = ({ declarations, values, onValuesChange }: TemplateParametersFormProps) => {
+  const errors = parameterErrors(declarations, values);
+  const setValue = (name: string, value: number | boolean) => onValuesChange({ ...values, [name]: value });
+
+  return (
+    <Card>
+      <CardHeader className="p-4 md:p-6">
+        <CardTitle className="flex items-center gap-2 text-base md:text-lg">
+          <Settings2 className="w-4 h-4 md:w-5 md:h-5 text-primary" />
+          Template Parameters
+        </CardTitle>
+        <CardDescription className="text-xs md:text-sm">
+          Filled into the template's code when the circuit runs
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="p-4 md:p-6 pt-0">
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3 md:gap-4">
+          {Object.entries(declarations).map(([name, spec]) => {
+            const id = `template-${name}`;
+            const value = values[name];
+            const bounds = describeBounds(spec);
+
+            if (spec.type === 'boolean') {
+              return (
+                <div key={name} className="flex items-center gap-2 sm:pt-5">
+                  <Switch id={id} checked={value === true} onCheckedChange={(checked) => setValue(name, checked)} />
+                  <Label htmlFor={id} className="text-xs md:text-sm">{spec.label ?? name}</Label>
+                </div>
+              );
+            }
+
+            return (
+              <div key={name} className="space-y-1">
+                <Label htmlFor={id} className="text-xs md:text-sm">
+                  {spec.label ?? name}
+                  {spec.type === 'angle' && <span className="text-muted-foreground"> (radians)</span>}
+                </Label>
+                <Input
+                  id={id}
+                  type="number"
+                  step={spec.type === 'angle' ? 'any' : '1'}
+                  min={spec.min}
+                  max={spec.max}
+                  value={typeof value === 'number' && !Number.isNaN(value) ? value : ''}
+                  onChange={(e) => setValue(name, parseNumber(e.target.value))}
+                  className="h-9"
+                />
+                {errors[name] ? (
+                  <p className="text-xs text-destructive">{errors[name]}</p>
+                ) : bounds && (
+                  <p className="text-xs text-muted-foreground">{bounds}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
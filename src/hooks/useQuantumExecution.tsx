@@ -0,0 +1,503 @@
+import { useEffect, useRef, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { compileGuppy, type Bindings } from "@/lib/guppy/compile";
+import { getBackend, unsupportedReason } from "@/lib/backends/registry";
+import { JobCancelledError } from "@/lib/backends/errors";
+import type { BackendRunOptions, QuantumBackend } from "@/lib/backends/types";
+import type { Circuit } from "@/lib/quantum/circuit";
+import { circuitHash } from "@/lib/quantum/hash";
+import { readQuantumResult, type QuantumResult } from "@/lib/results/schema";
+import { scaleNoiseModel, validateNoiseModel, type NoiseModel } from "@/lib/quantum/noise";
+import { randomSeed } from "@/lib/quantum/random";
+import { jobNoise, jobSeed } from "@/lib/job-format";
+import { generateGuppy } from "@/lib/guppy/codegen";
+import { denseLabel, groupTerms, measurementCircuit, parseObservable, type MeasurementGroup, type PauliTerm } from "@/lib/quantum/pauli";
+import { expandSweep, type SweepAxis, type SweepPoint, type SweepResultPoint, type SweepRun } from "@/lib/sweeps";
+
+export interface ExecutionRequest {
+  code: string;
+  circuitId: string | null;
+  backendId: string;
+  shots: number;
+  parameters?: { [key: string]: Json };
+  // Values for the kernel's classical parameters
+  bindings?: Bindings;
+  // Drawn when omitted; recorded on the job so the run can be repeated
+  seed?: number;
+  // Ignored by backends without noise support
+  noise?: NoiseModel;
+  // Parameter sweep the job is a point of
+  sweepId?: string;
+  // Answer with the results of an earlier completed job with the same
+  // circuit hash instead of running
+  useCache?: boolean;
+}
+
+export interface ExecutionOutcome {
+  jobId: string;
+  backend: QuantumBackend;
+  circuit: Circuit;
+  results: QuantumResult;
+  executionTimeMs: number | null;
+  // Job whose results were reused, when served from the cache
+  cachedFrom: string | null;
+}
+
+// One run of an observable: a job per measurement group, in group order
+export interface ObservableRun {
+  runId: string;
+  source: string;
+  terms: PauliTerm[];
+  groups: MeasurementGroup[];
+  jobIds: string[];
+  results: QuantumResult[];
+}
+
+/**
+ * The request that reproduces a recorded job: same code, backend, shots, seed
+ * and noise model.
+ */
+export const requestFromJob = (job: Tables<"quantum_jobs">): ExecutionRequest => {
+  if (!job.guppy_code) throw new Error('This job has no code snapshot to re-run');
+
+  // Keys recorded on every run are rebuilt from the request, not passed through
+  const { seed, noise_enabled, noise_params, circuit_name, n_qubits, bindings, sweep_point, observable, ...parameters } =
+    (job.parameters ?? {}) as { [key: string]: Json };
+
+  return {
+    code: job.guppy_code,
+    circuitId: job.circuit_id,
+    backendId: job.backend_type,
+    shots: job.shots ?? 1024,
+    parameters,
+    bindings: (bindings as Bindings | undefined) ?? undefined,
+    seed: jobSeed(job) ?? undefined,
+    noise: jobNoise(job) ?? undefined,
+  };
+};
+
+// Well inside the 2 minutes after which reclaim_stale_quantum_jobs gives up
+// on a browser job
+const HEARTBEAT_INTERVAL_MS = 30_000;
+
+// The most recent completed job of this user with the same circuit hash
+const findCachedJob = async (hash: string) => {
+  const { data, error } = await supabase
+    .from('quantum_jobs')
+    .select('id, cached_from, results')
+    .eq('circuit_hash', hash)
+    .eq('status', 'completed')
+    .not('results', 'is', null)
+    .order('completed_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// The request for one grid point of a sweep
+const sweepPointRequest = (request: ExecutionRequest, axes: SweepAxis[], point: SweepPoint): ExecutionRequest => {
+  const bindings: Bindings = { ...request.bindings };
+  let { shots, noise } = request;
+  for (const axis of axes) {
+    if (axis.kind === 'parameter') bindings[axis.name] = point[axis.name];
+    else if (axis.kind === 'shots') shots = point.shots;
+    else if (noise) noise = scaleNoiseModel(noise, point.noise_scale);
+    else throw new Error('Turn on a noise model to sweep noise strength');
+  }
+  return {
+    ...request,
+    shots,
+    noise,
+    bindings,
+    parameters: { ...request.parameters, sweep_point: point },
+  };
+};
+
+/**
+ * Runs circuits on a registered backend and reports progress. Remote backends
+ * record their own jobs; for browser backends the job row is written here.
+ */
+export const useQuantumExecution = () => {
+  const [executing, setExecuting] = useState(false);
+  const [progress, setProgress] = useState("");
+  // Browser simulations can be stopped mid-run
+  const [cancellable, setCancellable] = useState(false);
+  // Sweeps can be stopped between points on any backend
+  const [sweeping, setSweeping] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop waiting on remote jobs if the page goes away mid-job
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const runInBrowser = async (
+    backend: QuantumBackend,
+    circuit: Circuit,
+    request: ExecutionRequest,
+    hash: string,
+    options: BackendRunOptions
+  ) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data: job, error: jobError } = await supabase
+      .from('quantum_jobs')
+      .insert({
+        user_id: user.id,
+        circuit_id: request.circuitId,
+        sweep_id: request.sweepId ?? null,
+        backend_type: backend.id,
+        shots: request.shots,
+        guppy_code: request.code,
+        circuit_hash: hash,
+        status: 'running',
+        started_at: new Date().toISOString(),
+        heartbeat_at: new Date().toISOString(),
+        // Same keys the edge function records for queued jobs
+        parameters: { ...request.parameters, circuit_name: circuit.name, n_qubits: circuit.numQubits }
+      })
+      .select()
+      .single();
+
+    if (jobError) throw jobError;
+
+    // Cancel requests from the job queue arrive as cancel_requested on the row
+    const channel = supabase
+      .channel(`job-${job.id}`)
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'quantum_jobs', filter: `id=eq.${job.id}` },
+        (payload) => {
+          if ((payload.new as { cancel_requested?: boolean }).cancel_requested) abortRef.current?.abort();
+        }
+      )
+      .subscribe();
+
+    // Without a heartbeat the job is failed as abandoned, e.g. when the tab closes
+    const heartbeat = setInterval(() => {
+      supabase
+        .from('quantum_jobs')
+        .update({ heartbeat_at: new Date().toISOString() })
+        .eq('id', job.id)
+        .eq('status', 'running')
+        .then(({ error }) => error && console.error('Job heartbeat failed:', error));
+    }, HEARTBEAT_INTERVAL_MS);
+
+    try {
+      setProgress("Simulating in browser...");
+      setCancellable(true);
+      const { results, executionTimeMs } = await backend.run(circuit, options);
+
+      const { error: updateError } = await supabase
+        .from('quantum_jobs')
+        .update({
+          status: 'completed',
+          results,
+          execution_time_ms: executionTimeMs,
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', job.id);
+
+      if (updateError) throw updateError;
+
+      return { jobId: job.id, results, executionTimeMs };
+    } catch (error) {
+      const cancelled = options.signal?.aborted ?? false;
+      await supabase
+        .from('quantum_jobs')
+        .update({
+          status: cancelled ? 'cancelled' : 'failed',
+          error_message: error instanceof Error ? error.message : 'Unknown error',
+          completed_at: new Date().toISOString()
+        })
+        .eq('id', job.id);
+      throw error;
+    } finally {
+      clearInterval(heartbeat);
+      supabase.removeChannel(channel);
+      setCancellable(false);
+    }
+  };
+
+  // Record a job that reuses the results of `source` without running anything
+  const serveFromCache = async (
+    backend: QuantumBackend,
+    circuit: Circuit,
+    request: ExecutionRequest,
+    hash: string,
+    source: NonNullable<Awaited<ReturnType<typeof findCachedJob>>>
+  ) => {
+    const { data: { user } } = await supabase.auth.getUser();
+    if (!user) throw new Error('Not authenticated');
+
+    const { data: job, error } = await supabase
+      .from('quantum_jobs')
+      .insert({
+        user_id: user.id,
+        circuit_id: request.circuitId,
+        sweep_id: request.sweepId ?? null,
+        backend_type: backend.id,
+        shots: request.shots,
+        guppy_code: request.code,
+        circuit_hash: hash,
+        // Point at the job that actually ran, not another cached copy
+        cached_from: source.cached_from ?? source.id,
+        status: 'completed',
+        // Rows from before results were versioned are stored upgraded
+        results: readQuantumResult(source.results),
+        completed_at: new Date().toISOString(),
+        parameters: { ...request.parameters, circuit_name: circuit.name, n_qubits: circuit.numQubits }
+      })
+      .select()
+      .single();
+
+    if (error) throw error;
+    return job;
+  };
+
+  // Compile and check a request, and fill in what gets recorded on the job
+  const prepare = (request: ExecutionRequest) => {
+    const circuit = compileGuppy(request.code, { bindings: request.bindings });
+    const backend = getBackend(request.backendId);
+    const problem = unsupportedReason(backend, circuit);
+    if (problem) throw new Error(problem);
+
+    const seed = request.seed ?? randomSeed();
+    const noise = backend.capabilities.supportsNoise ? request.noise : undefined;
+    if (noise) validateNoiseModel(noise);
+    // Recorded on the job row and read by the quantum service
+    const recorded: ExecutionRequest = {
+      ...request,
+      seed,
+      parameters: {
+        ...request.parameters,
+        seed,
+        ...(request.bindings && Object.keys(request.bindings).length > 0 && { bindings: request.bindings }),
+        ...(noise && { noise_enabled: true, noise_params: noise as unknown as Json }),
+      },
+    };
+    return { backend, circuit, request: recorded, noise };
+  };
+
+  const run = async (
+    { backend, circuit, request, noise }: ReturnType<typeof prepare>,
+    signal: AbortSignal,
+    onProgress: (message: string) => void
+  ): Promise<ExecutionOutcome> => {
+    const options: BackendRunOptions = {
+      shots: request.shots,
+      seed: request.seed,
+      source: request.code,
+      circuitId: request.circuitId,
+      sweepId: request.sweepId,
+      parameters: request.parameters,
+      noise,
+      signal,
+      onProgress,
+    };
+
+    const hash = await circuitHash({
+      circuit,
+      backendId: backend.id,
+      shots: request.shots,
+      seed: request.seed,
+      noise,
+    });
+
+    if (request.useCache) {
+      onProgress("Checking result cache...");
+      const source = await findCachedJob(hash);
+      if (source) {
+        const job = await serveFromCache(backend, circuit, request, hash, source);
+        return {
+          jobId: job.id,
+          backend,
+          circuit,
+          results: readQuantumResult(job.results),
+          executionTimeMs: null,
+          cachedFrom: job.cached_from,
+        };
+      }
+    }
+
+    // Remote jobs get the same hash from the edge function
+    const result = backend.location === 'browser'
+      ? await runInBrowser(backend, circuit, request, hash, options)
+      : await backend.run(circuit, options);
+
+    return {
+      jobId: result.jobId,
+      backend,
+      circuit,
+      results: result.results,
+      executionTimeMs: result.executionTimeMs,
+      cachedFrom: null,
+    };
+  };
+
+  const execute = async (request: ExecutionRequest): Promise<ExecutionOutcome> => {
+    setExecuting(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setProgress("Compiling circuit...");
+      // Compile first so syntax errors don't leave a job row behind
+      return await run(prepare(request), controller.signal, setProgress);
+    } finally {
+      abortRef.current = null;
+      setExecuting(false);
+      setProgress("");
+    }
+  };
+
+  /**
+   * Run `request` once per point of the grid spanned by `axes`. Each point is
+   * its own job, grouped under a quantum_sweeps row; all points share one
+   * seed so curves aren't jagged with independent sampling noise.
+   */
+  const executeSweep = async (request: ExecutionRequest, axes: SweepAxis[]): Promise<SweepRun> => {
+    setExecuting(true);
+    setSweeping(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    let sweepId: string | null = null;
+    let status = 'failed';
+
+    try {
+      setProgress("Compiling circuit...");
+      const points = expandSweep(axes);
+      const seed = request.seed ?? randomSeed();
+      // Compile every point first so a bad sweep leaves no rows behind
+      const prepared = points.map(point => prepare(sweepPointRequest({ ...request, seed }, axes, point)));
+      if (axes.some(axis => axis.kind === 'noise') && !prepared[0].noise) {
+        throw new Error(`${prepared[0].backend.name} does not support noise models`);
+      }
+
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('Not authenticated');
+
+      const { data: sweep, error } = await supabase
+        .from('quantum_sweeps')
+        .insert({
+          user_id: user.id,
+          circuit_name: prepared[0].circuit.name,
+          guppy_code: request.code,
+          backend_type: request.backendId,
+          axes: axes as unknown as Json,
+          parameters: {
+            ...request.parameters,
+            shots: request.shots,
+            seed,
+            ...(request.bindings && { bindings: request.bindings }),
+            ...(prepared[0].noise && { noise_params: request.noise as unknown as Json }),
+          },
+        })
+        .select()
+        .single();
+
+      if (error) throw error;
+      sweepId = sweep.id;
+
+      const completed: SweepResultPoint[] = [];
+      for (const [i, point] of prepared.entries()) {
+        if (controller.signal.aborted) throw new JobCancelledError('Sweep cancelled');
+        const label = `Point ${i + 1}/${points.length}`;
+        const outcome = await run(
+          { ...point, request: { ...point.request, sweepId: sweep.id } },
+          controller.signal,
+          message => setProgress(`${label}: ${message}`)
+        );
+        completed.push({ point: points[i], jobId: outcome.jobId, results: outcome.results });
+      }
+
+      status = 'completed';
+      return { sweepId: sweep.id, axes, points: completed };
+    } catch (error) {
+      // Cancelling one of the sweep's jobs from the job queue ends the sweep too
+      if (!controller.signal.aborted && !(error instanceof JobCancelledError)) throw error;
+      status = 'cancelled';
+      throw error instanceof JobCancelledError ? error : new JobCancelledError('Sweep cancelled');
+    } finally {
+      if (sweepId) {
+        await supabase
+          .from('quantum_sweeps')
+          .update({ status, completed_at: new Date().toISOString() })
+          .eq('id', sweepId);
+      }
+      abortRef.current = null;
+      setExecuting(false);
+      setSweeping(false);
+      setProgress("");
+    }
+  };
+
+  /**
+   * Estimate an observable on the circuit of `request`: the circuit is run
+   * once per group of qubit-wise commuting terms, with the rotations into that
+   * group's basis in place of its own measurements. The jobs share one seed
+   * and an observable run id in their parameters.
+   */
+  const executeObservable = async (request: ExecutionRequest, source: string): Promise<ObservableRun> => {
+    setExecuting(true);
+    setSweeping(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    try {
+      setProgress("Compiling circuit...");
+      const terms = parseObservable(source);
+      const groups = groupTerms(terms);
+      const base = compileGuppy(request.code, { bindings: request.bindings });
+      const runId = crypto.randomUUID();
+      const seed = request.seed ?? randomSeed();
+      const selected = getBackend(request.backendId);
+
+      // Build every variant first so a bad observable leaves no rows behind
+      const prepared = groups.map(group => {
+        const variant = measurementCircuit(base, group);
+        const basis = denseLabel(group.basis, base.numQubits);
+        // Variants are new circuits, which the quantum service has no built-in version of
+        const fallback = selected.fallbackId && unsupportedReason(selected, variant) !== null;
+        return prepare({
+          ...request,
+          backendId: fallback ? selected.fallbackId : selected.id,
+          seed,
+          code: generateGuppy(variant, { header: [`${base.name} measured in the ${basis} basis`] }),
+          // Bound into the variant's code already
+          bindings: undefined,
+          parameters: {
+            ...request.parameters,
+            observable: { run_id: runId, hamiltonian: source, basis },
+          },
+        });
+      });
+
+      const jobIds: string[] = [];
+      const results: QuantumResult[] = [];
+      for (const [i, point] of prepared.entries()) {
+        if (controller.signal.aborted) throw new JobCancelledError('Observable run cancelled');
+        const label = `Basis ${i + 1}/${groups.length}`;
+        const outcome = await run(point, controller.signal, message => setProgress(`${label}: ${message}`));
+        jobIds.push(outcome.jobId);
+        results.push(outcome.results);
+      }
+
+      return { runId, source, terms, groups, jobIds, results };
+    } catch (error) {
+      if (!controller.signal.aborted && !(error instanceof JobCancelledError)) throw error;
+      throw error instanceof JobCancelledError ? error : new JobCancelledError('Observable run cancelled');
+    } finally {
+      abortRef.current = null;
+      setExecuting(false);
+      setSweeping(false);
+      setProgress("");
+    }
+  };
+
+  const cancel = () => abortRef.current?.abort();
+
+  return { execute, executeSweep, executeObservable, cancel, executing, cancellable: cancellable || sweeping, progress };
+};
@@ -120,48 +120,88 @@ export type Database = {
       }
       quantum_jobs: {
         Row: {
+          attempts: number
           backend_type: string
+          cached_from: string | null
+          cancel_requested: boolean
+          circuit_hash: string | null
           circuit_id: string | null
+          claimed_at: string | null
+          claimed_by: string | null
           completed_at: string | null
           created_at: string | null
           error_message: string | null
           execution_time_ms: number | null
+          guppy_code: string | null
+          heartbeat_at: string | null
           id: string
+          max_attempts: number
           parameters: Json | null
           results: Json | null
           shots: number | null
-          status: string | null
+          started_at: string | null
+          status: string
+          sweep_id: string | null
           user_id: string
         }
         Insert: {
+          attempts?: number
           backend_type: string
+          cached_from?: string | null
+          cancel_requested?: boolean
+          circuit_hash?: string | null
           circuit_id?: string | null
+          claimed_at?: string | null
+          claimed_by?: string | null
           completed_at?: string | null
           created_at?: string | null
           error_message?: string | null
           execution_time_ms?: number | null
+          guppy_code?: string | null
+          heartbeat_at?: string | null
           id?: string
+          max_attempts?: number
           parameters?: Json | null
           results?: Json | null
           shots?: number | null
-          status?: string | null
+          started_at?: string | null
+          status?: string
+          sweep_id?: string | null
           user_id: string
         }
         Update: {
+          attempts?: number
           backend_type?: string
+          cached_from?: string | null
+          cancel_requested?: boolean
+          circuit_hash?: string | null
           circuit_id?: string | null
+          claimed_at?: string | null
+          claimed_by?: string | null
           completed_at?: string | null
           created_at?: string | null
           error_message?: string | null
           execution_time_ms?: number | null
+          guppy_code?: string | null
+          heartbeat_at?: string | null
           id?: string
+          max_attempts?: number
           parameters?: Json | null
           results?: Json | null
           shots?: number | null
-          status?: string | null
+          started_at?: string | null
+          status?: string
+          sweep_id?: string | null
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "quantum_jobs_cached_from_fkey"
+            columns: ["cached_from"]
+            isOneToOne: false
+            referencedRelation: "quantum_jobs"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "quantum_jobs_circuit_id_fkey"
             columns: ["circuit_id"]
@@ -169,6 +209,13 @@ export type Database = {
             referencedRelation: "quantum_circuits"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "quantum_jobs_sweep_id_fkey"
+            columns: ["sweep_id"]
+            isOneToOne: false
+            referencedRelation: "quantum_sweeps"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "quantum_jobs_user_id_fkey"
             columns: ["user_id"]
@@ -178,12 +225,113 @@ export type Database = {
           },
         ]
       }
+      quantum_sweeps: {
+        Row: {
+          axes: Json
+          backend_type: string
+          circuit_name: string | null
+          completed_at: string | null
+          created_at: string
+          guppy_code: string
+          id: string
+          parameters: Json
+          status: string
+          user_id: string
+        }
+        Insert: {
+          axes: Json
+          backend_type: string
+          circuit_name?: string | null
+          completed_at?: string | null
+          created_at?: string
+          guppy_code: string
+          id?: string
+          parameters?: Json
+          status?: string
+          user_id: string
+        }
+        Update: {
+          axes?: Json
+          backend_type?: string
+          circuit_name?: string | null
+          completed_at?: string | null
+          created_at?: string
+          guppy_code?: string
+          id?: string
+          parameters?: Json
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quantum_sweeps_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      cancel_quantum_job: {
+        Args: { job_id: string }
+        Returns: string
+      }
+      claim_quantum_job: {
+        Args: { stale_after?: unknown; worker_id: string }
+        Returns: {
+            attempts: number
+            backend_type: string
+            cached_from: string | null
+            cancel_requested: boolean
+            circuit_hash: string | null
+            circuit_id: string | null
+            claimed_at: string | null
+            claimed_by: string | null
+            completed_at: string | null
+            created_at: string | null
+            error_message: string | null
+            execution_time_ms: number | null
+            guppy_code: string | null
+            heartbeat_at: string | null
+            id: string
+            max_attempts: number
+            parameters: Json | null
+            results: Json | null
+            shots: number | null
+            started_at: string | null
+            status: string
+            sweep_id: string | null
+            user_id: string
+        }[]
+      }
+      finish_quantum_job: {
+        Args: {
+          final_status: string
+          job_error?: string
+          job_execution_time_ms?: number
+          job_id: string
+          job_results?: Json
+          worker_id: string
+        }
+        Returns: boolean
+      }
+      heartbeat_quantum_job: {
+        Args: { job_id: string; worker_id: string }
+        Returns: boolean
+      }
+      reclaim_stale_quantum_jobs: {
+        Args: { stale_after?: unknown }
+        Returns: number
+      }
+      retry_quantum_job: {
+        Args: { job_error: string; job_id: string; worker_id: string }
+        Returns: string
+      }
     }
     Enums: {
       [_ in never]: never
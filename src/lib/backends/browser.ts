@@ -0,0 +1,86 @@
+import { MAX_STATEVECTOR_QUBITS } from '../quantum/statevector.ts';
+import { MAX_DENSITY_QUBITS } from '../quantum/density.ts';
+import { MAX_STABILIZER_QUBITS, describeNonClifford, firstNonCliffordGate } from '../quantum/stabilizer.ts';
+import { runSimulation } from './pool.ts';
+import type { QuantumBackend } from './types.ts';
+
+// Backends that simulate in the page, on the worker pool in pool.ts.
+
+export const localStatevectorBackend: QuantumBackend = {
+  id: 'local',
+  name: 'Local Simulator (Browser)',
+  description: 'Dense statevector simulation in this browser tab',
+  location: 'browser',
+  capabilities: {
+    maxQubits: MAX_STATEVECTOR_QUBITS,
+    supportsNoise: false,
+    supportsStatevector: true,
+    supportsMidCircuitMeasurement: true,
+  },
+  run: (circuit, options) => runSimulation('statevector', circuit, options),
+};
+
+export const localStabilizerBackend: QuantumBackend = {
+  id: 'local_stabilizer',
+  name: 'Stabilizer (Browser)',
+  description: 'Clifford tableau simulation in this browser tab, for large Clifford-only circuits',
+  location: 'browser',
+  capabilities: {
+    maxQubits: MAX_STABILIZER_QUBITS,
+    supportsNoise: false,
+    supportsStatevector: false,
+    supportsMidCircuitMeasurement: true,
+  },
+  unsupportedReason: (circuit) => {
+    const gate = firstNonCliffordGate(circuit);
+    return gate ? describeNonClifford(gate) : null;
+  },
+  run: (circuit, options) => runSimulation('stabilizer', circuit, options),
+};
+
+export const localDensityBackend: QuantumBackend = {
+  id: 'local_density',
+  name: 'Density Matrix (Browser)',
+  description: 'Mixed-state simulation with a configurable noise model in this browser tab',
+  location: 'browser',
+  capabilities: {
+    maxQubits: MAX_DENSITY_QUBITS,
+    supportsNoise: true,
+    supportsStatevector: false,
+    supportsMidCircuitMeasurement: true,
+  },
+  run: (circuit, options) => runSimulation('density_matrix', circuit, options),
+};
+
+export const localTrajectoryBackend: QuantumBackend = {
+  id: 'local_trajectories',
+  name: 'Noisy Trajectories (Browser)',
+  description: 'Monte Carlo noise sampling on statevectors in this browser tab, for circuits too large for a density matrix',
+  location: 'browser',
+  capabilities: {
+    maxQubits: MAX_STATEVECTOR_QUBITS,
+    supportsNoise: true,
+    supportsStatevector: false,
+    supportsMidCircuitMeasurement: true,
+  },
+  run: (circuit, options) => runSimulation('trajectories', circuit, options),
+};
+
+/**
+ * Reports the exact output distribution scaled to the shot count instead of
+ * sampling, so the same circuit always gives the same counts. Meant for
+ * checking circuits and the results UI without measurement noise.
+ */
+export const deterministicBackend: QuantumBackend = {
+  id: 'deterministic',
+  name: 'Deterministic (Exact Counts)',
+  description: 'Exact probabilities scaled to the shot count, no sampling',
+  location: 'browser',
+  capabilities: {
+    maxQubits: MAX_STATEVECTOR_QUBITS,
+    supportsNoise: false,
+    supportsStatevector: true,
+    supportsMidCircuitMeasurement: false,
+  },
+  run: (circuit, options) => runSimulation('exact', circuit, options),
+};
@@ -0,0 +1,9 @@
+// Raised when a job stops because someone cancelled it, so callers can tell
+// that apart from a failure.
+
+export class JobCancelledError extends Error {
+  constructor(message = 'Job was cancelled') {
+    super(message);
+    this.name = 'JobCancelledError';
+  }
+}
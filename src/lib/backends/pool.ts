@@ -0,0 +1,164 @@
+import type { Circuit } from '../quantum/circuit.ts';
+import type { Complex } from '../quantum/gates.ts';
+import type { SimulationProgress, SimulationResult } from '../quantum/statevector.ts';
+import { validateQuantumResult } from '../results/schema.ts';
+import { JobCancelledError } from './errors.ts';
+import { SIMULATORS, type SimulationJob, type SimulatorName, type WorkerMessage } from './simulators.ts';
+import type { BackendRunOptions, BackendRunResult } from './types.ts';
+
+// Runs browser simulations on a small pool of Web Workers so long circuits
+// don't block rendering. Cancelling a running job terminates its worker; a
+// fresh one is started when the next job needs it.
+
+const POOL_SIZE = Math.max(1, Math.min(4, (globalThis.navigator?.hardwareConcurrency ?? 2) - 1));
+
+// What a simulator hands back, before it is checked against the result schema
+type SimulationOutput = { results: SimulationResult; executionTimeMs: number };
+
+interface Task {
+  job: SimulationJob;
+  onProgress?: (progress: SimulationProgress) => void;
+  resolve: (result: SimulationOutput) => void;
+  reject: (error: Error) => void;
+}
+
+const idle: Worker[] = [];
+const running = new Map<Worker, Task>();
+const queue: Task[] = [];
+
+export function describeProgress({ stage, completed, total }: SimulationProgress): string {
+  return stage === 'gates'
+    ? `Applying gates... ${completed}/${total}`
+    : `Sampling shots... ${completed}/${total}`;
+}
+
+const unpackStatevector = (packed: Float64Array): Complex[] =>
+  Array.from({ length: packed.length / 2 }, (_, i): Complex => [packed[2 * i], packed[2 * i + 1]]);
+
+function spawn(): Worker {
+  const worker = new Worker(new URL('./simulation.worker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<WorkerMessage>) => {
+    const task = running.get(worker);
+    if (!task) return;
+    const message = event.data;
+    if (message.type === 'progress') {
+      task.onProgress?.(message.progress);
+      return;
+    }
+
+    release(worker);
+    if (message.type === 'result') {
+      const { results, executionTimeMs, statevector } = message;
+      task.resolve({
+        results: { ...results, statevector: statevector ? unpackStatevector(statevector) : null },
+        executionTimeMs,
+      });
+    } else {
+      task.reject(new Error(message.message));
+    }
+  };
+
+  worker.onerror = (event) => {
+    event.preventDefault();
+    const task = running.get(worker);
+    retire(worker);
+    task?.reject(new Error(event.message || 'Simulation worker crashed'));
+  };
+
+  return worker;
+}
+
+function dispatch() {
+  while (queue.length > 0 && (idle.length > 0 || running.size < POOL_SIZE)) {
+    const worker = idle.pop() ?? spawn();
+    const task = queue.shift();
+    running.set(worker, task);
+    worker.postMessage(task.job);
+  }
+}
+
+// Return a worker to the pool after it finishes a job
+function release(worker: Worker) {
+  running.delete(worker);
+  idle.push(worker);
+  dispatch();
+}
+
+// Drop a worker that was cancelled mid-job or crashed
+function retire(worker: Worker) {
+  running.delete(worker);
+  worker.terminate();
+  dispatch();
+}
+
+// Without worker support (e.g. outside a browser) run on this thread
+async function runInline(job: SimulationJob, onProgress?: (progress: SimulationProgress) => void): Promise<SimulationOutput> {
+  const startTime = Date.now();
+  const results = SIMULATORS[job.simulator](job.circuit, { ...job.options, onProgress });
+  return { results, executionTimeMs: Date.now() - startTime };
+}
+
+function schedule(
+  simulator: SimulatorName,
+  circuit: Circuit,
+  options: BackendRunOptions
+): Promise<SimulationOutput> {
+  const job: SimulationJob = {
+    simulator,
+    circuit,
+    options: { shots: options.shots, seed: options.seed, noise: options.noise },
+  };
+  const onProgress = options.onProgress
+    ? (progress: SimulationProgress) => options.onProgress(describeProgress(progress))
+    : undefined;
+
+  if (typeof Worker === 'undefined') return runInline(job, onProgress);
+
+  return new Promise((resolve, reject) => {
+    const { signal } = options;
+    if (signal?.aborted) {
+      reject(new JobCancelledError('Simulation cancelled'));
+      return;
+    }
+
+    const onAbort = () => {
+      const queued = queue.indexOf(task);
+      if (queued !== -1) queue.splice(queued, 1);
+      for (const [worker, owner] of running) {
+        if (owner === task) retire(worker);
+      }
+      reject(new JobCancelledError('Simulation cancelled'));
+    };
+
+    const task: Task = {
+      job,
+      onProgress,
+      resolve: (result) => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve(result);
+      },
+      reject: (error) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(error);
+      },
+    };
+
+    signal?.addEventListener('abort', onAbort, { once: true });
+    queue.push(task);
+    dispatch();
+  });
+}
+
+/**
+ * Run `simulator` on a pooled worker. Aborting `options.signal` removes a
+ * queued job or terminates the worker running it, and rejects.
+ */
+export async function runSimulation(
+  simulator: SimulatorName,
+  circuit: Circuit,
+  options: BackendRunOptions
+): Promise<BackendRunResult> {
+  const { results, executionTimeMs } = await schedule(simulator, circuit, options);
+  return { results: validateQuantumResult(results), executionTimeMs };
+}
@@ -0,0 +1,54 @@
+import type { Circuit } from '../quantum/circuit.ts';
+import { hasTerminalMeasurementsOnly } from '../quantum/statevector.ts';
+import {
+  deterministicBackend,
+  localDensityBackend,
+  localStabilizerBackend,
+  localStatevectorBackend,
+  localTrajectoryBackend,
+} from './browser.ts';
+import { seleneBackends } from './selene.ts';
+import type { QuantumBackend } from './types.ts';
+
+// Backends offered in the backend selector, in display order.
+
+const backends = new Map<string, QuantumBackend>();
+
+export function registerBackend(backend: QuantumBackend) {
+  if (backends.has(backend.id)) {
+    throw new Error(`A backend with id ${backend.id} is already registered`);
+  }
+  backends.set(backend.id, backend);
+}
+
+export function listBackends(): QuantumBackend[] {
+  return [...backends.values()];
+}
+
+export function getBackend(id: string): QuantumBackend {
+  const backend = backends.get(id);
+  if (!backend) throw new Error(`Unknown backend: ${id}`);
+  return backend;
+}
+
+/**
+ * Why `backend` cannot run `circuit`, or null when it can. Checks the
+ * declared capabilities first, then anything backend-specific.
+ */
+export function unsupportedReason(backend: QuantumBackend, circuit: Circuit): string | null {
+  const { capabilities } = backend;
+  if (circuit.numQubits > capabilities.maxQubits) {
+    return `Circuit uses ${circuit.numQubits} qubits; ${backend.name} supports at most ${capabilities.maxQubits}`;
+  }
+  if (!capabilities.supportsMidCircuitMeasurement && !hasTerminalMeasurementsOnly(circuit.operations)) {
+    return `${backend.name} only supports measurements at the end of the circuit`;
+  }
+  return backend.unsupportedReason?.(circuit) ?? null;
+}
+
+for (const backend of seleneBackends) registerBackend(backend);
+registerBackend(localStatevectorBackend);
+registerBackend(localStabilizerBackend);
+registerBackend(localDensityBackend);
+registerBackend(localTrajectoryBackend);
+registerBackend(deterministicBackend);
@@ -0,0 +1,172 @@
+import { FunctionsHttpError } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { readQuantumResult } from '../results/schema.ts';
+import { JobCancelledError } from './errors.ts';
+import type { BackendCapabilities, BackendRunOptions, QuantumBackend } from './types.ts';
+
+// Backends on the remote Selene quantum service. Jobs are queued through the
+// execute-quantum-circuit edge function and the job row is followed over
+// realtime until the worker finishes it.
+
+type QuantumJob = Tables<"quantum_jobs">;
+
+const FINISHED = ['completed', 'failed', 'cancelled'];
+
+// Kernel names the service has built-in circuits for (see circuitNameMap in
+// supabase/functions/_shared/quantum-service.ts)
+const SERVICE_CIRCUITS = new Set([
+  'bell', 'bell_state', 'ghz', 'ghz_state', 'ghz_3', 'ghz_3_state', 'ghz_4', 'ghz_4_state',
+  'teleport', 'teleportation', 'quantum_teleportation', 'teleport_circuit', 'krump_choreography',
+]);
+
+// Turn a non-2xx response from the edge function into a readable message
+const describeInvokeError = async (error: Error) => {
+  if (error instanceof FunctionsHttpError) {
+    const body = await error.context.json().catch(() => null);
+    const [first] = body?.diagnostics ?? [];
+    if (first) return `Line ${first.line}: ${first.message}`;
+    if (body?.error) return body.error as string;
+  }
+  return error.message;
+};
+
+function followJob(jobId: string, options: BackendRunOptions) {
+  return new Promise<QuantumJob>((resolve, reject) => {
+    const startTime = Date.now();
+    let latest: Pick<QuantumJob, 'status' | 'attempts' | 'max_attempts'> = {
+      status: 'queued', attempts: 0, max_attempts: 0
+    };
+
+    const describe = () => {
+      const elapsed = Math.round((Date.now() - startTime) / 1000);
+      if (latest.status === 'running') {
+        const retry = latest.attempts > 1 ? ` (attempt ${latest.attempts}/${latest.max_attempts})` : '';
+        return `Running on quantum service${retry}... ${elapsed}s elapsed`;
+      }
+      return `Queued, waiting for a worker... ${elapsed}s elapsed`;
+    };
+    const report = () => options.onProgress?.(describe());
+
+    const ticker = setInterval(report, 1000);
+    report();
+
+    const stop = () => {
+      clearInterval(ticker);
+      supabase.removeChannel(channel);
+      options.signal?.removeEventListener('abort', onAbort);
+    };
+
+    const onAbort = () => {
+      stop();
+      reject(new Error('Stopped following job'));
+    };
+    options.signal?.addEventListener('abort', onAbort);
+
+    const update = (job: QuantumJob) => {
+      latest = job;
+      report();
+      if (!FINISHED.includes(job.status)) return;
+
+      stop();
+      if (job.status === 'completed') {
+        resolve(job);
+      } else if (job.status === 'cancelled') {
+        reject(new JobCancelledError());
+      } else {
+        reject(new Error(job.error_message || 'Job failed'));
+      }
+    };
+
+    const channel = supabase
+      .channel(`job-${jobId}`)
+      .on(
+        'postgres_changes',
+        {
+          event: 'UPDATE',
+          schema: 'public',
+          table: 'quantum_jobs',
+          filter: `id=eq.${jobId}`
+        },
+        (payload) => update(payload.new as QuantumJob)
+      )
+      .subscribe(async (status) => {
+        if (status === 'SUBSCRIBED') {
+          // The job may have moved on before the subscription was live
+          const { data } = await supabase.from('quantum_jobs').select('*').eq('id', jobId).single();
+          if (data) update(data);
+        } else if (status === 'CHANNEL_ERROR' || status === 'TIMED_OUT') {
+          stop();
+          reject(new Error('Lost connection while waiting for job updates'));
+        }
+      });
+  });
+}
+
+function createSeleneBackend(
+  id: string,
+  name: string,
+  description: string,
+  capabilities: BackendCapabilities,
+  fallbackId = 'local'
+): QuantumBackend {
+  return {
+    id,
+    name,
+    description,
+    location: 'remote',
+    capabilities,
+    fallbackId,
+    unsupportedReason: (circuit) => SERVICE_CIRCUITS.has(circuit.name)
+      ? null
+      : `The quantum service has no built-in circuit named ${circuit.name}`,
+    async run(_circuit, options) {
+      options.onProgress?.("Submitting job...");
+      const { data, error } = await supabase.functions.invoke('execute-quantum-circuit', {
+        body: {
+          circuit_id: options.circuitId ?? null,
+          sweep_id: options.sweepId ?? null,
+          guppy_code: options.source,
+          backend_type: id,
+          shots: options.shots,
+          parameters: { ...options.parameters, seed: options.seed ?? null }
+        }
+      });
+      if (error) throw new Error(await describeInvokeError(error));
+
+      const job = await followJob(data.job_id, options);
+      return {
+        results: readQuantumResult(job.results),
+        executionTimeMs: job.execution_time_ms,
+        jobId: job.id,
+      };
+    },
+  };
+}
+
+export const seleneBackends: QuantumBackend[] = [
+  createSeleneBackend('statevector', 'State Vector', 'QuEST statevector simulation on the quantum service', {
+    maxQubits: 28,
+    supportsNoise: false,
+    supportsStatevector: false,
+    supportsMidCircuitMeasurement: true,
+  }),
+  createSeleneBackend('stabilizer', 'Stabilizer', 'Clifford stabilizer simulation on the quantum service', {
+    maxQubits: 100,
+    supportsNoise: false,
+    supportsStatevector: false,
+    supportsMidCircuitMeasurement: true,
+  }, 'local_stabilizer'),
+  createSeleneBackend('density_matrix', 'Density Matrix', 'Mixed-state simulation on the quantum service', {
+    maxQubits: 12,
+    supportsNoise: true,
+    supportsStatevector: false,
+    supportsMidCircuitMeasurement: true,
+  }, 'local_density'),
+  createSeleneBackend('noisy', 'Noisy Simulator', 'Statevector simulation with a noise model on the quantum service', {
+    maxQubits: 28,
+    supportsNoise: true,
+    supportsStatevector: false,
+    supportsMidCircuitMeasurement: true,
+  }, 'local_trajectories'),
+];
@@ -0,0 +1,34 @@
+import { SIMULATORS, type SimulationJob, type WorkerMessage } from './simulators.ts';
+
+// Web Worker entry for the pool in pool.ts. Runs one job per message.
+
+// Progress posts are throttled so a million-shot run doesn't flood the page
+const PROGRESS_INTERVAL_MS = 100;
+
+const post = (message: WorkerMessage, transfer: Transferable[] = []) => self.postMessage(message, { transfer });
+
+self.onmessage = (event: MessageEvent<SimulationJob>) => {
+  const { simulator, circuit, options } = event.data;
+  const startTime = Date.now();
+  let lastReport = 0;
+
+  try {
+    const results = SIMULATORS[simulator](circuit, {
+      ...options,
+      onProgress: (progress) => {
+        const now = Date.now();
+        if (now - lastReport < PROGRESS_INTERVAL_MS) return;
+        lastReport = now;
+        post({ type: 'progress', progress });
+      },
+    });
+
+    const statevector = results.statevector ? Float64Array.from(results.statevector.flat()) : null;
+    post(
+      { type: 'result', results: { ...results, statevector: null }, executionTimeMs: Date.now() - startTime, statevector },
+      statevector ? [statevector.buffer] : []
+    );
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
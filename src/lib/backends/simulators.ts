@@ -0,0 +1,35 @@
+import type { Circuit } from '../quantum/circuit.ts';
+import { runDensityMatrix } from '../quantum/density.ts';
+import { runExactCounts } from '../quantum/exact.ts';
+import { runStabilizer } from '../quantum/stabilizer.ts';
+import { runStatevector, type SimulationProgress, type SimulationResult } from '../quantum/statevector.ts';
+import { runTrajectories, type TrajectoryOptions } from '../quantum/trajectories.ts';
+
+// Simulators the browser backends run, by name, so jobs can be posted to a
+// worker without sending functions across.
+
+export const SIMULATORS = {
+  statevector: runStatevector,
+  stabilizer: runStabilizer,
+  density_matrix: runDensityMatrix,
+  trajectories: runTrajectories,
+  exact: runExactCounts,
+} satisfies Record<string, (circuit: Circuit, options: TrajectoryOptions) => SimulationResult>;
+
+export type SimulatorName = keyof typeof SIMULATORS;
+
+// Posted to a simulation worker
+export interface SimulationJob {
+  simulator: SimulatorName;
+  circuit: Circuit;
+  // Everything but the progress callback, which can't be cloned
+  options: Omit<TrajectoryOptions, 'onProgress'>;
+}
+
+// Posted back by a simulation worker
+export type WorkerMessage =
+  | { type: 'progress'; progress: SimulationProgress }
+  // `statevector` holds interleaved re/im amplitudes in a transferred buffer;
+  // results.statevector is left null
+  | { type: 'result'; results: SimulationResult; executionTimeMs: number; statevector: Float64Array | null }
+  | { type: 'error'; message: string };
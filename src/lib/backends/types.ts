@@ -0,0 +1,54 @@
+import type { Circuit } from '../quantum/circuit.ts';
+import type { NoiseModel } from '../quantum/noise.ts';
+import type { QuantumResult } from '../results/schema.ts';
+
+// Execution backends share one interface so the UI can offer browser
+// simulators and remote services side by side.
+
+export interface BackendCapabilities {
+  maxQubits: number;
+  supportsNoise: boolean;
+  // Results can include the final statevector
+  supportsStatevector: boolean;
+  // Measurements, resets or classically controlled gates before the end
+  supportsMidCircuitMeasurement: boolean;
+}
+
+export interface BackendRunOptions {
+  shots: number;
+  seed?: number;
+  // Guppy source the circuit was compiled from; remote services need it
+  source?: string;
+  circuitId?: string | null;
+  // Parameter sweep the job belongs to
+  sweepId?: string;
+  parameters?: Record<string, unknown>;
+  // Only passed to backends that declare supportsNoise
+  noise?: NoiseModel;
+  signal?: AbortSignal;
+  onProgress?: (message: string) => void;
+}
+
+export interface BackendRunResult {
+  // Stored as quantum_jobs.results
+  results: QuantumResult;
+  executionTimeMs: number | null;
+  // Set by backends that create their own quantum_jobs row
+  jobId?: string;
+}
+
+export interface QuantumBackend {
+  // Stored as quantum_jobs.backend_type
+  id: string;
+  name: string;
+  description: string;
+  // Browser backends run here and the caller records the job; remote
+  // backends create and update their own job rows.
+  location: 'browser' | 'remote';
+  capabilities: BackendCapabilities;
+  // Browser backend to use instead when this one cannot run a circuit
+  fallbackId?: string;
+  // Reason the backend cannot run this circuit beyond its capabilities, if any
+  unsupportedReason?: (circuit: Circuit) => string | null;
+  run(circuit: Circuit, options: BackendRunOptions): Promise<BackendRunResult>;
+}
@@ -0,0 +1,249 @@
+import { GATES } from "@/lib/quantum/gates";
+import type { Circuit, Operation } from "@/lib/quantum/circuit";
+
+// Wire-diagram layout and SVG drawing for circuits. The markup is shared by
+// the live editor preview and the branded SVG export.
+
+export interface DiagramPalette {
+  wire: string;
+  text: string;
+  gateFill: string;
+  gateStroke: string;
+  gateText: string;
+  classical: string;
+  background?: string;
+}
+
+export const EDITOR_PALETTE: DiagramPalette = {
+  wire: 'currentColor',
+  text: 'currentColor',
+  gateFill: '#8b5cf6',
+  gateStroke: '#7c3aed',
+  gateText: '#ffffff',
+  classical: '#06b6d4',
+};
+
+export const PORTRAIT_PALETTE: DiagramPalette = {
+  wire: '#94a3b8',
+  text: '#e2e8f0',
+  gateFill: '#8b5cf6',
+  gateStroke: '#a78bfa',
+  gateText: '#ffffff',
+  classical: '#06b6d4',
+};
+
+export interface PlacedOperation {
+  op: Operation;
+  column: number;
+}
+
+export interface DiagramLayout {
+  circuit: Circuit;
+  // Rows 0..numQubits-1 are qubits, the rest are classical bits
+  rows: number;
+  columns: number;
+  placed: PlacedOperation[];
+}
+
+const LABEL_WIDTH = 80;
+const COLUMN_WIDTH = 64;
+const ROW_HEIGHT = 48;
+const GATE_SIZE = 34;
+const PADDING = 20;
+
+const escapeXml = (text: string): string => {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+};
+
+// Rows an operation occupies, including the classical bits it writes or reads
+const operationRows = (op: Operation, numQubits: number): number[] => {
+  const rows: number[] = [];
+  switch (op.kind) {
+    case 'gate':
+    case 'barrier':
+      rows.push(...op.qubits);
+      break;
+    case 'measure':
+      rows.push(op.qubit, numQubits + op.clbit);
+      break;
+    case 'reset':
+      rows.push(op.qubit);
+      break;
+  }
+  if (op.kind !== 'barrier' && op.condition) {
+    rows.push(...op.condition.clbits.map(clbit => numQubits + clbit));
+  }
+  return rows;
+};
+
+export function layoutCircuit(circuit: Circuit): DiagramLayout {
+  const rows = circuit.numQubits + circuit.clbitLabels.length;
+  const nextFree = new Array(rows).fill(0);
+  const placed: PlacedOperation[] = [];
+
+  for (const op of circuit.operations) {
+    const occupied = operationRows(op, circuit.numQubits);
+    if (occupied.length === 0) continue;
+    // Vertical connectors block every row between the outermost wires
+    const top = Math.min(...occupied);
+    const bottom = Math.max(...occupied);
+    let column = 0;
+    for (let row = top; row <= bottom; row++) column = Math.max(column, nextFree[row]);
+    for (let row = top; row <= bottom; row++) nextFree[row] = column + 1;
+    placed.push({ op, column });
+  }
+
+  return { circuit, rows, columns: Math.max(1, ...nextFree), placed };
+}
+
+export function diagramSize(layout: DiagramLayout): { width: number; height: number } {
+  return {
+    width: LABEL_WIDTH + layout.columns * COLUMN_WIDTH + PADDING * 2,
+    height: Math.max(1, layout.rows) * ROW_HEIGHT + PADDING,
+  };
+}
+
+// Format an angle, preferring simple multiples of π
+export function formatAngle(theta: number): string {
+  const ratio = theta / Math.PI;
+  for (const denominator of [1, 2, 3, 4, 6, 8]) {
+    const numerator = Math.round(ratio * denominator);
+    if (numerator !== 0 && Math.abs(ratio * denominator - numerator) < 1e-9) {
+      const sign = numerator < 0 ? '-' : '';
+      const abs = Math.abs(numerator);
+      const top = abs === 1 ? 'π' : `${abs}π`;
+      return denominator === 1 ? `${sign}${top}` : `${sign}${top}/${denominator}`;
+    }
+  }
+  return Number(theta.toFixed(3)).toString();
+}
+
+const gateLabel = (name: string, params: number[]): string => {
+  const base = name === 'sdg' ? 'S†' : name === 'tdg' ? 'T†' : name === 'vdg' ? 'V†' : name === 'phase' ? 'P' : name.toUpperCase();
+  return params.length ? `${base}(${params.map(formatAngle).join(', ')})` : base;
+};
+
+export function renderDiagramMarkup(layout: DiagramLayout, palette: DiagramPalette, originX = 0, originY = 0): string {
+  const { circuit } = layout;
+  const { width } = diagramSize(layout);
+  const rowY = (row: number) => originY + PADDING / 2 + row * ROW_HEIGHT + ROW_HEIGHT / 2;
+  const columnX = (column: number) => originX + PADDING + LABEL_WIDTH + column * COLUMN_WIDTH + COLUMN_WIDTH / 2;
+  const wireEnd = originX + width - PADDING;
+  const parts: string[] = [];
+
+  const text = (x: number, y: number, content: string, fill: string, size = 13, anchor = 'middle') =>
+    `<text x="${x}" y="${y}" fill="${fill}" font-size="${size}" font-family="monospace" text-anchor="${anchor}" dominant-baseline="central">${escapeXml(content)}</text>`;
+
+  const doubleLine = (x1: number, y1: number, x2: number, y2: number) => {
+    const dx = y1 === y2 ? 0 : 1.5;
+    const dy = y1 === y2 ? 1.5 : 0;
+    return `<line x1="${x1 - dx}" y1="${y1 - dy}" x2="${x2 - dx}" y2="${y2 - dy}" stroke="${palette.classical}" stroke-width="1"/>` +
+      `<line x1="${x1 + dx}" y1="${y1 + dy}" x2="${x2 + dx}" y2="${y2 + dy}" stroke="${palette.classical}" stroke-width="1"/>`;
+  };
+
+  const box = (x: number, y: number, label: string) => {
+    const boxWidth = Math.max(GATE_SIZE, label.length * 8 + 10);
+    return `<rect x="${x - boxWidth / 2}" y="${y - GATE_SIZE / 2}" width="${boxWidth}" height="${GATE_SIZE}" rx="6" fill="${palette.gateFill}" stroke="${palette.gateStroke}" stroke-width="1.5"/>` +
+      text(x, y, label, palette.gateText, label.length > 3 ? 10 : 14);
+  };
+
+  const control = (x: number, y: number) => `<circle cx="${x}" cy="${y}" r="5" fill="${palette.wire}"/>`;
+
+  const target = (x: number, y: number) =>
+    `<circle cx="${x}" cy="${y}" r="12" fill="none" stroke="${palette.wire}" stroke-width="1.5"/>` +
+    `<line x1="${x - 12}" y1="${y}" x2="${x + 12}" y2="${y}" stroke="${palette.wire}" stroke-width="1.5"/>` +
+    `<line x1="${x}" y1="${y - 12}" x2="${x}" y2="${y + 12}" stroke="${palette.wire}" stroke-width="1.5"/>`;
+
+  const cross = (x: number, y: number) =>
+    `<path d="M${x - 7} ${y - 7} L${x + 7} ${y + 7} M${x + 7} ${y - 7} L${x - 7} ${y + 7}" stroke="${palette.wire}" stroke-width="2"/>`;
+
+  const meter = (x: number, y: number) =>
+    `<rect x="${x - GATE_SIZE / 2}" y="${y - GATE_SIZE / 2}" width="${GATE_SIZE}" height="${GATE_SIZE}" rx="6" fill="${palette.gateFill}" stroke="${palette.gateStroke}" stroke-width="1.5"/>` +
+    `<path d="M${x - 10} ${y + 6} A 11 11 0 0 1 ${x + 10} ${y + 6}" fill="none" stroke="${palette.gateText}" stroke-width="1.5"/>` +
+    `<line x1="${x}" y1="${y + 6}" x2="${x + 8}" y2="${y - 8}" stroke="${palette.gateText}" stroke-width="1.5"/>`;
+
+  // Wires and labels
+  circuit.qubitLabels.forEach((label, q) => {
+    const y = rowY(q);
+    parts.push(text(originX + PADDING + LABEL_WIDTH - 10, y, `${label} |0⟩`, palette.text, 12, 'end'));
+    parts.push(`<line x1="${originX + PADDING + LABEL_WIDTH}" y1="${y}" x2="${wireEnd}" y2="${y}" stroke="${palette.wire}" stroke-width="1.5"/>`);
+  });
+  circuit.clbitLabels.forEach((label, c) => {
+    const y = rowY(circuit.numQubits + c);
+    parts.push(text(originX + PADDING + LABEL_WIDTH - 10, y, label, palette.classical, 12, 'end'));
+    parts.push(doubleLine(originX + PADDING + LABEL_WIDTH, y, wireEnd, y));
+  });
+
+  for (const { op, column } of layout.placed) {
+    const x = columnX(column);
+
+    // Classical control: double line from the operation to each condition bit
+    if (op.kind !== 'barrier' && op.condition) {
+      const anchor = rowY(op.kind === 'gate' ? Math.max(...op.qubits) : op.qubit);
+      op.condition.clbits.forEach((clbit, i) => {
+        const y = rowY(circuit.numQubits + clbit);
+        const expected = (op.condition!.value >> i) & 1;
+        parts.push(doubleLine(x, anchor, x, y));
+        parts.push(`<circle cx="${x}" cy="${y}" r="5" fill="${expected ? palette.classical : 'none'}" stroke="${palette.classical}" stroke-width="1.5"/>`);
+      });
+    }
+
+    switch (op.kind) {
+      case 'barrier': {
+        const top = rowY(Math.min(...op.qubits)) - ROW_HEIGHT / 2 + 4;
+        const bottom = rowY(Math.max(...op.qubits)) + ROW_HEIGHT / 2 - 4;
+        parts.push(`<line x1="${x}" y1="${top}" x2="${x}" y2="${bottom}" stroke="${palette.wire}" stroke-width="2" stroke-dasharray="4 4" opacity="0.6"/>`);
+        break;
+      }
+      case 'reset':
+        parts.push(box(x, rowY(op.qubit), '|0⟩'));
+        break;
+      case 'measure': {
+        const y = rowY(op.qubit);
+        const clbitY = rowY(circuit.numQubits + op.clbit);
+        parts.push(doubleLine(x, y + GATE_SIZE / 2, x, clbitY - 6));
+        parts.push(`<path d="M${x - 5} ${clbitY - 8} L${x + 5} ${clbitY - 8} L${x} ${clbitY} Z" fill="${palette.classical}"/>`);
+        parts.push(meter(x, y));
+        break;
+      }
+      case 'gate': {
+        const gate = GATES[op.name];
+        const ys = op.qubits.map(rowY);
+        if (ys.length > 1) {
+          parts.push(`<line x1="${x}" y1="${Math.min(...ys)}" x2="${x}" y2="${Math.max(...ys)}" stroke="${palette.wire}" stroke-width="1.5"/>`);
+        }
+        if (op.name === 'swap') {
+          ys.forEach(y => parts.push(cross(x, y)));
+          break;
+        }
+        ys.slice(0, gate.controls).forEach(y => parts.push(control(x, y)));
+        const targetY = ys[gate.controls];
+        if (op.name === 'cx' || op.name === 'ccx') {
+          parts.push(target(x, targetY));
+        } else if (op.name === 'cz') {
+          parts.push(control(x, targetY));
+        } else {
+          const name = gate.controls > 0 ? op.name.slice(1) : op.name;
+          parts.push(box(x, targetY, gateLabel(name, op.params)));
+        }
+        break;
+      }
+    }
+  }
+
+  return parts.join('');
+}
+
+export function renderCircuitDiagramSVG(circuit: Circuit, palette: DiagramPalette = EDITOR_PALETTE): string {
+  const layout = layoutCircuit(circuit);
+  const { width, height } = diagramSize(layout);
+  return `<svg width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" xmlns="http://www.w3.org/2000/svg">` +
+    (palette.background ? `<rect width="${width}" height="${height}" fill="${palette.background}"/>` : '') +
+    renderDiagramMarkup(layout, palette) +
+    '</svg>';
+}
@@ -1,6 +1,9 @@
 import ikfLogo from "@/assets/ikf-logo.png";
 import iyqLogoWhite from "@/assets/iyq-logo-white.png";
 import quantumKrumpLogo from "@/assets/quantum-krump-logo.png";
+import { tokenize, type Token } from "@/lib/guppy/lexer";
+import { diagramSize, layoutCircuit, PORTRAIT_PALETTE, renderDiagramMarkup } from "@/lib/circuit-diagram";
+import type { Circuit } from "@/lib/quantum/circuit";
 
 export interface CircuitPortraitMetadata {
   circuitName?: string;
@@ -37,78 +40,73 @@ async function imageToBase64(url: string): Promise<string> {
 // Syntax highlighting for Guppy code (safe version that won't break SVG)
 function highlightGuppyCode(code: string, enableHighlight: boolean = true): { lineNumber: number; html: string }[] {
   const lines = code.split('\n');
-  const keywords = ['@guppy', 'def', 'for', 'in', 'range', 'return', 'if', 'else', 'while'];
-  
+  const plain = () => lines.map((line, index) => ({ lineNumber: index + 1, html: escapeXml(line) }));
+
+  // If highlighting is disabled, return plain escaped text
+  if (!enableHighlight) {
+    return plain();
+  }
+
+  let tokens: Token[];
+  try {
+    tokens = tokenize(code);
+  } catch {
+    // Code that doesn't lex (e.g. mid-edit) is shown without colours
+    return plain();
+  }
+
+  const styleFor = (token: Token, index: number): string | null => {
+    const following = tokens[index + 1];
+    const previous = tokens[index - 1];
+    if (token.type === 'comment') return 'fill="#a78bfa" font-style="italic"';
+    if (token.type === 'keyword') return 'fill="#f472b6" font-weight="600"';
+    if (token.type === 'op' && token.value === '@') return 'fill="#f472b6" font-weight="600"';
+    if (token.type === 'name' && previous?.value === '@') return 'fill="#f472b6" font-weight="600"';
+    if (token.type === 'name' && following?.value === '(') return 'fill="#60a5fa"';
+    return null;
+  };
+
+  const styled = new Map<number, { column: number; end: number; style: string }[]>();
+  tokens.forEach((token, index) => {
+    const style = styleFor(token, index);
+    const { start, end } = token.span;
+    if (!style || start.line !== end.line) return;
+    const entries = styled.get(start.line) ?? [];
+    entries.push({ column: start.column - 1, end: end.column - 1, style });
+    styled.set(start.line, entries);
+  });
+
   return lines.map((line, index) => {
-    // First, escape XML special characters
-    let escaped = escapeXml(line);
-    
-    // If highlighting is disabled, return plain escaped text
-    if (!enableHighlight) {
-      return {
-        lineNumber: index + 1,
-        html: escaped
-      };
+    const lineNumber = index + 1;
+    let html = '';
+    let cursor = 0;
+    for (const { column, end, style } of styled.get(lineNumber) ?? []) {
+      html += escapeXml(line.slice(cursor, column));
+      html += `<tspan ${style}>${escapeXml(line.slice(column, end))}</tspan>`;
+      cursor = end;
     }
-    
-    // Split into code and comment parts at first '#'
-    const hashIndex = escaped.indexOf('#');
-    let codePart = hashIndex >= 0 ? escaped.substring(0, hashIndex) : escaped;
-    let commentPart = hashIndex >= 0 ? escaped.substring(hashIndex) : '';
-    
-    // Only highlight keywords and functions in the code part (not in comments)
-    keywords.forEach(keyword => {
-      const regex = new RegExp(`\\b(${keyword})\\b`, 'g');
-      codePart = codePart.replace(regex, '<tspan fill="#f472b6" font-weight="600">$1</tspan>');
-    });
-    
-    // Highlight function names (word followed by parenthesis)
-    codePart = codePart.replace(/\b([a-zA-Z_][a-zA-Z0-9_]*)\s*\(/g, '<tspan fill="#60a5fa">$1</tspan>(');
-    
-    // Wrap comment in italic tspan
-    if (commentPart) {
-      commentPart = '<tspan fill="#a78bfa" font-style="italic">' + commentPart + '</tspan>';
-    }
-    
-    return {
-      lineNumber: index + 1,
-      html: codePart + commentPart
-    };
+    html += escapeXml(line.slice(cursor));
+    return { lineNumber, html };
   });
 }
 
-export async function generateCircuitPortraitSVG(
-  guppyCode: string,
-  metadata: CircuitPortraitMetadata,
-  options?: { highlight?: boolean }
-): Promise<string> {
-  const ikfBase64 = await imageToBase64(ikfLogo);
-  const iyqBase64 = await imageToBase64(iyqLogoWhite);
-  const quantumKrumpBase64 = await imageToBase64(quantumKrumpLogo);
-  
-  const enableHighlight = options?.highlight !== false;
-  const highlightedLines = highlightGuppyCode(guppyCode, enableHighlight);
-  const lineHeight = 20;
-  const codeStartY = 260;
-  const codeHeight = Math.max(highlightedLines.length * lineHeight + 60, 400);
-  
-  // Calculate additional space for prompt and category
-  const promptHeight = metadata.prompt ? 80 : 0;
-  const categoryHeight = metadata.category ? 40 : 0;
-  const totalHeight = codeHeight + 380 + promptHeight + categoryHeight;
-  
-  // Generate code lines SVG
-  const codeLinesSVG = highlightedLines.map((line, index) => {
-    const y = codeStartY + index * lineHeight + 40;
-    return `
-      <text x="60" y="${y}" fill="#64748b" font-size="14" font-family="monospace">${line.lineNumber}</text>
-      <text x="100" y="${y}" fill="#e2e8f0" font-size="14" font-family="monospace">${line.html}</text>
-    `;
-  }).join('');
+interface BrandingLogos {
+  ikf: string;
+  iyq: string;
+  quantumKrump: string;
+}
 
-  return `<?xml version="1.0" encoding="UTF-8"?>
-<svg width="1200" height="${totalHeight}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
-  <defs>
+async function loadBrandingLogos(): Promise<BrandingLogos> {
+  return {
+    ikf: await imageToBase64(ikfLogo),
+    iyq: await imageToBase64(iyqLogoWhite),
+    quantumKrump: await imageToBase64(quantumKrumpLogo),
+  };
+}
+
+// Shared gradients, filters and patterns for branded exports
+function brandingDefs(): string {
+  return `  <defs>
     <!-- Gradient backgrounds -->
     <linearGradient id="bgGradient" x1="0%" y1="0%" x2="100%" y2="100%">
       <stop offset="0%" style="stop-color:#1e1b4b;stop-opacity:1" />
@@ -144,8 +142,12 @@ export async function generateCircuitPortraitSVG(
       <circle cx="35" cy="25" r="1" fill="#06b6d4" opacity="0.2"/>
     </pattern>
   </defs>
-  
-  <!-- Main background -->
+`;
+}
+
+// Background, border, logos and title; content starts below y = 240
+function brandingHeader(totalHeight: number, logos: BrandingLogos, domain?: string): string {
+  return `  <!-- Main background -->
   <rect width="1200" height="${totalHeight}" fill="url(#bgGradient)"/>
   <rect width="1200" height="${totalHeight}" fill="url(#quantumDots)"/>
   
@@ -158,10 +160,10 @@ export async function generateCircuitPortraitSVG(
   
   <!-- Logos: Two-Logo Layout -->
   <!-- IKF Logo (left) -->
-  <image href="${ikfBase64}" x="60" y="50" width="120" height="120" preserveAspectRatio="xMidYMid meet"/>
+  <image href="${logos.ikf}" x="60" y="50" width="120" height="120" preserveAspectRatio="xMidYMid meet"/>
   
   <!-- IYQ White Logo (right) -->
-  <image href="${iyqBase64}" x="1020" y="50" width="120" height="120" preserveAspectRatio="xMidYMid meet"/>
+  <image href="${logos.iyq}" x="1020" y="50" width="120" height="120" preserveAspectRatio="xMidYMid meet"/>
   
   <!-- Main title -->
   <text x="600" y="125" text-anchor="middle" fill="#ffffff" font-size="42" font-weight="700" 
@@ -179,14 +181,76 @@ export async function generateCircuitPortraitSVG(
   <line x1="200" y1="170" x2="1000" y2="170" stroke="#8b5cf6" stroke-width="1" opacity="0.5"/>
   
   <!-- Domain badge (if available) -->
-  ${metadata.domain ? `
+  ${domain ? `
   <rect x="500" y="190" width="200" height="30" fill="#8b5cf6" rx="15" opacity="0.3"/>
   <text x="600" y="210" text-anchor="middle" fill="#e0e7ff" font-size="14" font-weight="600" 
         font-family="Arial, sans-serif">
-    ${escapeXml(metadata.domain)}
+    ${escapeXml(domain)}
+  </text>
+  ` : ''}
+  
+`;
+}
+
+// Timestamp, backend/shots line and footer logo
+function brandingFooter(totalHeight: number, logos: BrandingLogos, metadata: CircuitPortraitMetadata): string {
+  return `  <!-- Footer section -->
+  <rect x="40" y="${totalHeight - 120}" width="1120" height="80" fill="#0f172a" rx="15" opacity="0.8"/>
+  
+  <!-- Decorative footer line -->
+  <line x1="80" y1="${totalHeight - 110}" x2="1120" y2="${totalHeight - 110}" 
+        stroke="#8b5cf6" stroke-width="1" opacity="0.5"/>
+  
+  <!-- Timestamp -->
+  <text x="80" y="${totalHeight - 80}" fill="#e0e7ff" font-size="16" font-weight="500" 
+        font-family="Arial, sans-serif">
+    Generated: ${escapeXml(metadata.timestamp)}
+  </text>
+  
+  <!-- Circuit metadata -->
+  ${metadata.backend || metadata.shots ? `
+  <text x="80" y="${totalHeight - 55}" fill="#94a3b8" font-size="14" font-family="Arial, sans-serif">
+    ${metadata.backend ? `Backend: ${escapeXml(metadata.backend)}` : ''} ${metadata.backend && metadata.shots ? '|' : ''} ${metadata.shots ? `Shots: ${escapeXml(String(metadata.shots))}` : ''}
   </text>
   ` : ''}
   
+  <!-- Quantum Krump Logo (footer right) -->
+  <image href="${logos.quantumKrump}" x="1020" y="${totalHeight - 110}" width="80" height="80" preserveAspectRatio="xMidYMid meet" filter="url(#glow)"/>
+`;
+}
+
+export async function generateCircuitPortraitSVG(
+  guppyCode: string,
+  metadata: CircuitPortraitMetadata,
+  options?: { highlight?: boolean }
+): Promise<string> {
+  const logos = await loadBrandingLogos();
+  
+  const enableHighlight = options?.highlight !== false;
+  const highlightedLines = highlightGuppyCode(guppyCode, enableHighlight);
+  const lineHeight = 20;
+  const codeStartY = 260;
+  const codeHeight = Math.max(highlightedLines.length * lineHeight + 60, 400);
+  
+  // Calculate additional space for prompt and category
+  const promptHeight = metadata.prompt ? 80 : 0;
+  const categoryHeight = metadata.category ? 40 : 0;
+  const totalHeight = codeHeight + 380 + promptHeight + categoryHeight;
+  
+  // Generate code lines SVG
+  const codeLinesSVG = highlightedLines.map((line, index) => {
+    const y = codeStartY + index * lineHeight + 40;
+    return `
+      <text x="60" y="${y}" fill="#64748b" font-size="14" font-family="monospace">${line.lineNumber}</text>
+      <text x="100" y="${y}" fill="#e2e8f0" font-size="14" font-family="monospace">${line.html}</text>
+    `;
+  }).join('');
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg width="1200" height="${totalHeight}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+${brandingDefs()}
+  
+${brandingHeader(totalHeight, logos, metadata.domain)}
   <!-- Code container -->
   <rect x="40" y="${codeStartY - 20}" width="1120" height="${codeHeight}" 
         fill="url(#codeBoxGradient)" rx="15" 
@@ -229,28 +293,47 @@ export async function generateCircuitPortraitSVG(
   </text>
   ` : ''}
   
-  <!-- Footer section -->
-  <rect x="40" y="${totalHeight - 120}" width="1120" height="80" fill="#0f172a" rx="15" opacity="0.8"/>
+${brandingFooter(totalHeight, logos, metadata)}
+</svg>`;
+}
+
+export async function generateCircuitDiagramSVG(
+  circuit: Circuit,
+  metadata: CircuitPortraitMetadata
+): Promise<string> {
+  const logos = await loadBrandingLogos();
+
+  // Shrink wide circuits to fit the 1120px content area
+  const layout = layoutCircuit(circuit);
+  const size = diagramSize(layout);
+  const scale = Math.min(1, 1080 / size.width);
+  const diagramStartY = 260;
+  const boxHeight = Math.max(size.height * scale + 80, 240);
+  const totalHeight = diagramStartY + boxHeight + 160;
+  const offsetX = 600 - (size.width * scale) / 2;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg width="1200" height="${totalHeight}" xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink">
+${brandingDefs()}
   
-  <!-- Decorative footer line -->
-  <line x1="80" y1="${totalHeight - 110}" x2="1120" y2="${totalHeight - 110}" 
-        stroke="#8b5cf6" stroke-width="1" opacity="0.5"/>
+${brandingHeader(totalHeight, logos, metadata.domain)}
+  <!-- Diagram container -->
+  <rect x="40" y="${diagramStartY - 20}" width="1120" height="${boxHeight}" 
+        fill="url(#codeBoxGradient)" rx="15" 
+        stroke="#8b5cf6" stroke-width="2" opacity="0.8"/>
   
-  <!-- Timestamp -->
-  <text x="80" y="${totalHeight - 80}" fill="#e0e7ff" font-size="16" font-weight="500" 
-        font-family="Arial, sans-serif">
-    Generated: ${escapeXml(metadata.timestamp)}
+  <!-- Diagram title -->
+  <text x="600" y="${diagramStartY + 5}" text-anchor="middle" fill="#a78bfa" font-size="16" 
+        font-weight="600" font-family="Arial, sans-serif">
+    ${escapeXml(metadata.circuitName || circuit.name)}
   </text>
   
-  <!-- Circuit metadata -->
-  ${metadata.backend || metadata.shots ? `
-  <text x="80" y="${totalHeight - 55}" fill="#94a3b8" font-size="14" font-family="Arial, sans-serif">
-    ${metadata.backend ? `Backend: ${escapeXml(metadata.backend)}` : ''} ${metadata.backend && metadata.shots ? '|' : ''} ${metadata.shots ? `Shots: ${escapeXml(String(metadata.shots))}` : ''}
-  </text>
-  ` : ''}
+  <!-- Circuit diagram -->
+  <g transform="translate(${offsetX} ${diagramStartY + 30}) scale(${scale})">
+    ${renderDiagramMarkup(layout, PORTRAIT_PALETTE)}
+  </g>
   
-  <!-- Quantum Krump Logo (footer right) -->
-  <image href="${quantumKrumpBase64}" x="1020" y="${totalHeight - 110}" width="80" height="80" preserveAspectRatio="xMidYMid meet" filter="url(#glow)"/>
+${brandingFooter(totalHeight, logos, metadata)}
 </svg>`;
 }
 
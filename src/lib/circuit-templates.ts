@@ -1,10 +1,13 @@
+import type { ParameterDeclarations } from "@/lib/guppy/template";
+
 export interface CircuitTemplate {
   id: string;
   name: string;
   description: string;
   circuit_type: string;
   guppy_code: string;
-  parameters: Record<string, any>;
+  // Values substituted into guppy_code before it runs; see guppy/template.ts
+  parameters: ParameterDeclarations;
   colorTheme: string;
   qubitCount: number;
 }
@@ -43,37 +46,38 @@ def bell_state():
   {
     id: "ghz-state",
     name: "GHZ State",
-    description: "Create a 3-qubit maximally entangled state",
+    description: "Create an n-qubit maximally entangled state",
     circuit_type: "ghz",
     colorTheme: "from-blue-500/20 to-cyan-500/20 border-blue-500/30",
     qubitCount: 3,
     guppy_code: `# GHZ State Circuit
-# Creates a 3-qubit maximally entangled state
+# Creates an n-qubit maximally entangled state
 
 from guppy import quantum
 
 @quantum
 def ghz_state():
-    q0 = qubit()
-    q1 = qubit()
-    q2 = qubit()
+    # @for i in range(n)
+    q{{i}} = qubit()
+    # @end
     
     # Create superposition on first qubit
     q0 = h(q0)
     
-    # Entangle with second qubit
-    q0, q1 = cx(q0, q1)
-    
-    # Entangle with third qubit
-    q1, q2 = cx(q1, q2)
+    # Entangle each qubit with the next
+    # @for i in range(1, n)
+    q{{i - 1}}, q{{i}} = cx(q{{i - 1}}, q{{i}})
+    # @end
     
     # Measure all qubits
-    m0 = measure(q0)
-    m1 = measure(q1)
-    m2 = measure(q2)
-    
-    return m0, m1, m2`,
-    parameters: {}
+    # @for i in range(n)
+    m{{i}} = measure(q{{i}})
+    # @end
+    
+    return {{ m{i} for i in range(n) }}`,
+    parameters: {
+      n: { type: 'qubits', label: 'Qubits', default: 3, min: 2, max: 10 }
+    }
   },
   {
     id: "teleportation",
@@ -0,0 +1,182 @@
+import { GATES, type GateName } from "@/lib/quantum/gates";
+import type { Circuit, Operation } from "@/lib/quantum/circuit";
+import { parseGuppy } from "@/lib/guppy/parser";
+import { compileModule, findKernel } from "@/lib/guppy/compile";
+import { checkLinearity } from "@/lib/guppy/linearity";
+import { generateGuppy } from "@/lib/guppy/codegen";
+import { GuppyError } from "@/lib/guppy/ast";
+import { isTemplate } from "@/lib/guppy/template";
+
+// Model behind the visual composer. The composer edits a plain Circuit
+// restricted to the palette below; the Guppy source stays the single source
+// of truth, so every edit is written back as code and read again from it.
+
+export type ComposerGate = 'h' | 'x' | 'y' | 'z' | 's' | 't' | 'rx' | 'ry' | 'rz' | 'cx' | 'cz' | 'swap' | 'measure';
+
+export const COMPOSER_GATES: ComposerGate[] = ['h', 'x', 'y', 'z', 's', 't', 'rx', 'ry', 'rz', 'cx', 'cz', 'swap', 'measure'];
+
+export const MAX_COMPOSER_QUBITS = 12;
+
+// Exactly one of the fields is set
+export interface ComposerResult {
+  circuit: Circuit | null;
+  reason: string | null;
+}
+
+const isComposerGate = (name: string): name is ComposerGate =>
+  (COMPOSER_GATES as string[]).includes(name);
+
+export function gateArity(gate: ComposerGate): number {
+  return gate === 'measure' ? 1 : GATES[gate].numQubits;
+}
+
+export function emptyComposerCircuit(numQubits = 2): Circuit {
+  return normalizeComposer({
+    name: 'composed_circuit',
+    numQubits,
+    qubitLabels: [],
+    clbitLabels: [],
+    outputs: [],
+    operations: [],
+  });
+}
+
+// Canonical labels and outputs: qubits are q0..qn, each measurement writes
+// m<qubit>, and every measurement is returned in qubit order.
+export function normalizeComposer(circuit: Circuit): Circuit {
+  const measured = circuit.operations
+    .filter((op): op is Extract<Operation, { kind: 'measure' }> => op.kind === 'measure')
+    .map(op => op.qubit)
+    .sort((a, b) => a - b);
+  const clbitOf = new Map(measured.map((qubit, clbit) => [qubit, clbit]));
+  return {
+    name: circuit.name,
+    numQubits: circuit.numQubits,
+    qubitLabels: Array.from({ length: circuit.numQubits }, (_, q) => `q${q}`),
+    clbitLabels: measured.map(qubit => `m${qubit}`),
+    outputs: measured.map((_, clbit) => clbit),
+    operations: circuit.operations.map(op =>
+      op.kind === 'measure' ? { kind: 'measure', qubit: op.qubit, clbit: clbitOf.get(op.qubit)! } : op
+    ),
+  };
+}
+
+const describeLine = (op: Operation) => (op.line ? `Line ${op.line}: ` : '');
+
+// Check that a compiled circuit only uses what the composer can draw
+export function checkComposable(circuit: Circuit): string | null {
+  if (circuit.numQubits > MAX_COMPOSER_QUBITS) {
+    return `The composer supports up to ${MAX_COMPOSER_QUBITS} qubits; this circuit uses ${circuit.numQubits}.`;
+  }
+  const measured = new Set<number>();
+  for (const op of circuit.operations) {
+    if (op.kind === 'reset' || op.kind === 'barrier') {
+      return `${describeLine(op)}${op.kind}() is not available in the composer.`;
+    }
+    if (op.condition) {
+      return `${describeLine(op)}classically controlled operations (if blocks) are not available in the composer.`;
+    }
+    if (op.kind === 'gate' && !isComposerGate(op.name)) {
+      return `${describeLine(op)}the ${op.name} gate is not in the composer palette.`;
+    }
+    const qubits = op.kind === 'gate' ? op.qubits : [op.qubit];
+    if (qubits.some(q => measured.has(q))) {
+      return `${describeLine(op)}a qubit is used after it was measured.`;
+    }
+    if (op.kind === 'measure') measured.add(op.qubit);
+  }
+
+  // The composer returns every measurement in qubit order
+  const expected = circuit.operations
+    .filter((op): op is Extract<Operation, { kind: 'measure' }> => op.kind === 'measure')
+    .sort((a, b) => a.qubit - b.qubit)
+    .map(op => op.clbit);
+  if (expected.join(',') !== circuit.outputs.join(',')) {
+    return 'The return statement must list every measurement result in qubit order.';
+  }
+  return null;
+}
+
+export function composerFromGuppy(source: string): ComposerResult {
+  if (!source.trim()) return { circuit: emptyComposerCircuit(), reason: null };
+  if (isTemplate(source)) {
+    return { circuit: null, reason: 'The code is a parametric template, which the composer cannot edit.' };
+  }
+  try {
+    const module = parseGuppy(source);
+    const kernel = findKernel(module);
+    if (kernel.params.length) {
+      return { circuit: null, reason: `${kernel.name}() takes parameters, which the composer cannot edit.` };
+    }
+    if (checkLinearity(module).length) {
+      return { circuit: null, reason: 'The code has errors; fix them in the editor to use the composer.' };
+    }
+    const circuit = compileModule(module);
+    const reason = checkComposable(circuit);
+    return reason ? { circuit: null, reason } : { circuit: normalizeComposer(circuit), reason: null };
+  } catch (error) {
+    if (error instanceof GuppyError) {
+      return { circuit: null, reason: `Line ${error.line}: ${error.message}` };
+    }
+    throw error;
+  }
+}
+
+export function composerToGuppy(circuit: Circuit): string {
+  return generateGuppy(normalizeComposer(circuit), {
+    header: ['Built with the visual circuit composer'],
+  });
+}
+
+// Column of each operation: the earliest one free on every wire it spans
+export function layoutComposer(circuit: Circuit): { columns: number[]; width: number } {
+  const nextFree = new Array(circuit.numQubits).fill(0);
+  const columns = circuit.operations.map(op => {
+    const qubits = op.kind === 'gate' || op.kind === 'barrier' ? op.qubits : [op.qubit];
+    const top = Math.min(...qubits);
+    const bottom = Math.max(...qubits);
+    let column = 0;
+    for (let q = top; q <= bottom; q++) column = Math.max(column, nextFree[q]);
+    for (let q = top; q <= bottom; q++) nextFree[q] = column + 1;
+    return column;
+  });
+  return { columns, width: Math.max(0, ...nextFree) };
+}
+
+export function createOperation(gate: ComposerGate, qubit: number, numQubits: number): Operation {
+  if (gate === 'measure') return { kind: 'measure', qubit, clbit: 0 };
+  const definition = GATES[gate as GateName];
+  // Two-qubit gates target the wire below, or above on the last wire
+  const qubits = definition.numQubits === 2
+    ? (qubit + 1 < numQubits ? [qubit, qubit + 1] : [qubit, qubit - 1])
+    : [qubit];
+  const params = Array(definition.numParams).fill(Math.PI / 2);
+  return { kind: 'gate', name: gate as GateName, qubits, params };
+}
+
+// Insert before everything drawn at or after `column`, keeping the
+// operations in column order so the generated code reads left to right.
+export function insertOperation(circuit: Circuit, op: Operation, column: number): Circuit {
+  const { columns } = layoutComposer(circuit);
+  const order = circuit.operations.map((existing, i) => ({ existing, column: columns[i] }));
+  const index = order.filter(entry => entry.column < column).length;
+  const sorted = [...order].sort((a, b) => a.column - b.column).map(entry => entry.existing);
+  sorted.splice(index, 0, op);
+  return { ...circuit, operations: sorted };
+}
+
+export function replaceOperation(circuit: Circuit, index: number, op: Operation): Circuit {
+  return { ...circuit, operations: circuit.operations.map((existing, i) => (i === index ? op : existing)) };
+}
+
+export function removeOperation(circuit: Circuit, index: number): Circuit {
+  return { ...circuit, operations: circuit.operations.filter((_, i) => i !== index) };
+}
+
+export function resizeComposer(circuit: Circuit, numQubits: number): Circuit {
+  const operations = circuit.operations.filter(op => {
+    const qubits = op.kind === 'gate' || op.kind === 'barrier' ? op.qubits : [op.qubit];
+    return qubits.every(q => q < numQubits);
+  });
+  return { ...circuit, numQubits, operations };
+}
@@ -0,0 +1,134 @@
+import { GATES } from '../quantum/gates.ts';
+import type { Circuit, ClassicalCondition, Operation } from '../quantum/circuit.ts';
+import { KEYWORDS } from './lexer.ts';
+
+// Emits formatted Guppy source for a circuit. The output is accepted by
+// compileGuppy and passes the linearity checker: every qubit is rebound
+// after each gate and measured or discarded before the function returns.
+
+export interface GenerateOptions {
+  // Comment lines placed above the import
+  header?: string[];
+}
+
+const INDENT = '    ';
+
+const RESERVED = new Set([
+  ...KEYWORDS,
+  ...Object.keys(GATES),
+  'qubit', 'measure', 'reset', 'discard', 'barrier', 'angle', 'quantum', 'guppy',
+  'pi', 'tau', 'e', 'math',
+]);
+
+const identifier = (label: string, fallback: string): string => {
+  const cleaned = label.replace(/[^A-Za-z0-9_]/g, '_');
+  if (!/^[A-Za-z_]/.test(cleaned) || RESERVED.has(cleaned)) return fallback;
+  return cleaned;
+};
+
+// Give every label a distinct, valid Python name
+const uniqueNames = (labels: string[], prefix: string, taken: Set<string>): string[] =>
+  labels.map((label, i) => {
+    let name = identifier(label, `${prefix}${i}`);
+    while (taken.has(name)) name = `${name}_`;
+    taken.add(name);
+    return name;
+  });
+
+// Angles are written in half-turns, the unit Guppy's angle() expects
+export function formatHalfTurns(theta: number): string {
+  return `angle(${Number((theta / Math.PI).toPrecision(12))})`;
+}
+
+const conditionKey = (condition: ClassicalCondition | undefined) =>
+  condition ? `${condition.clbits.join(',')}=${condition.value}` : '';
+
+const describeOperation = (op: Operation) =>
+  op.kind === 'gate' ? `${op.name}()` : `${op.kind}()`;
+
+export function generateGuppy(circuit: Circuit, options: GenerateOptions = {}): string {
+  const taken = new Set<string>();
+  const qubits = uniqueNames(circuit.qubitLabels, 'q', taken);
+  const bits = uniqueNames(circuit.clbitLabels, 'm', taken);
+  const name = identifier(circuit.name, 'circuit');
+
+  const conditionText = (condition: ClassicalCondition): string => {
+    const terms = condition.clbits.map((clbit, i) => {
+      const expected = (condition.value >> i) & 1;
+      if (condition.clbits.length === 1) return expected ? bits[clbit] : `not ${bits[clbit]}`;
+      return `${bits[clbit]} == ${expected ? 'True' : 'False'}`;
+    });
+    return terms.join(' and ');
+  };
+
+  const statement = (op: Operation): string => {
+    switch (op.kind) {
+      case 'gate': {
+        const targets = op.qubits.map(q => qubits[q]).join(', ');
+        const args = [...op.qubits.map(q => qubits[q]), ...op.params.map(formatHalfTurns)].join(', ');
+        return `${targets} = ${op.name}(${args})`;
+      }
+      case 'measure':
+        return `${bits[op.clbit]} = measure(${qubits[op.qubit]})`;
+      case 'reset':
+        return `${qubits[op.qubit]} = reset(${qubits[op.qubit]})`;
+      case 'barrier': {
+        const targets = op.qubits.map(q => qubits[q]).join(', ');
+        return `${targets} = barrier(${targets})`;
+      }
+    }
+  };
+
+  const lines: string[] = [];
+  for (const comment of options.header ?? []) lines.push(`# ${comment}`);
+  if (lines.length) lines.push('');
+  lines.push('from guppy import quantum', '', '@quantum', `def ${name}():`);
+
+  const body: string[] = qubits.map(q => `${q} = qubit()`);
+  body.push('');
+
+  // Measurement consumes a qubit, so nothing may touch it afterwards
+  const measured = new Set<number>();
+  const assigned = new Set<number>();
+  let openCondition = '';
+  for (const op of circuit.operations) {
+    const touched = op.kind === 'gate' || op.kind === 'barrier' ? op.qubits : [op.qubit];
+    const reused = touched.find(q => measured.has(q));
+    if (reused !== undefined) {
+      throw new Error(
+        `${describeOperation(op)} uses ${qubits[reused]} after it was measured; Guppy measurement consumes the qubit`
+      );
+    }
+
+    const condition = op.kind === 'barrier' ? undefined : op.condition;
+    const unread = condition?.clbits.find(clbit => !assigned.has(clbit));
+    if (unread !== undefined) {
+      throw new Error(`${describeOperation(op)} is conditioned on ${bits[unread]} before it is measured`);
+    }
+    if (op.kind === 'measure') {
+      if (condition) throw new Error('Conditional measurements cannot be expressed in Guppy');
+      measured.add(op.qubit);
+      assigned.add(op.clbit);
+    }
+
+    const key = conditionKey(condition);
+    if (key !== openCondition) {
+      if (condition) body.push(`if ${conditionText(condition)}:`);
+      openCondition = key;
+    }
+    body.push(condition ? `${INDENT}${statement(op)}` : statement(op));
+  }
+
+  const unmeasured = qubits.filter((_, q) => !measured.has(q));
+  if (unmeasured.length) {
+    body.push('');
+    for (const q of unmeasured) body.push(`discard(${q})`);
+  }
+
+  if (circuit.outputs.length) {
+    body.push('', `return ${circuit.outputs.map(clbit => bits[clbit]).join(', ')}`);
+  }
+
+  for (const line of body) lines.push(line ? `${INDENT}${line}` : '');
+  return `${lines.join('\n').replace(/\n{3,}/g, '\n\n').trimEnd()}\n`;
+}
@@ -0,0 +1,324 @@
+// Parametric Guppy templates. A template is Guppy source with placeholders
+// that are filled in from typed parameter values before it is compiled:
+//
+//   {{ expr }}                        the value of an expression
+//   {{ m{i} for i in range(n) }}      "m0, m1, ..." (for return tuples)
+//   # @for i in range(1, n)           repeat the lines up to # @end
+//   # @if expr / # @else / # @end     keep lines conditionally
+//
+// Expressions use parameter and loop variable names, numbers, True/False,
+// + - * / // %, comparisons, and/or/not and parentheses. Directives live in
+// comments so a template still reads as Guppy.
+
+export type ParameterSpec =
+  // Radians
+  | { type: 'angle'; label?: string; default: number; min?: number; max?: number }
+  | { type: 'integer'; label?: string; default: number; min?: number; max?: number }
+  | { type: 'boolean'; label?: string; default: boolean }
+  // Number of qubits the template allocates
+  | { type: 'qubits'; label?: string; default: number; min: number; max: number };
+
+// Declared as type aliases so declarations can be stored in Json columns
+export type ParameterDeclarations = Record<string, ParameterSpec>;
+export type ParameterValues = Record<string, number | boolean>;
+
+export class TemplateError extends Error {
+  readonly line: number | null;
+
+  constructor(message: string, line: number | null = null) {
+    super(message);
+    this.name = 'TemplateError';
+    this.line = line;
+  }
+}
+
+// Loops longer than this are almost certainly a mistake in the template
+const MAX_ITERATIONS = 1000;
+
+const DIRECTIVE = /^\s*#\s*@(for|if|else|end)\b\s*(.*)$/;
+const PLACEHOLDER = /\{\{(.*?)\}\}/g;
+const COMPREHENSION = /^(.*?)\s+for\s+([A-Za-z_]\w*)\s+in\s+range\((.*)\)$/;
+const FOR_HEADER = /^([A-Za-z_]\w*)\s+in\s+range\((.*)\)$/;
+
+export const isTemplate = (source: string) =>
+  source.includes('{{') || source.split('\n').some(line => DIRECTIVE.test(line));
+
+export const defaultParameterValues = (declarations: ParameterDeclarations): ParameterValues =>
+  Object.fromEntries(Object.entries(declarations).map(([name, spec]) => [name, spec.default]));
+
+const PARAMETER_TYPES = ['angle', 'integer', 'boolean', 'qubits'];
+
+// Declarations stored in a saved circuit's parameters column, or null when
+// the column holds something else (e.g. the source of an imported circuit)
+export function parseDeclarations(value: unknown): ParameterDeclarations | null {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) return null;
+  const entries = Object.entries(value);
+  const valid = entries.length > 0 && entries.every(([, spec]) =>
+    spec && typeof spec === 'object' && PARAMETER_TYPES.includes(spec.type) &&
+    typeof spec.default === (spec.type === 'boolean' ? 'boolean' : 'number'));
+  return valid ? (value as ParameterDeclarations) : null;
+}
+
+// Problems with `values`, by parameter name; empty when they are all valid
+export function parameterErrors(declarations: ParameterDeclarations, values: ParameterValues): Record<string, string> {
+  const errors: Record<string, string> = {};
+  for (const [name, spec] of Object.entries(declarations)) {
+    const value = values[name];
+    if (spec.type === 'boolean') {
+      if (typeof value !== 'boolean') errors[name] = 'Must be true or false';
+      continue;
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors[name] = 'Must be a number';
+    } else if (spec.type !== 'angle' && !Number.isInteger(value)) {
+      errors[name] = 'Must be a whole number';
+    } else if (spec.min !== undefined && value < spec.min) {
+      errors[name] = `Must be at least ${spec.min}`;
+    } else if (spec.max !== undefined && value > spec.max) {
+      errors[name] = `Must be at most ${spec.max}`;
+    }
+  }
+  return errors;
+}
+
+// --- Expressions ---
+
+type Scope = Record<string, number | boolean>;
+
+const TOKEN = /\s*(\d+\.\d*|\.\d+|\d+|[A-Za-z_]\w*|\/\/|==|!=|<=|>=|[-+*/%()<>,])/y;
+
+function tokenize(text: string, line: number): string[] {
+  const tokens: string[] = [];
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < text.length) {
+    if (!text.slice(TOKEN.lastIndex).trim()) break;
+    const match = TOKEN.exec(text);
+    if (!match) throw new TemplateError(`Unexpected "${text.slice(TOKEN.lastIndex).trim()}" in template expression`, line);
+    tokens.push(match[1]);
+  }
+  return tokens;
+}
+
+const asNumber = (value: number | boolean) => (typeof value === 'boolean' ? Number(value) : value);
+
+function evaluate(text: string, scope: Scope, line: number): number | boolean {
+  const tokens = tokenize(text, line);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const take = () => tokens[pos++];
+  const fail = (message: string): never => {
+    throw new TemplateError(`${message} in "{{${text.trim()}}}"`, line);
+  };
+
+  const primary = (): number | boolean => {
+    const token = take();
+    if (token === undefined) return fail('Expression ends too early');
+    if (token === '(') {
+      const value = or();
+      if (take() !== ')') fail('Missing )');
+      return value;
+    }
+    if (token === '-') return -asNumber(primary());
+    if (token === '+') return asNumber(primary());
+    if (/^[\d.]/.test(token)) return Number(token);
+    if (token === 'True' || token === 'False') return token === 'True';
+    if (/^[A-Za-z_]/.test(token)) {
+      if (!(token in scope)) fail(`Unknown template parameter "${token}"`);
+      return scope[token];
+    }
+    return fail(`Unexpected "${token}"`);
+  };
+
+  const term = (): number | boolean => {
+    let value = primary();
+    while (['*', '/', '//', '%'].includes(peek())) {
+      const op = take();
+      const a = asNumber(value), b = asNumber(primary());
+      value = op === '*' ? a * b : op === '/' ? a / b : op === '//' ? Math.floor(a / b) : a - b * Math.floor(a / b);
+    }
+    return value;
+  };
+
+  const sum = (): number | boolean => {
+    let value = term();
+    while (peek() === '+' || peek() === '-') {
+      const op = take();
+      const b = asNumber(term());
+      value = op === '+' ? asNumber(value) + b : asNumber(value) - b;
+    }
+    return value;
+  };
+
+  const comparison = (): number | boolean => {
+    const value = sum();
+    if (!['==', '!=', '<', '<=', '>', '>='].includes(peek())) return value;
+    const op = take();
+    const a = asNumber(value), b = asNumber(sum());
+    switch (op) {
+      case '==': return a === b;
+      case '!=': return a !== b;
+      case '<': return a < b;
+      case '<=': return a <= b;
+      case '>': return a > b;
+      default: return a >= b;
+    }
+  };
+
+  const not = (): number | boolean => {
+    if (peek() === 'not') {
+      take();
+      return !not();
+    }
+    return comparison();
+  };
+
+  const and = (): number | boolean => {
+    let value = not();
+    while (peek() === 'and') {
+      take();
+      const right = not();
+      value = Boolean(value) && Boolean(right);
+    }
+    return value;
+  };
+
+  const or = (): number | boolean => {
+    let value = and();
+    while (peek() === 'or') {
+      take();
+      const right = and();
+      value = Boolean(value) || Boolean(right);
+    }
+    return value;
+  };
+
+  const value = or();
+  if (pos < tokens.length) fail(`Unexpected "${peek()}"`);
+  return value;
+}
+
+const formatValue = (value: number | boolean) =>
+  typeof value === 'boolean' ? (value ? 'True' : 'False') : String(value);
+
+// Bounds of range(stop) or range(start, stop)
+function rangeBounds(args: string, scope: Scope, line: number): [number, number] {
+  const parts = args.split(',');
+  if (parts.length > 2) throw new TemplateError('range() takes one or two arguments in templates', line);
+  const bounds = parts.map(part => evaluate(part, scope, line));
+  if (bounds.some(bound => typeof bound !== 'number' || !Number.isInteger(bound))) {
+    throw new TemplateError('range() needs whole numbers', line);
+  }
+  const [start, stop] = bounds.length === 1 ? [0, bounds[0] as number] : (bounds as [number, number]);
+  if (stop - start > MAX_ITERATIONS) {
+    throw new TemplateError(`range() in a template is limited to ${MAX_ITERATIONS} iterations`, line);
+  }
+  return [start, stop];
+}
+
+function substitute(text: string, scope: Scope, line: number): string {
+  return text.replace(PLACEHOLDER, (_, inner: string) => {
+    const comprehension = inner.trim().match(COMPREHENSION);
+    if (!comprehension) return formatValue(evaluate(inner, scope, line));
+
+    const [, item, variable, args] = comprehension;
+    const [start, stop] = rangeBounds(args, scope, line);
+    const items: string[] = [];
+    for (let i = start; i < stop; i++) {
+      const inner = { ...scope, [variable]: i };
+      items.push(item.replace(/\{([^{}]*)\}/g, (_, expr: string) => formatValue(evaluate(expr, inner, line))));
+    }
+    return items.join(', ');
+  });
+}
+
+// --- Blocks ---
+
+type Block =
+  | { kind: 'text'; text: string; line: number }
+  | { kind: 'for'; variable: string; args: string; body: Block[]; line: number }
+  | { kind: 'if'; condition: string; body: Block[]; orelse: Block[]; line: number };
+
+function parseBlocks(lines: string[]): Block[] {
+  const root: Block[] = [];
+  // Open blocks and the list new lines are appended to
+  const stack: { block: Block | null; target: Block[] }[] = [{ block: null, target: root }];
+
+  lines.forEach((text, index) => {
+    const line = index + 1;
+    const top = stack[stack.length - 1];
+    const directive = text.match(DIRECTIVE);
+    if (!directive) {
+      top.target.push({ kind: 'text', text, line });
+      return;
+    }
+
+    const [, keyword, rest] = directive;
+    switch (keyword) {
+      case 'for': {
+        const header = rest.trim().match(FOR_HEADER);
+        if (!header) throw new TemplateError('Expected "# @for <name> in range(...)"', line);
+        const block: Block = { kind: 'for', variable: header[1], args: header[2], body: [], line };
+        top.target.push(block);
+        stack.push({ block, target: block.body });
+        break;
+      }
+      case 'if': {
+        if (!rest.trim()) throw new TemplateError('# @if needs a condition', line);
+        const block: Block = { kind: 'if', condition: rest, body: [], orelse: [], line };
+        top.target.push(block);
+        stack.push({ block, target: block.body });
+        break;
+      }
+      case 'else':
+        if (top.block?.kind !== 'if' || top.target !== top.block.body) {
+          throw new TemplateError('# @else without a matching # @if', line);
+        }
+        top.target = top.block.orelse;
+        break;
+      case 'end':
+        if (!top.block) throw new TemplateError('# @end without a matching # @for or # @if', line);
+        stack.pop();
+        break;
+    }
+  });
+
+  const unclosed = stack[stack.length - 1].block;
+  if (unclosed) throw new TemplateError(`# @${unclosed.kind} is never closed with # @end`, unclosed.line);
+  return root;
+}
+
+function renderBlocks(blocks: Block[], scope: Scope, out: string[]) {
+  for (const block of blocks) {
+    switch (block.kind) {
+      case 'text':
+        out.push(substitute(block.text, scope, block.line));
+        break;
+      case 'for': {
+        const [start, stop] = rangeBounds(block.args, scope, block.line);
+        for (let i = start; i < stop; i++) renderBlocks(block.body, { ...scope, [block.variable]: i }, out);
+        break;
+      }
+      case 'if':
+        renderBlocks(evaluate(block.condition, scope, block.line) ? block.body : block.orelse, scope, out);
+        break;
+    }
+  }
+}
+
+/**
+ * Fill in a template's placeholders and directives. Throws TemplateError
+ * when a value is out of bounds or the template itself is malformed.
+ */
+export function renderTemplate(source: string, declarations: ParameterDeclarations, values: ParameterValues): string {
+  const errors = Object.entries(parameterErrors(declarations, values));
+  if (errors.length > 0) {
+    const [name, message] = errors[0];
+    throw new TemplateError(`${declarations[name].label ?? name}: ${message}`);
+  }
+  if (!isTemplate(source)) return source;
+
+  const scope: Scope = Object.fromEntries(Object.keys(declarations).map(name => [name, values[name]]));
+  const out: string[] = [];
+  renderBlocks(parseBlocks(source.split('\n')), scope, out);
+  return out.join('\n');
+}
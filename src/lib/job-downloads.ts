@@ -0,0 +1,37 @@
+import type { Json } from "@/integrations/supabase/types";
+import { generateResultsSVG, downloadSVG } from "@/lib/svg-generator";
+import { generateKrumpSVG, downloadKrumpSVG } from "@/lib/krump-svg-generator";
+import { readQuantumResult } from "@/lib/results/schema";
+
+// SVG exports of a finished job's results
+
+export interface DownloadableJob {
+  id: string;
+  results: Json | null;
+  backend_type: string;
+  shots: number | null;
+  created_at: string | null;
+}
+
+export const isKrumpResults = (results: Json | null) =>
+  typeof results === 'object' && results !== null && !Array.isArray(results)
+    && results.circuit === 'krump_choreography';
+
+const metadataFor = (job: DownloadableJob) => ({
+  backend_type: job.backend_type,
+  shots: job.shots,
+  created_at: job.created_at,
+  circuit: (job.results as { circuit?: string } | null)?.circuit,
+});
+
+export const downloadQuantumJobSVG = async (job: DownloadableJob) => {
+  if (!job.results) throw new Error('Job has no results');
+  const svg = await generateResultsSVG(readQuantumResult(job.results), metadataFor(job));
+  downloadSVG(svg, `quantum-job-${job.id.slice(0, 8)}-${Date.now()}.svg`);
+};
+
+export const downloadKrumpJobSVG = async (job: DownloadableJob) => {
+  if (!job.results) throw new Error('Job has no results');
+  const svg = await generateKrumpSVG(readQuantumResult(job.results), metadataFor(job));
+  downloadKrumpSVG(svg, `krump-choreography-${job.id.slice(0, 8)}-${Date.now()}.svg`);
+};
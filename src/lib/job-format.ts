@@ -0,0 +1,86 @@
+import type { Json, Tables } from "@/integrations/supabase/types";
+import { NOISE_RATES, type NoiseModel } from "@/lib/quantum/noise";
+import type { Circuit } from "@/lib/quantum/circuit";
+import { compileGuppy } from "@/lib/guppy/compile";
+
+// Display helpers for quantum_jobs rows
+
+type JobParameters = {
+  circuit_name?: string;
+  bindings?: Record<string, number | boolean>;
+  template_values?: Record<string, number | boolean>;
+  sweep_point?: Record<string, number>;
+  observable?: { run_id: string; hamiltonian: string; basis: string };
+  seed?: number | null;
+  noise_enabled?: boolean;
+  noise_params?: NoiseModel;
+};
+
+const parametersOf = (job: Pick<Tables<"quantum_jobs">, 'parameters'>) =>
+  (job.parameters ?? {}) as JobParameters;
+
+export const circuitName = (job: Pick<Tables<"quantum_jobs">, 'parameters'>) =>
+  parametersOf(job).circuit_name ?? null;
+
+// Seed the run used: recorded at submission, or reported by simulators for
+// jobs submitted before seeds were recorded
+export const jobSeed = (job: Pick<Tables<"quantum_jobs">, 'parameters' | 'results'>): number | null => {
+  const { seed } = parametersOf(job);
+  if (typeof seed === 'number') return seed;
+  const reported = (job.results as { seed?: Json } | null)?.seed;
+  return typeof reported === 'number' ? reported : null;
+};
+
+// The circuit a job ran, compiled again from its code and bindings, or null
+// when the code no longer compiles
+export const jobCircuit = (job: Pick<Tables<"quantum_jobs">, 'guppy_code' | 'parameters'>): Circuit | null => {
+  if (!job.guppy_code) return null;
+  try {
+    return compileGuppy(job.guppy_code, { bindings: parametersOf(job).bindings });
+  } catch {
+    return null;
+  }
+};
+
+export const jobNoise = (job: Pick<Tables<"quantum_jobs">, 'parameters'>): NoiseModel | null => {
+  const { noise_enabled, noise_params } = parametersOf(job);
+  return noise_enabled && noise_params ? noise_params : null;
+};
+
+// e.g. "Depolarizing 0.01, Readout 0→1 0.01 + 2 overrides"
+export const describeNoise = (model: NoiseModel | null) => {
+  if (!model) return 'None';
+  const rates = NOISE_RATES
+    .filter(({ key }) => model.defaults[key] > 0)
+    .map(({ key, label }) => `${label} ${model.defaults[key]}`);
+  const overrides = Object.keys(model.gates ?? {}).length + Object.keys(model.qubits ?? {}).length;
+  const summary = rates.length > 0 ? rates.join(', ') : 'No default rates';
+  return overrides > 0 ? `${summary} + ${overrides} override${overrides === 1 ? '' : 's'}` : summary;
+};
+
+// e.g. "theta=0.785, shots=1024"
+const describeValues = (values: Record<string, number | boolean> | undefined) =>
+  values && Object.keys(values).length > 0
+    ? Object.entries(values)
+      .map(([name, value]) => `${name}=${typeof value === 'number' && !Number.isInteger(value) ? value.toFixed(3) : value}`)
+      .join(', ')
+    : null;
+
+export const jobBindings = (job: Pick<Tables<"quantum_jobs">, 'parameters'>) =>
+  describeValues(parametersOf(job).bindings);
+
+export const jobTemplateValues = (job: Pick<Tables<"quantum_jobs">, 'parameters'>) =>
+  describeValues(parametersOf(job).template_values);
+
+export const jobSweepPoint = (job: Pick<Tables<"quantum_jobs">, 'parameters'>) =>
+  describeValues(parametersOf(job).sweep_point);
+
+// e.g. "XXI of 0.5 * ZZ + XX"
+export const jobObservableBasis = (job: Pick<Tables<"quantum_jobs">, 'parameters'>) => {
+  const { observable } = parametersOf(job);
+  return observable ? `${observable.basis} of ${observable.hamiltonian.trim().replace(/\s+/g, ' ')}` : null;
+};
+
+export const formatDuration = (ms: number | null) => (ms !== null ? `${(ms / 1000).toFixed(2)}s` : '—');
+
+export const formatDate = (date: string | null) => (date ? new Date(date).toLocaleString() : '—');
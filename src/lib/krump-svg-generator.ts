@@ -2,6 +2,7 @@ import { decodeKrumpResults, getEnergyLevel, getSuggestedRoutine } from './krump
 import ikfLogo from "@/assets/ikf-logo.png";
 import iyqLogoWhite from "@/assets/iyq-logo-white.png";
 import quantumKrumpLogo from "@/assets/quantum-krump-logo.png";
+import type { ResultsSummary } from "@/lib/svg-generator";
 
 export interface KrumpJobMetadata {
   circuit?: string;
@@ -63,7 +64,7 @@ const getEnergyEmoji = (energy: number): string => {
   }
 };
 
-export const generateKrumpSVG = async (results: any, jobMetadata?: KrumpJobMetadata): Promise<string> => {
+export const generateKrumpSVG = async (results: ResultsSummary, jobMetadata?: KrumpJobMetadata): Promise<string> => {
   const measurements = results.measurements || {};
   const probabilities = results.probabilities || {};
   const shots = results.shots || jobMetadata?.shots || 0;
@@ -0,0 +1,15 @@
+// Raised for OpenQASM programs that cannot be read and for circuits that
+// cannot be written as OpenQASM. `line` points into the source being
+// converted when it is known.
+
+export class QasmError extends Error {
+  readonly line: number | null;
+  readonly column: number | null;
+
+  constructor(message: string, line: number | null = null, column: number | null = null) {
+    super(message);
+    this.name = 'QasmError';
+    this.line = line;
+    this.column = column;
+  }
+}
@@ -0,0 +1,120 @@
+import type { GateName } from '../quantum/gates.ts';
+import type { Circuit, ClassicalCondition, Operation } from '../quantum/circuit.ts';
+import { QasmError } from './errors.ts';
+
+// Writes a compiled circuit as OpenQASM. Qubits live in a single register
+// `q`; every classical bit gets its own variable (a one-bit creg in 2.0) so
+// classically controlled corrections can test it directly.
+
+export type QasmVersion = '2.0' | '3.0';
+
+// Gate spellings in qelib1.inc and stdgates.inc
+const QASM2_GATES: Record<GateName, string> = {
+  id: 'id', h: 'h', x: 'x', y: 'y', z: 'z', s: 's', sdg: 'sdg', t: 't', tdg: 'tdg',
+  v: 'sx', vdg: 'sxdg', rx: 'rx', ry: 'ry', rz: 'rz', phase: 'u1',
+  cx: 'cx', cy: 'cy', cz: 'cz', ch: 'ch', crz: 'crz', swap: 'swap', ccx: 'ccx',
+};
+
+const QASM3_GATES: Record<GateName, string> = {
+  ...QASM2_GATES,
+  // stdgates.inc has no sxdg
+  vdg: 'inv @ sx',
+  phase: 'p',
+};
+
+const RESERVED = new Set([
+  'q', 'pi', 'U', 'CX', 'OPENQASM', 'include', 'qreg', 'creg', 'gate', 'opaque', 'measure', 'reset', 'barrier', 'if',
+  'qubit', 'bit', 'int', 'uint', 'float', 'angle', 'bool', 'const', 'def', 'return', 'for', 'while', 'in', 'else',
+  'let', 'input', 'output', 'box', 'delay', 'inv', 'pow', 'ctrl', 'negctrl', 'true', 'false', 'end', 'break', 'continue',
+  ...Object.values(QASM3_GATES), 'sxdg', 'u1', 'u2', 'u3', 'p', 'cp', 'crx', 'cry', 'cswap', 'cu', 'phase', 'cphase',
+]);
+
+// Express angles as simple multiples of pi where possible
+export function formatQasmAngle(theta: number): string {
+  if (theta === 0) return '0';
+  const ratio = theta / Math.PI;
+  for (const denominator of [1, 2, 3, 4, 6, 8, 16]) {
+    const numerator = Math.round(ratio * denominator);
+    if (numerator !== 0 && Math.abs(ratio * denominator - numerator) < 1e-9) {
+      const sign = numerator < 0 ? '-' : '';
+      const abs = Math.abs(numerator);
+      const top = abs === 1 ? 'pi' : `${abs}*pi`;
+      return denominator === 1 ? `${sign}${top}` : `${sign}${top}/${denominator}`;
+    }
+  }
+  return Number(theta.toPrecision(15)).toString();
+}
+
+const bitNames = (labels: string[]): string[] => {
+  const taken = new Set<string>();
+  return labels.map((label, i) => {
+    let name = label.replace(/[^A-Za-z0-9_]/g, '_');
+    // OpenQASM 2.0 identifiers must start with a lowercase letter
+    if (!/^[a-z]/.test(name) || RESERVED.has(name)) name = `c${i}_${name}`.replace(/_+$/, '');
+    while (taken.has(name)) name = `${name}_`;
+    taken.add(name);
+    return name;
+  });
+};
+
+const describe = (op: Operation) => (op.kind === 'gate' ? `${op.name}()` : `${op.kind}()`);
+
+export function exportQasm(circuit: Circuit, version: QasmVersion = '2.0'): string {
+  const bits = bitNames(circuit.clbitLabels);
+  const gates = version === '2.0' ? QASM2_GATES : QASM3_GATES;
+  const qubit = (index: number) => `q[${index}]`;
+
+  const fail = (op: Operation, message: string): never => {
+    throw new QasmError(`${describe(op)} ${message}`, op.line ?? null);
+  };
+
+  const condition = (op: Operation, cond: ClassicalCondition): string => {
+    const tests = cond.clbits.map((clbit, i) => `${bits[clbit]} == ${(cond.value >> i) & 1}`);
+    if (version === '3.0') return `if (${tests.join(' && ')}) `;
+    if (cond.clbits.length > 1) {
+      fail(op, `is conditioned on ${cond.clbits.length} measurement results; OpenQASM 2.0 can only test one classical register per if`);
+    }
+    return `if(${tests[0].replace(/ /g, '')}) `;
+  };
+
+  const instruction = (op: Operation): string => {
+    switch (op.kind) {
+      case 'gate': {
+        const params = op.params.length ? `(${op.params.map(formatQasmAngle).join(', ')})` : '';
+        return `${gates[op.name]}${params} ${op.qubits.map(qubit).join(', ')};`;
+      }
+      case 'measure':
+        return version === '3.0'
+          ? `${bits[op.clbit]} = measure ${qubit(op.qubit)};`
+          : `measure ${qubit(op.qubit)} -> ${bits[op.clbit]}[0];`;
+      case 'reset':
+        return `reset ${qubit(op.qubit)};`;
+      case 'barrier':
+        return `barrier ${op.qubits.map(qubit).join(', ')};`;
+    }
+  };
+
+  const lines: string[] = [];
+  if (version === '3.0') {
+    lines.push('OPENQASM 3.0;', 'include "stdgates.inc";', '');
+  } else {
+    lines.push('OPENQASM 2.0;', 'include "qelib1.inc";', '');
+  }
+  lines.push(`// ${circuit.name}`);
+  circuit.qubitLabels.forEach((label, i) => lines.push(`// ${qubit(i)}: ${label}`));
+  lines.push('');
+
+  lines.push(version === '3.0' ? `qubit[${circuit.numQubits}] q;` : `qreg q[${circuit.numQubits}];`);
+  for (const name of bits) lines.push(version === '3.0' ? `bit ${name};` : `creg ${name}[1];`);
+  lines.push('');
+
+  for (const op of circuit.operations) {
+    const cond = op.kind === 'barrier' ? undefined : op.condition;
+    lines.push(`${cond ? condition(op, cond) : ''}${instruction(op)}`);
+  }
+
+  if (circuit.outputs.length) {
+    lines.push('', `// Result bitstring, leftmost first: ${circuit.outputs.map(clbit => bits[clbit]).join(' ')}`);
+  }
+  return `${lines.join('\n')}\n`;
+}
@@ -0,0 +1,23 @@
+import { generateGuppy } from '../guppy/codegen.ts';
+import { QasmError } from './errors.ts';
+import { parseQasm, type ParsedQasm } from './parser.ts';
+
+// OpenQASM → Guppy source for the editor.
+
+export interface ImportedQasm extends ParsedQasm {
+  code: string;
+}
+
+export function importQasm(source: string, name = 'imported_circuit'): ImportedQasm {
+  const parsed = parseQasm(source, name);
+  try {
+    const code = generateGuppy(parsed.circuit, {
+      header: [`Imported from OpenQASM ${parsed.version}`],
+    });
+    return { ...parsed, code };
+  } catch (error) {
+    // The circuit is valid QASM but uses something Guppy cannot express
+    if (error instanceof Error) throw new QasmError(error.message);
+    throw error;
+  }
+}
@@ -0,0 +1,744 @@
+import type { GateName } from '../quantum/gates.ts';
+import type { Circuit, ClassicalCondition, GateOperation, Operation } from '../quantum/circuit.ts';
+import { QasmError } from './errors.ts';
+import type { QasmVersion } from './exporter.ts';
+
+// Reads OpenQASM 2.0 and 3.0 programs into the shared circuit
+// representation. Custom gates are expanded inline, standard gates outside
+// our gate set are decomposed, and `if` statements become conditions.
+
+interface Token {
+  type: 'id' | 'number' | 'string' | 'op' | 'eof';
+  value: string;
+  line: number;
+  column: number;
+}
+
+type Expr =
+  | { kind: 'number'; value: number }
+  | { kind: 'var'; name: string; token: Token }
+  | { kind: 'neg'; operand: Expr }
+  | { kind: 'binary'; op: string; left: Expr; right: Expr }
+  | { kind: 'call'; fn: string; arg: Expr; token: Token };
+
+interface Argument {
+  name: string;
+  index: number | null;
+  token: Token;
+}
+
+interface GateCall {
+  name: string;
+  inverse: boolean;
+  params: Expr[];
+  args: Argument[];
+  token: Token;
+}
+
+interface GateDefinition {
+  params: string[];
+  qubits: string[];
+  body: GateCall[];
+}
+
+interface Register {
+  start: number;
+  size: number;
+}
+
+export interface ParsedQasm {
+  version: QasmVersion;
+  circuit: Circuit;
+}
+
+const OPERATORS = ['->', '==', '!=', '&&', '||', '<=', '>=', '**', ';', ',', '(', ')', '[', ']', '{', '}', '+', '-', '*', '/', '^', '=', '@', '!', '<', '>', ':'];
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, 'π': Math.PI, tau: 2 * Math.PI, 'τ': 2 * Math.PI, euler: Math.E, 'ℯ': Math.E };
+
+const FUNCTIONS: Record<string, (x: number) => number> = {
+  sin: Math.sin, cos: Math.cos, tan: Math.tan, asin: Math.asin, acos: Math.acos, atan: Math.atan,
+  exp: Math.exp, ln: Math.log, sqrt: Math.sqrt,
+};
+
+const UNSUPPORTED = new Set([
+  'opaque', 'for', 'while', 'def', 'defcal', 'cal', 'box', 'delay', 'input', 'output', 'const',
+  'int', 'uint', 'float', 'angle', 'bool', 'complex', 'let', 'extern', 'switch', 'break', 'continue', 'return',
+]);
+
+const INVERSES: Partial<Record<GateName, GateName>> = { s: 'sdg', sdg: 's', t: 'tdg', tdg: 't', v: 'vdg', vdg: 'v' };
+
+const PARAMETRIC: GateName[] = ['rx', 'ry', 'rz', 'phase', 'crz'];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  while (offset < source.length) {
+    const rest = source.slice(offset);
+    const ch = source[offset];
+
+    if (/\s/.test(ch)) {
+      advance(1);
+      continue;
+    }
+    if (rest.startsWith('//')) {
+      const end = rest.indexOf('\n');
+      advance(end === -1 ? rest.length : end);
+      continue;
+    }
+    if (rest.startsWith('/*')) {
+      const end = rest.indexOf('*/');
+      if (end === -1) throw new QasmError('Unterminated block comment', line, column);
+      advance(end + 2);
+      continue;
+    }
+
+    const start = { line, column };
+    const identifier = /^[A-Za-z_À-￿][A-Za-z0-9_À-￿]*/.exec(rest);
+    if (identifier) {
+      tokens.push({ type: 'id', value: identifier[0], ...start });
+      advance(identifier[0].length);
+      continue;
+    }
+    const number = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(rest);
+    if (number) {
+      tokens.push({ type: 'number', value: number[0], ...start });
+      advance(number[0].length);
+      continue;
+    }
+    if (ch === '"' || ch === "'") {
+      const end = source.indexOf(ch, offset + 1);
+      if (end === -1) throw new QasmError('Unterminated string', line, column);
+      tokens.push({ type: 'string', value: source.slice(offset + 1, end), ...start });
+      advance(end - offset + 1);
+      continue;
+    }
+    const op = OPERATORS.find(candidate => rest.startsWith(candidate));
+    if (op) {
+      tokens.push({ type: 'op', value: op, ...start });
+      advance(op.length);
+      continue;
+    }
+    throw new QasmError(`Unexpected character "${ch}"`, line, column);
+  }
+
+  tokens.push({ type: 'eof', value: '', line, column });
+  return tokens;
+}
+
+// Drop zero-angle rotations left over from decompositions
+const nonTrivial = (op: GateOperation) => op.params.length === 0 || op.params.some(p => p !== 0);
+
+const inverseOperation = (op: GateOperation): GateOperation => {
+  if (PARAMETRIC.includes(op.name)) return { ...op, params: op.params.map(p => -p) };
+  return { ...op, name: INVERSES[op.name] ?? op.name };
+};
+
+export function parseQasm(source: string, name = 'imported_circuit'): ParsedQasm {
+  const tokens = tokenize(source);
+  let pos = 0;
+  let version: QasmVersion = '3.0';
+
+  const qregs = new Map<string, Register>();
+  const cregs = new Map<string, Register>();
+  const gates = new Map<string, GateDefinition>();
+  const qubitLabels: string[] = [];
+  const clbitLabels: string[] = [];
+  const operations: Operation[] = [];
+  // Classical bits that a measurement has written so far
+  const written = new Set<number>();
+
+  const peek = (ahead = 0) => tokens[Math.min(pos + ahead, tokens.length - 1)];
+  const next = () => tokens[pos++];
+  const is = (value: string, token = peek()) => (token.type === 'op' || token.type === 'id') && token.value === value;
+
+  const fail = (message: string, token = peek()): never => {
+    throw new QasmError(message, token.line, token.column);
+  };
+
+  const describe = (token: Token) => (token.type === 'eof' ? 'end of file' : `"${token.value}"`);
+
+  const expect = (value: string): Token => {
+    if (!is(value)) fail(`Expected "${value}" but found ${describe(peek())}`);
+    return next();
+  };
+
+  const expectId = (what: string): Token => {
+    if (peek().type !== 'id') fail(`Expected ${what} but found ${describe(peek())}`);
+    return next();
+  };
+
+  const expectInteger = (): number => {
+    const token = peek();
+    if (token.type !== 'number' || !/^\d+$/.test(token.value)) fail(`Expected an integer but found ${describe(token)}`);
+    return Number(next().value);
+  };
+
+  // ---- Expressions ----
+
+  const parseAtom = (): Expr => {
+    const token = peek();
+    if (token.type === 'number') {
+      next();
+      return { kind: 'number', value: Number(token.value) };
+    }
+    if (is('(')) {
+      next();
+      const expr = parseExpr();
+      expect(')');
+      return expr;
+    }
+    if (token.type === 'id') {
+      next();
+      if (token.value in FUNCTIONS && is('(')) {
+        next();
+        const arg = parseExpr();
+        expect(')');
+        return { kind: 'call', fn: token.value, arg, token };
+      }
+      return { kind: 'var', name: token.value, token };
+    }
+    return fail(`Unexpected ${describe(token)} in expression`);
+  };
+
+  const parsePower = (): Expr => {
+    const base = parseAtom();
+    if (!is('^') && !is('**')) return base;
+    next();
+    return { kind: 'binary', op: '^', left: base, right: parseUnary() };
+  };
+
+  const parseUnary = (): Expr => {
+    if (is('-')) {
+      next();
+      return { kind: 'neg', operand: parseUnary() };
+    }
+    if (is('+')) next();
+    return parsePower();
+  };
+
+  const parseTerm = (): Expr => {
+    let left = parseUnary();
+    while (is('*') || is('/')) {
+      const op = next().value;
+      left = { kind: 'binary', op, left, right: parseUnary() };
+    }
+    return left;
+  };
+
+  function parseExpr(): Expr {
+    let left = parseTerm();
+    while (is('+') || is('-')) {
+      const op = next().value;
+      left = { kind: 'binary', op, left, right: parseTerm() };
+    }
+    return left;
+  }
+
+  const evaluate = (expr: Expr, env: Map<string, number>): number => {
+    switch (expr.kind) {
+      case 'number':
+        return expr.value;
+      case 'var': {
+        const value = env.get(expr.name) ?? CONSTANTS[expr.name];
+        if (value === undefined) fail(`Unknown parameter "${expr.name}"`, expr.token);
+        return value;
+      }
+      case 'neg':
+        return -evaluate(expr.operand, env);
+      case 'call':
+        return FUNCTIONS[expr.fn](evaluate(expr.arg, env));
+      case 'binary': {
+        const a = evaluate(expr.left, env);
+        const b = evaluate(expr.right, env);
+        switch (expr.op) {
+          case '+': return a + b;
+          case '-': return a - b;
+          case '*': return a * b;
+          case '/': return a / b;
+          default: return a ** b;
+        }
+      }
+    }
+  };
+
+  // ---- Gate calls ----
+
+  const parseArgument = (): Argument => {
+    const token = expectId('a register name');
+    let index: number | null = null;
+    if (is('[')) {
+      next();
+      index = expectInteger();
+      expect(']');
+    }
+    return { name: token.value, index, token };
+  };
+
+  const parseArguments = (): Argument[] => {
+    const args = [parseArgument()];
+    while (is(',')) {
+      next();
+      args.push(parseArgument());
+    }
+    return args;
+  };
+
+  const parseGateCall = (): GateCall => {
+    let inverse = false;
+    // Modifiers such as `inv @ sx q[0];`
+    while (peek(1).type === 'op' && (peek(1).value === '@' || (is('pow') && peek(1).value === '('))) {
+      const modifier = next();
+      if (modifier.value !== 'inv') fail(`The "${modifier.value}" gate modifier is not supported`, modifier);
+      expect('@');
+      inverse = !inverse;
+    }
+    const token = expectId('a gate name');
+    const params: Expr[] = [];
+    if (is('(')) {
+      next();
+      while (!is(')')) {
+        params.push(parseExpr());
+        if (!is(',')) break;
+        next();
+      }
+      expect(')');
+    }
+    const args = parseArguments();
+    expect(';');
+    return { name: token.value, inverse, params, args, token };
+  };
+
+  // Lower one gate application on concrete qubits to gate operations
+  const expandGate = (call: GateCall, params: number[], qubits: number[]): GateOperation[] => {
+    const { name, token } = call;
+    const line = token.line;
+    const op = (gate: GateName, targets: number[], angles: number[] = []): GateOperation =>
+      ({ kind: 'gate', name: gate, qubits: targets, params: angles, line });
+
+    const arity = (count: number, paramCount: number) => {
+      if (qubits.length !== count) fail(`${name} takes ${count} qubit(s), got ${qubits.length}`, token);
+      if (params.length !== paramCount) fail(`${name} takes ${paramCount} parameter(s), got ${params.length}`, token);
+    };
+
+    const custom = gates.get(name);
+    if (custom) {
+      arity(custom.qubits.length, custom.params.length);
+      const env = new Map(custom.params.map((param, i) => [param, params[i]]));
+      const wires = new Map(custom.qubits.map((qubit, i) => [qubit, qubits[i]]));
+      return custom.body.flatMap(inner => {
+        const innerQubits = inner.args.map(arg => {
+          const wire = wires.get(arg.name);
+          if (wire === undefined || arg.index !== null) fail(`Unknown qubit "${arg.name}" in gate ${name}`, arg.token);
+          return wire;
+        });
+        const innerOps = expandGate(inner, inner.params.map(p => evaluate(p, env)), innerQubits);
+        return inner.inverse ? innerOps.reverse().map(inverseOperation) : innerOps;
+      });
+    }
+
+    const [a, b, c] = qubits;
+    switch (name) {
+      case 'id': case 'x': case 'y': case 'z': case 'h': case 's': case 'sdg': case 't': case 'tdg':
+        arity(1, 0);
+        return [op(name, [a])];
+      case 'u0':
+        arity(1, 1);
+        return [op('id', [a])];
+      case 'sx':
+      case 'sxdg':
+        arity(1, 0);
+        return [op(name === 'sx' ? 'v' : 'vdg', [a])];
+      case 'rx': case 'ry': case 'rz':
+        arity(1, 1);
+        return [op(name, [a], params)];
+      case 'p': case 'phase': case 'u1':
+        arity(1, 1);
+        return [op('phase', [a], params)];
+      case 'U': case 'u': case 'u3': {
+        // U(θ, φ, λ) = Rz(φ)·Ry(θ)·Rz(λ) up to a global phase
+        arity(1, 3);
+        const [theta, phi, lambda] = params;
+        return [op('rz', [a], [lambda]), op('ry', [a], [theta]), op('rz', [a], [phi])].filter(nonTrivial);
+      }
+      case 'u2': {
+        arity(1, 2);
+        const [phi, lambda] = params;
+        return [op('rz', [a], [lambda]), op('ry', [a], [Math.PI / 2]), op('rz', [a], [phi])].filter(nonTrivial);
+      }
+      case 'CX': case 'cx': case 'cy': case 'cz': case 'ch': case 'swap':
+        arity(2, 0);
+        return [op(name === 'CX' ? 'cx' : name, [a, b])];
+      case 'crz':
+        arity(2, 1);
+        return [op('crz', [a, b], params)];
+      case 'cp': case 'cphase': case 'cu1': {
+        arity(2, 1);
+        const [lambda] = params;
+        return [
+          op('phase', [a], [lambda / 2]),
+          op('cx', [a, b]),
+          op('phase', [b], [-lambda / 2]),
+          op('cx', [a, b]),
+          op('phase', [b], [lambda / 2]),
+        ];
+      }
+      case 'crx': {
+        arity(2, 1);
+        const [theta] = params;
+        return [
+          op('phase', [b], [Math.PI / 2]),
+          op('cx', [a, b]),
+          op('ry', [b], [-theta / 2]),
+          op('cx', [a, b]),
+          op('ry', [b], [theta / 2]),
+          op('rz', [b], [-Math.PI / 2]),
+        ];
+      }
+      case 'cry': {
+        arity(2, 1);
+        const [theta] = params;
+        return [op('ry', [b], [theta / 2]), op('cx', [a, b]), op('ry', [b], [-theta / 2]), op('cx', [a, b])];
+      }
+      case 'ccx':
+        arity(3, 0);
+        return [op('ccx', [a, b, c])];
+      case 'cswap':
+        arity(3, 0);
+        return [op('cx', [c, b]), op('ccx', [a, b, c]), op('cx', [c, b])];
+      default:
+        return fail(`Unknown gate "${name}"`, token);
+    }
+  };
+
+  // ---- Registers ----
+
+  const declare = (registers: Map<string, Register>, labels: string[], token: Token, size: number) => {
+    if (qregs.has(token.value) || cregs.has(token.value)) fail(`"${token.value}" is already declared`, token);
+    if (size < 1) fail(`Register "${token.value}" must have at least one bit`, token);
+    registers.set(token.value, { start: labels.length, size });
+    for (let i = 0; i < size; i++) labels.push(size === 1 ? token.value : `${token.value}${i}`);
+  };
+
+  const resolve = (arg: Argument, registers: Map<string, Register>, what: string): number[] => {
+    const register = registers.get(arg.name);
+    if (!register) fail(`Unknown ${what} register "${arg.name}"`, arg.token);
+    if (arg.index === null) return Array.from({ length: register.size }, (_, i) => register.start + i);
+    if (arg.index >= register.size) fail(`Index ${arg.index} is out of range for ${arg.name}[${register.size}]`, arg.token);
+    return [register.start + arg.index];
+  };
+
+  // Apply an operation to whole registers element by element
+  const broadcast = (lists: number[][], token: Token, apply: (indices: number[]) => void) => {
+    const size = Math.max(...lists.map(list => list.length));
+    if (lists.some(list => list.length !== 1 && list.length !== size)) fail('Register sizes do not match', token);
+    for (let i = 0; i < size; i++) apply(lists.map(list => (list.length === 1 ? list[0] : list[i])));
+  };
+
+  // ---- Conditions ----
+
+  type Guard = Map<number, 0 | 1> | null;
+
+  const guardCondition = (guard: Map<number, 0 | 1>): ClassicalCondition | undefined | null => {
+    // Bits nobody has measured yet read as 0
+    const live = new Map<number, 0 | 1>();
+    for (const [clbit, value] of guard) {
+      if (written.has(clbit)) live.set(clbit, value);
+      else if (value === 1) return null;
+    }
+    if (live.size === 0) return undefined;
+    const clbits = [...live.keys()];
+    return { clbits, value: clbits.reduce((acc, clbit, i) => acc | (live.get(clbit)! << i), 0) };
+  };
+
+  const emit = (op: Operation, guard: Map<number, 0 | 1>) => {
+    const condition = guardCondition(guard);
+    if (condition === null) return;
+    if (condition && op.kind !== 'barrier') op.condition = condition;
+    operations.push(op);
+  };
+
+  const mergeGuards = (outer: Map<number, 0 | 1>, inner: Map<number, 0 | 1>): Guard => {
+    const merged = new Map(outer);
+    for (const [clbit, value] of inner) {
+      if (merged.has(clbit) && merged.get(clbit) !== value) return null;
+      merged.set(clbit, value);
+    }
+    return merged;
+  };
+
+  const parseTestTerm = (): Map<number, 0 | 1> => {
+    let negate = false;
+    while (is('!')) {
+      next();
+      negate = !negate;
+    }
+    const arg = parseArgument();
+    const clbits = resolve(arg, cregs, 'classical');
+    let value = 1;
+    if (is('==') || is('!=')) {
+      const op = next().value;
+      if (is('true') || is('false')) {
+        value = next().value === 'true' ? 1 : 0;
+      } else {
+        value = expectInteger();
+      }
+      if (op === '!=') {
+        if (clbits.length !== 1) fail('"!=" is only supported on single bits', arg.token);
+        value = 1 - value;
+      }
+    } else if (clbits.length !== 1) {
+      fail(`Compare register "${arg.name}" with an integer`, arg.token);
+    }
+    if (negate) {
+      if (clbits.length !== 1) fail('"!" is only supported on single bits', arg.token);
+      value = 1 - value;
+    }
+    if (value >= 2 ** clbits.length) fail(`${value} does not fit in ${arg.name}`, arg.token);
+    return new Map(clbits.map((clbit, i) => [clbit, ((value >> i) & 1) as 0 | 1]));
+  };
+
+  const parseTest = (): Map<number, 0 | 1> | null => {
+    let test: Map<number, 0 | 1> | null = parseTestTerm();
+    while (is('&&')) {
+      next();
+      const term = parseTestTerm();
+      test = test && mergeGuards(test, term);
+    }
+    return test;
+  };
+
+  // ---- Statements ----
+
+  const parseMeasureTarget = (): { qubits: number[]; token: Token } => {
+    const arg = parseArgument();
+    return { qubits: resolve(arg, qregs, 'quantum'), token: arg.token };
+  };
+
+  const measure = (qubits: number[], clbits: number[], token: Token, guard: Map<number, 0 | 1>) => {
+    if (qubits.length !== clbits.length) fail('measure needs registers of the same size', token);
+    qubits.forEach((qubit, i) => {
+      emit({ kind: 'measure', qubit, clbit: clbits[i], line: token.line }, guard);
+      written.add(clbits[i]);
+    });
+  };
+
+  const parseBody = (guard: Guard) => {
+    if (is('{')) {
+      next();
+      while (!is('}')) {
+        if (peek().type === 'eof') fail('Expected "}"');
+        parseStatement(guard);
+      }
+      next();
+    } else {
+      parseStatement(guard);
+    }
+  };
+
+  const parseGateDefinition = () => {
+    next();
+    const name = expectId('a gate name');
+    if (gates.has(name.value)) fail(`Gate "${name.value}" is already defined`, name);
+    const params: string[] = [];
+    if (is('(')) {
+      next();
+      while (!is(')')) {
+        params.push(expectId('a parameter name').value);
+        if (!is(',')) break;
+        next();
+      }
+      expect(')');
+    }
+    const qubits = [expectId('a qubit name').value];
+    while (is(',')) {
+      next();
+      qubits.push(expectId('a qubit name').value);
+    }
+    expect('{');
+    const body: GateCall[] = [];
+    while (!is('}')) {
+      if (peek().type === 'eof') fail('Expected "}"');
+      if (is('barrier')) {
+        // Barriers inside gate bodies carry no meaning once the gate is inlined
+        while (!is(';')) next();
+        next();
+        continue;
+      }
+      body.push(parseGateCall());
+    }
+    next();
+    gates.set(name.value, { params, qubits, body });
+  };
+
+  function parseStatement(guard: Guard) {
+    const token = peek();
+    // An unreachable branch (guard null) is parsed but emits nothing
+    const emitIf = (op: Operation) => {
+      if (guard) emit(op, guard);
+    };
+
+    if (token.type !== 'id') fail(`Unexpected ${describe(token)}`);
+
+    if (UNSUPPORTED.has(token.value)) fail(`"${token.value}" is not supported`);
+
+    switch (token.value) {
+      case 'OPENQASM':
+      case 'include':
+        return fail(`"${token.value}" must appear at the top of the program`);
+      case 'gate':
+        if (guard === null || guard.size) fail('Gate definitions must be at the top level');
+        return parseGateDefinition();
+      case 'qreg':
+      case 'creg': {
+        next();
+        const name = expectId('a register name');
+        expect('[');
+        const size = expectInteger();
+        expect(']');
+        expect(';');
+        if (token.value === 'qreg') declare(qregs, qubitLabels, name, size);
+        else declare(cregs, clbitLabels, name, size);
+        return;
+      }
+      case 'qubit':
+      case 'bit': {
+        next();
+        let size = 1;
+        if (is('[')) {
+          next();
+          size = expectInteger();
+          expect(']');
+        }
+        const name = expectId('a register name');
+        if (token.value === 'qubit') {
+          declare(qregs, qubitLabels, name, size);
+          expect(';');
+          return;
+        }
+        declare(cregs, clbitLabels, name, size);
+        if (is('=')) {
+          next();
+          expect('measure');
+          const { qubits, token: at } = parseMeasureTarget();
+          if (guard) measure(qubits, resolve({ name: name.value, index: null, token: name }, cregs, 'classical'), at, guard);
+        }
+        expect(';');
+        return;
+      }
+      case 'measure': {
+        next();
+        const { qubits, token: at } = parseMeasureTarget();
+        expect('->');
+        const clbits = resolve(parseArgument(), cregs, 'classical');
+        expect(';');
+        if (guard) measure(qubits, clbits, at, guard);
+        return;
+      }
+      case 'reset': {
+        next();
+        const { qubits } = parseMeasureTarget();
+        expect(';');
+        qubits.forEach(qubit => emitIf({ kind: 'reset', qubit, line: token.line }));
+        return;
+      }
+      case 'barrier': {
+        next();
+        let qubits: number[];
+        if (is(';')) {
+          qubits = qubitLabels.map((_, i) => i);
+        } else {
+          qubits = parseArguments().flatMap(arg => resolve(arg, qregs, 'quantum'));
+        }
+        expect(';');
+        if (qubits.length) emitIf({ kind: 'barrier', qubits: [...new Set(qubits)], line: token.line });
+        return;
+      }
+      case 'if': {
+        next();
+        expect('(');
+        const test = parseTest();
+        expect(')');
+        const single = test && test.size === 1 ? [...test][0] : null;
+        parseBody(guard && test ? mergeGuards(guard, test) : null);
+        if (is('else')) {
+          const elseToken = next();
+          if (test && !single) fail('else is only supported after single-bit conditions', elseToken);
+          const negated = single ? new Map<number, 0 | 1>([[single[0], single[1] === 1 ? 0 : 1]]) : null;
+          parseBody(guard && negated ? mergeGuards(guard, negated) : null);
+        }
+        return;
+      }
+    }
+
+    // `c[0] = measure q[0];`
+    if (peek(1).value === '=' || (peek(1).value === '[' && peek(4).value === '=')) {
+      const target = parseArgument();
+      expect('=');
+      expect('measure');
+      const { qubits, token: at } = parseMeasureTarget();
+      expect(';');
+      if (guard) measure(qubits, resolve(target, cregs, 'classical'), at, guard);
+      return;
+    }
+
+    const call = parseGateCall();
+    const params = call.params.map(p => evaluate(p, new Map()));
+    const lists = call.args.map(arg => resolve(arg, qregs, 'quantum'));
+    broadcast(lists, call.token, qubits => {
+      if (new Set(qubits).size !== qubits.length) fail(`${call.name} is applied to the same qubit twice`, call.token);
+      const ops = expandGate(call, params, qubits);
+      for (const op of call.inverse ? ops.reverse().map(inverseOperation) : ops) emitIf(op);
+    });
+  }
+
+  // Header
+  if (is('OPENQASM')) {
+    next();
+    const token = peek();
+    if (token.type !== 'number') fail('Expected a version number after OPENQASM');
+    next();
+    if (token.value.startsWith('2')) version = '2.0';
+    else if (token.value.startsWith('3')) version = '3.0';
+    else fail(`OpenQASM ${token.value} is not supported`, token);
+    expect(';');
+  }
+  while (is('include')) {
+    next();
+    if (peek().type !== 'string') fail('Expected a file name after include');
+    const file = next();
+    if (file.value !== 'qelib1.inc' && file.value !== 'stdgates.inc') {
+      fail(`Cannot include "${file.value}"; paste its gate definitions into the program instead`, file);
+    }
+    expect(';');
+  }
+
+  while (peek().type !== 'eof') parseStatement(new Map());
+
+  if (qubitLabels.length === 0) fail('The program declares no qubits');
+
+  const circuit: Circuit = {
+    name,
+    numQubits: qubitLabels.length,
+    qubitLabels,
+    clbitLabels,
+    // Every classical bit that holds a measurement, in declaration order
+    outputs: clbitLabels.map((_, i) => i).filter(clbit => written.has(clbit)),
+    operations,
+  };
+  return { version, circuit };
+}
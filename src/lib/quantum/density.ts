@@ -0,0 +1,329 @@
+import { GATES, type GateName, type Matrix2 } from './gates.ts';
+import { conditionHolds, outputBits, type Circuit, type Operation } from './circuit.ts';
+import { gateNoise, readoutNoise, type NoiseModel, type NoiseRates } from './noise.ts';
+import { createRng, randomSeed } from './random.ts';
+import {
+  applyMatrix,
+  applySwap,
+  bitstringFromBits,
+  countsToResult,
+  sampleCumulative,
+  shotSequence,
+  type SimulationOptions,
+  type SimulationProgress,
+  type SimulationResult,
+  type Statevector,
+} from './statevector.ts';
+
+// Density-matrix simulator. ρ is stored row-major with entry (row, col) at
+// index row * 2^n + col, which makes it a 2n-qubit "statevector": the column
+// index supplies qubits 0..n-1 and the row index qubits n..2n-1. A gate U
+// becomes U on the row qubits and conj(U) on the column qubits, so the
+// statevector kernels do all the work.
+
+export const MAX_DENSITY_QUBITS = 10;
+
+export interface DensityMatrix {
+  numQubits: number;
+  re: Float64Array;
+  im: Float64Array;
+}
+
+export interface DensityOptions extends SimulationOptions {
+  noise?: NoiseModel;
+}
+
+const EPSILON = 1e-12;
+
+// The density matrix viewed as a statevector over 2n qubits
+const asVector = (rho: DensityMatrix): Statevector =>
+  ({ numQubits: 2 * rho.numQubits, re: rho.re, im: rho.im });
+
+const conj = (m: Matrix2): Matrix2 => m.map(([re, im]) => [re, -im]) as Matrix2;
+
+const scaled = (m: Matrix2, factor: number): Matrix2 =>
+  m.map(([re, im]) => [re * factor, im * factor]) as Matrix2;
+
+export function createDensityMatrix(numQubits: number): DensityMatrix {
+  if (numQubits > MAX_DENSITY_QUBITS) {
+    throw new Error(
+      `Circuit uses ${numQubits} qubits; the density-matrix simulator supports at most ${MAX_DENSITY_QUBITS}`
+    );
+  }
+  const size = 1 << (2 * numQubits);
+  const rho = { numQubits, re: new Float64Array(size), im: new Float64Array(size) };
+  rho.re[0] = 1;
+  return rho;
+}
+
+export function cloneDensityMatrix(rho: DensityMatrix): DensityMatrix {
+  return { numQubits: rho.numQubits, re: rho.re.slice(), im: rho.im.slice() };
+}
+
+export function trace(rho: DensityMatrix): number {
+  const dim = 1 << rho.numQubits;
+  let total = 0;
+  for (let i = 0; i < dim; i++) total += rho.re[i * dim + i];
+  return total;
+}
+
+export function diagonal(rho: DensityMatrix): Float64Array {
+  const dim = 1 << rho.numQubits;
+  const probs = new Float64Array(dim);
+  for (let i = 0; i < dim; i++) probs[i] = Math.max(0, rho.re[i * dim + i]);
+  return probs;
+}
+
+// ρ → U ρ U†
+export function applyGateToDensity(rho: DensityMatrix, name: GateName, qubits: number[], params: number[] = []) {
+  const gate = GATES[name];
+  if (qubits.length !== gate.numQubits) {
+    throw new Error(`Gate ${name} expects ${gate.numQubits} qubit(s), got ${qubits.length}`);
+  }
+  if (new Set(qubits).size !== qubits.length) {
+    throw new Error(`Gate ${name} applied to the same qubit more than once`);
+  }
+
+  const n = rho.numQubits;
+  const vector = asVector(rho);
+  if (!gate.matrix) {
+    applySwap(vector, qubits[0] + n, qubits[1] + n);
+    applySwap(vector, qubits[0], qubits[1]);
+    return;
+  }
+
+  let controlMask = 0;
+  for (let k = 0; k < gate.controls; k++) controlMask |= 1 << qubits[k];
+  const target = qubits[gate.controls];
+  const m = gate.matrix(params);
+  applyMatrix(vector, target + n, m, controlMask << n);
+  applyMatrix(vector, target, conj(m), controlMask);
+}
+
+// ρ → Σ K ρ K† for single-qubit Kraus operators K
+export function applyKraus(rho: DensityMatrix, qubit: number, kraus: Matrix2[]) {
+  const n = rho.numQubits;
+  const re = new Float64Array(rho.re.length);
+  const im = new Float64Array(rho.im.length);
+  for (const k of kraus) {
+    const term = cloneDensityMatrix(rho);
+    applyMatrix(asVector(term), qubit + n, k);
+    applyMatrix(asVector(term), qubit, conj(k));
+    for (let i = 0; i < re.length; i++) {
+      re[i] += term.re[i];
+      im[i] += term.im[i];
+    }
+  }
+  rho.re.set(re);
+  rho.im.set(im);
+}
+
+const I: Matrix2 = [[1, 0], [0, 0], [0, 0], [1, 0]];
+const X: Matrix2 = [[0, 0], [1, 0], [1, 0], [0, 0]];
+const Y: Matrix2 = [[0, 0], [0, -1], [0, 1], [0, 0]];
+const Z: Matrix2 = [[1, 0], [0, 0], [0, 0], [-1, 0]];
+
+// Kraus operators for each channel at rate p
+export const KRAUS: Record<Exclude<keyof NoiseRates, 'readout01' | 'readout10'>, (p: number) => Matrix2[]> = {
+  depolarizing: (p) => [scaled(I, Math.sqrt(1 - p)), ...[X, Y, Z].map(m => scaled(m, Math.sqrt(p / 3)))],
+  amplitudeDamping: (g) => [
+    [[1, 0], [0, 0], [0, 0], [Math.sqrt(1 - g), 0]],
+    [[0, 0], [Math.sqrt(g), 0], [0, 0], [0, 0]],
+  ],
+  phaseDamping: (l) => [
+    [[1, 0], [0, 0], [0, 0], [Math.sqrt(1 - l), 0]],
+    [[0, 0], [0, 0], [0, 0], [Math.sqrt(l), 0]],
+  ],
+  bitFlip: (p) => [scaled(I, Math.sqrt(1 - p)), scaled(X, Math.sqrt(p))],
+  phaseFlip: (p) => [scaled(I, Math.sqrt(1 - p)), scaled(Z, Math.sqrt(p))],
+};
+
+export function applyGateNoise(rho: DensityMatrix, rates: NoiseRates, qubit: number) {
+  for (const channel of Object.keys(KRAUS) as (keyof typeof KRAUS)[]) {
+    if (rates[channel] > 0) applyKraus(rho, qubit, KRAUS[channel](rates[channel]));
+  }
+}
+
+// Zero every entry whose row or column disagrees with `outcome` on `qubit`
+function project(rho: DensityMatrix, qubit: number, outcome: 0 | 1) {
+  const rowShift = qubit + rho.numQubits;
+  for (let i = 0; i < rho.re.length; i++) {
+    if (((i >> rowShift) & 1) !== outcome || ((i >> qubit) & 1) !== outcome) {
+      rho.re[i] = 0;
+      rho.im[i] = 0;
+    }
+  }
+}
+
+function scale(rho: DensityMatrix, factor: number) {
+  for (let i = 0; i < rho.re.length; i++) {
+    rho.re[i] *= factor;
+    rho.im[i] *= factor;
+  }
+}
+
+function addInto(target: DensityMatrix, source: DensityMatrix) {
+  for (let i = 0; i < target.re.length; i++) {
+    target.re[i] += source.re[i];
+    target.im[i] += source.im[i];
+  }
+}
+
+// |0⟩⟨0| + |0⟩⟨1| Kraus pair: resets without recording an outcome
+const RESET_KRAUS: Matrix2[] = [
+  [[1, 0], [0, 0], [0, 0], [0, 0]],
+  [[0, 0], [1, 0], [0, 0], [0, 0]],
+];
+
+// An unnormalised ρ for one record of classical bits; its trace is the
+// probability of that record.
+interface Branch {
+  bits: Uint8Array;
+  rho: DensityMatrix;
+}
+
+// Index where the trailing block of unconditional measurements on distinct
+// qubits begins. Those are read off the final diagonal instead of branching.
+function trailingMeasurementsStart(operations: Operation[]): number {
+  const measured = new Set<number>();
+  let start = operations.length;
+  for (let i = operations.length - 1; i >= 0; i--) {
+    const op = operations[i];
+    if (op.kind === 'barrier') continue;
+    if (op.kind !== 'measure' || op.condition || measured.has(op.qubit)) break;
+    measured.add(op.qubit);
+    start = i;
+  }
+  return start;
+}
+
+/**
+ * Exact distribution of result bitstrings, including noise and readout
+ * error. Mid-circuit measurements split the ensemble into branches keyed by
+ * the recorded bits, so classically controlled operations see the (possibly
+ * misread) values a real device would.
+ */
+export function densityDistribution(
+  circuit: Circuit,
+  noise?: NoiseModel,
+  onProgress?: (progress: SimulationProgress) => void
+): Map<string, number> {
+  const ops = circuit.operations;
+  const start = trailingMeasurementsStart(ops);
+  let branches = new Map<string, Branch>([
+    ['', { bits: new Uint8Array(circuit.clbitLabels.length), rho: createDensityMatrix(circuit.numQubits) }],
+  ]);
+
+  for (let i = 0; i < start; i++) {
+    const op = ops[i];
+    onProgress?.({ stage: 'gates', completed: i, total: start });
+    if (op.kind === 'barrier') continue;
+
+    if (op.kind === 'measure') {
+      const next = new Map<string, Branch>();
+      const { readout01, readout10 } = noise ? readoutNoise(noise, op.qubit) : { readout01: 0, readout10: 0 };
+      for (const branch of branches.values()) {
+        if (op.condition && !conditionHolds(op.condition, branch.bits)) {
+          next.set(branch.bits.join(''), branch);
+          continue;
+        }
+        for (const outcome of [0, 1] as const) {
+          const collapsed = cloneDensityMatrix(branch.rho);
+          project(collapsed, op.qubit, outcome);
+          if (trace(collapsed) < EPSILON) continue;
+
+          const flip = outcome === 0 ? readout01 : readout10;
+          for (const recorded of [0, 1]) {
+            const weight = recorded === outcome ? 1 - flip : flip;
+            if (weight < EPSILON) continue;
+            const bits = branch.bits.slice();
+            bits[op.clbit] = recorded;
+            const rho = cloneDensityMatrix(collapsed);
+            scale(rho, weight);
+            const key = bits.join('');
+            const existing = next.get(key);
+            if (existing) addInto(existing.rho, rho);
+            else next.set(key, { bits, rho });
+          }
+        }
+      }
+      branches = next;
+      continue;
+    }
+
+    for (const branch of branches.values()) {
+      if (op.condition && !conditionHolds(op.condition, branch.bits)) continue;
+      if (op.kind === 'reset') {
+        applyKraus(branch.rho, op.qubit, RESET_KRAUS);
+      } else {
+        applyGateToDensity(branch.rho, op.name, op.qubits, op.params);
+        if (noise) {
+          for (const qubit of op.qubits) applyGateNoise(branch.rho, gateNoise(noise, op.name, qubit), qubit);
+        }
+      }
+    }
+  }
+
+  const trailing = ops.slice(start).filter(op => op.kind === 'measure');
+  const outputs = outputBits(circuit);
+  const distribution = new Map<string, number>();
+  const add = (bits: Uint8Array, p: number) => {
+    const key = bitstringFromBits(bits, outputs);
+    distribution.set(key, (distribution.get(key) ?? 0) + p);
+  };
+
+  for (const branch of branches.values()) {
+    const probs = diagonal(branch.rho);
+    for (let index = 0; index < probs.length; index++) {
+      if (probs[index] < EPSILON) continue;
+
+      // Spread each basis state over the readout errors of the trailing measurements
+      let records: { bits: Uint8Array; p: number }[] = [{ bits: branch.bits.slice(), p: probs[index] }];
+      for (const op of trailing) {
+        if (op.kind !== 'measure') continue;
+        const outcome = (index >> op.qubit) & 1;
+        const { readout01, readout10 } = noise ? readoutNoise(noise, op.qubit) : { readout01: 0, readout10: 0 };
+        const flip = outcome === 0 ? readout01 : readout10;
+        records = records.flatMap(({ bits, p }) => [0, 1].flatMap(recorded => {
+          const weight = recorded === outcome ? 1 - flip : flip;
+          if (weight < EPSILON) return [];
+          const next = bits.slice();
+          next[op.clbit] = recorded;
+          return [{ bits: next, p: p * weight }];
+        }));
+      }
+      for (const { bits, p } of records) add(bits, p);
+    }
+  }
+  return distribution;
+}
+
+/**
+ * Sample shots from the exact noisy distribution and return results in the
+ * same shape as the statevector simulator.
+ */
+export function runDensityMatrix(circuit: Circuit, options: DensityOptions): SimulationResult {
+  const seed = options.seed ?? randomSeed();
+  const rng = createRng(seed);
+
+  const distribution = [...densityDistribution(circuit, options.noise, options.onProgress)];
+  const cumulative = new Float64Array(distribution.length);
+  let total = 0;
+  distribution.forEach(([, p], i) => { cumulative[i] = total += p; });
+
+  const counts: Record<string, number> = {};
+  const sequence = shotSequence(circuit, options.shots);
+  for (let shot = 0; shot < options.shots; shot++) {
+    const [key] = distribution[sampleCumulative(cumulative, rng)];
+    counts[key] = (counts[key] || 0) + 1;
+    sequence?.push(key);
+    options.onProgress?.({ stage: 'shots', completed: shot + 1, total: options.shots });
+  }
+
+  return {
+    ...countsToResult(counts, circuit, options.shots, sequence),
+    statevector: null,
+    backend: 'local_density_matrix',
+    seed,
+  };
+}
@@ -0,0 +1,98 @@
+import type { Complex } from './gates.ts';
+import { outputBits, type Circuit } from './circuit.ts';
+import { densityDistribution } from './density.ts';
+import {
+  STATEVECTOR_OUTPUT_LIMIT,
+  applyOperation,
+  basisProbabilities,
+  countsToResult,
+  createStatevector,
+  hasTerminalMeasurementsOnly,
+  type SimulationOptions,
+  type SimulationResult,
+  type Statevector,
+} from './statevector.ts';
+
+// Split `shots` in proportion to `probabilities`, handing leftover shots to
+// the largest remainders so the counts always add up.
+function expectedCounts(probabilities: Map<string, number>, shots: number): Record<string, number> {
+  const entries = [...probabilities].map(([state, p]) => {
+    const exact = p * shots;
+    return { state, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+  });
+  let leftover = shots - entries.reduce((sum, e) => sum + e.count, 0);
+  const byRemainder = [...entries].sort((a, b) => b.remainder - a.remainder || a.state.localeCompare(b.state));
+  for (const entry of byRemainder) {
+    if (leftover <= 0) break;
+    entry.count++;
+    leftover--;
+  }
+
+  const counts: Record<string, number> = {};
+  for (const { state, count } of entries) {
+    if (count > 0) counts[state] = count;
+  }
+  return counts;
+}
+
+// Final state and exact distribution of result bitstrings for a circuit
+// whose measurements all come at the end
+function terminalDistribution(
+  circuit: Circuit,
+  onProgress?: SimulationOptions['onProgress']
+): { state: Statevector; distribution: Map<string, number> } {
+  const state = createStatevector(circuit.numQubits);
+  const bits = new Uint8Array(circuit.clbitLabels.length);
+  const measured = new Map<number, number>();
+  circuit.operations.forEach((op, i) => {
+    if (op.kind === 'measure') {
+      measured.set(op.clbit, op.qubit);
+    } else {
+      // Only unitary gates and barriers remain; they never read the rng
+      applyOperation(state, op, bits, Math.random);
+    }
+    onProgress?.({ stage: 'gates', completed: i + 1, total: circuit.operations.length });
+  });
+
+  // Marginalise the basis distribution onto the output bits
+  const outputs = outputBits(circuit);
+  const probs = basisProbabilities(state);
+  const distribution = new Map<string, number>();
+  for (let index = 0; index < probs.length; index++) {
+    if (probs[index] < 1e-12) continue;
+    const key = outputs
+      .map(clbit => (measured.has(clbit) && (index >> measured.get(clbit)) & 1 ? '1' : '0'))
+      .join('');
+    distribution.set(key, (distribution.get(key) ?? 0) + probs[index]);
+  }
+  return { state, distribution };
+}
+
+/**
+ * Noiseless distribution of result bitstrings, for judging runs against.
+ * Circuits that measure or reset mid-way go through the density-matrix
+ * simulator, so they are limited to its qubit count.
+ */
+export function idealDistribution(circuit: Circuit): Map<string, number> {
+  return hasTerminalMeasurementsOnly(circuit.operations)
+    ? terminalDistribution(circuit).distribution
+    : densityDistribution(circuit);
+}
+
+/**
+ * Report the exact output distribution scaled to the shot count instead of
+ * sampling, so the same circuit always gives the same counts. Only handles
+ * circuits whose measurements all come at the end.
+ */
+export function runExactCounts(circuit: Circuit, options: SimulationOptions): SimulationResult {
+  const { state, distribution } = terminalDistribution(circuit, options.onProgress);
+
+  return {
+    ...countsToResult(expectedCounts(distribution, options.shots), circuit, options.shots),
+    statevector: circuit.numQubits <= STATEVECTOR_OUTPUT_LIMIT
+      ? Array.from(state.re, (re, i): Complex => [re, state.im[i]])
+      : null,
+    backend: 'deterministic',
+    seed: 0,
+  };
+}
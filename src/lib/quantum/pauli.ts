@@ -0,0 +1,233 @@
+import { hasTerminalMeasurementsOnly } from './statevector.ts';
+import type { Circuit, Operation } from './circuit.ts';
+
+// Pauli observables and the circuits that measure them. An observable is a
+// weighted sum of Pauli strings, written one of two ways:
+//
+//   0.5 * ZZ - 0.25 XI + 1.2        dense: the nth letter acts on qubit n
+//   Z0 Z1 + 0.5 * X0 ⊗ Y2           sparse: each factor names its qubit
+//
+// Terms are separated by + / - or new lines; # starts a comment.
+
+export type Pauli = 'X' | 'Y' | 'Z';
+
+export interface PauliFactor {
+  qubit: number;
+  pauli: Pauli;
+}
+
+export interface PauliTerm {
+  coefficient: number;
+  // Sorted by qubit; empty for a constant term
+  factors: PauliFactor[];
+}
+
+// Qubits measured together in one basis, and the terms (by index) read off
+// those measurements
+export interface MeasurementGroup {
+  basis: PauliFactor[];
+  terms: number[];
+}
+
+export class PauliError extends Error {
+  readonly line: number | null;
+
+  constructor(message: string, line: number | null = null) {
+    super(message);
+    this.name = 'PauliError';
+    this.line = line;
+  }
+}
+
+type Token =
+  | { kind: 'number'; value: number; line: number }
+  | { kind: 'word'; text: string; line: number }
+  | { kind: 'op'; text: '+' | '-' | '*' | '⊗'; line: number }
+  | { kind: 'newline'; line: number };
+
+const TOKEN = /[ \t\r]*(?:(#[^\n]*)|(\n)|(\d+\.?\d*(?:[eE][+-]?\d+)?|\.\d+(?:[eE][+-]?\d+)?)|([A-Za-z]\w*)|([-+*⊗]))/y;
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let line = 1;
+  TOKEN.lastIndex = 0;
+  while (TOKEN.lastIndex < source.length) {
+    if (!source.slice(TOKEN.lastIndex).trim()) break;
+    const start = TOKEN.lastIndex;
+    const match = TOKEN.exec(source);
+    if (!match) throw new PauliError(`Unexpected "${source.slice(start).trim().split(/\s/)[0]}"`, line);
+    const [, comment, newline, number, word, op] = match;
+    if (comment) continue;
+    if (newline) tokens.push({ kind: 'newline', line: line++ });
+    else if (number) tokens.push({ kind: 'number', value: Number(number), line });
+    else if (word) tokens.push({ kind: 'word', text: word, line });
+    else tokens.push({ kind: 'op', text: op as '+' | '-' | '*' | '⊗', line });
+  }
+  return tokens;
+}
+
+const termKey = (factors: PauliFactor[]) => factors.map(({ qubit, pauli }) => `${pauli}${qubit}`).join(' ');
+
+/**
+ * Parse an observable into terms, combining repeated Pauli strings. Throws
+ * PauliError naming the line of the first problem.
+ */
+export function parseObservable(source: string): PauliTerm[] {
+  const tokens = tokenize(source);
+  let pos = 0;
+  const peek = () => tokens[pos];
+  const lineOf = () => peek()?.line ?? tokens[tokens.length - 1]?.line ?? 1;
+
+  const terms = new Map<string, PauliTerm>();
+  while (pos < tokens.length) {
+    if (peek().kind === 'newline') {
+      pos++;
+      continue;
+    }
+
+    const line = lineOf();
+    let sign = 1;
+    for (let token = peek(); token?.kind === 'op' && (token.text === '+' || token.text === '-'); token = peek()) {
+      if (token.text === '-') sign = -sign;
+      pos++;
+    }
+
+    let coefficient = 1;
+    let hasCoefficient = false;
+    const number = peek();
+    if (number?.kind === 'number') {
+      coefficient = number.value;
+      hasCoefficient = true;
+      pos++;
+      const times = peek();
+      if (times?.kind === 'op' && times.text === '*') pos++;
+    }
+
+    // Dense letters continue across ⊗, so Z⊗Z⊗I is the same as ZZI
+    const paulis = new Map<number, Pauli>();
+    let nextDense = 0;
+    let words = 0;
+    const set = (qubit: number, letter: string) => {
+      if (paulis.has(qubit)) throw new PauliError(`Qubit ${qubit} appears twice in one term`, line);
+      // Identity letters hold a place without adding a factor
+      if (letter !== 'I') paulis.set(qubit, letter as Pauli);
+    };
+    for (let token = peek(); token?.kind === 'word'; token = peek()) {
+      const text = token.text.toUpperCase();
+      if (/^(?:[IXYZ]\d+)+$/.test(text)) {
+        for (const [, letter, qubit] of text.matchAll(/([IXYZ])(\d+)/g)) set(Number(qubit), letter);
+      } else if (/^[IXYZ]+$/.test(text)) {
+        for (const letter of text) set(nextDense++, letter);
+      } else {
+        throw new PauliError(`"${token.text}" is not a Pauli string; use I, X, Y and Z`, token.line);
+      }
+      words++;
+      pos++;
+      const joiner = peek();
+      if (joiner?.kind === 'op' && (joiner.text === '*' || joiner.text === '⊗') && tokens[pos + 1]?.kind === 'word') pos++;
+    }
+
+    if (!hasCoefficient && words === 0) throw new PauliError('Expected a coefficient or a Pauli string', lineOf());
+
+    const after = peek();
+    if (after && after.kind !== 'newline' && !(after.kind === 'op' && (after.text === '+' || after.text === '-'))) {
+      throw new PauliError(`Unexpected "${after.kind === 'number' ? after.value : after.text}"; separate terms with + or -`, after.line);
+    }
+
+    const factors = [...paulis].sort(([a], [b]) => a - b).map(([qubit, pauli]) => ({ qubit, pauli }));
+    const key = termKey(factors);
+    const existing = terms.get(key);
+    if (existing) existing.coefficient += sign * coefficient;
+    else terms.set(key, { coefficient: sign * coefficient, factors });
+  }
+
+  const nonzero = [...terms.values()].filter(term => term.coefficient !== 0);
+  if (terms.size === 0) throw new PauliError('Enter at least one Pauli term, e.g. ZZ or 0.5 * X0 X1');
+  if (nonzero.length === 0) throw new PauliError('Every term cancels out');
+  return nonzero;
+}
+
+// "X0 Z2", or "I" for a constant term
+export const describeTerm = (term: PauliTerm) => (term.factors.length > 0 ? termKey(term.factors) : 'I');
+
+// "XIZ": one letter per qubit, leftmost qubit 0
+export const denseLabel = (factors: PauliFactor[], numQubits: number) =>
+  Array.from({ length: numQubits }, (_, qubit) => factors.find(f => f.qubit === qubit)?.pauli ?? 'I').join('');
+
+export const observableQubits = (terms: PauliTerm[]) =>
+  Math.max(0, ...terms.flatMap(term => term.factors.map(f => f.qubit + 1)));
+
+// True when the terms agree on every qubit they both act on, so one
+// measurement setting serves both
+export function qubitWiseCommute(a: PauliFactor[], b: PauliFactor[]): boolean {
+  return a.every(fa => b.every(fb => fa.qubit !== fb.qubit || fa.pauli === fb.pauli));
+}
+
+const mergeBasis = (a: PauliFactor[], b: PauliFactor[]) =>
+  [...a, ...b.filter(fb => !a.some(fa => fa.qubit === fb.qubit))].sort((x, y) => x.qubit - y.qubit);
+
+/**
+ * Group terms into as few measurement settings as the greedy heuristic
+ * finds: terms that conflict with the most others are placed first, each
+ * into the first group it qubit-wise commutes with. Constant terms need no
+ * measurement and are left out.
+ */
+export function groupTerms(terms: PauliTerm[]): MeasurementGroup[] {
+  const measured = terms.map((term, index) => ({ term, index })).filter(({ term }) => term.factors.length > 0);
+  const conflicts = (a: PauliTerm) =>
+    measured.filter(({ term }) => !qubitWiseCommute(a.factors, term.factors)).length;
+  const order = [...measured].sort((a, b) => conflicts(b.term) - conflicts(a.term) || a.index - b.index);
+
+  const groups: MeasurementGroup[] = [];
+  for (const { term, index } of order) {
+    const group = groups.find(g => qubitWiseCommute(g.basis, term.factors));
+    if (group) {
+      group.basis = mergeBasis(group.basis, term.factors);
+      group.terms.push(index);
+    } else {
+      groups.push({ basis: [...term.factors], terms: [index] });
+    }
+  }
+  for (const group of groups) group.terms.sort((a, b) => a - b);
+  return groups;
+}
+
+// Rotations that turn a measurement in the Z basis into one in the Pauli's basis
+const BASIS_CHANGE: Record<Pauli, ('h' | 'sdg')[]> = {
+  X: ['h'],
+  Y: ['sdg', 'h'],
+  Z: [],
+};
+
+/**
+ * A copy of `circuit` that measures the group's qubits in its basis instead
+ * of its own measurements, returning them in qubit order. Throws when the
+ * circuit measures mid-way, since the state to measure is only defined when
+ * measurements come last.
+ */
+export function measurementCircuit(circuit: Circuit, group: MeasurementGroup): Circuit {
+  if (!hasTerminalMeasurementsOnly(circuit.operations)) {
+    throw new PauliError('Expectation values need a circuit whose measurements all come at the end');
+  }
+  const outside = group.basis.find(({ qubit }) => qubit >= circuit.numQubits);
+  if (outside) {
+    throw new PauliError(`The observable acts on qubit ${outside.qubit} but the circuit has ${circuit.numQubits}`);
+  }
+
+  const operations: Operation[] = circuit.operations.filter(op => op.kind !== 'measure');
+  for (const { qubit, pauli } of group.basis) {
+    for (const name of BASIS_CHANGE[pauli]) operations.push({ kind: 'gate', name, qubits: [qubit], params: [] });
+  }
+  group.basis.forEach(({ qubit }, clbit) => operations.push({ kind: 'measure', qubit, clbit }));
+
+  return {
+    // Distinct from the original so the quantum service doesn't substitute
+    // its built-in version of the circuit
+    name: `${circuit.name}_${denseLabel(group.basis, circuit.numQubits).toLowerCase()}`,
+    numQubits: circuit.numQubits,
+    qubitLabels: circuit.qubitLabels,
+    clbitLabels: group.basis.map((_, i) => `m${i}`),
+    outputs: group.basis.map((_, i) => i),
+    operations,
+  };
+}
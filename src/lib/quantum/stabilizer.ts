@@ -0,0 +1,353 @@
+import type { GateName } from './gates.ts';
+import { conditionHolds, outputBits, type Circuit, type GateOperation, type Operation } from './circuit.ts';
+import { createRng, randomSeed, type Rng } from './random.ts';
+import {
+  bitstringFromBits,
+  countsToResult,
+  firstStochasticIndex,
+  shotSequence,
+  type SimulationOptions,
+  type SimulationResult,
+} from './statevector.ts';
+
+// Stabilizer simulator (Aaronson & Gottesman, "Improved simulation of
+// stabilizer circuits", 2004). The state is a 2n x 2n tableau of Pauli rows:
+// rows 0..n-1 are destabilizers, rows n..2n-1 stabilizers, and row 2n is
+// scratch space for deterministic measurements. Each row's X and Z bits are
+// packed 32 qubits to a word, so gates are O(n) and measurements O(n²).
+
+export const MAX_STABILIZER_QUBITS = 256;
+
+export interface Tableau {
+  numQubits: number;
+  // Words per row
+  words: number;
+  x: Uint32Array;
+  z: Uint32Array;
+  // Sign bit per row: 1 means the Pauli has a -1 phase
+  r: Uint8Array;
+}
+
+type Primitive = 'h' | 's' | 'sdg' | 'x' | 'y' | 'z' | 'cx' | 'cz' | 'swap';
+
+// One Clifford step in terms of the tableau primitives
+interface Step {
+  gate: Primitive;
+  qubits: number[];
+}
+
+export function createTableau(numQubits: number): Tableau {
+  if (numQubits > MAX_STABILIZER_QUBITS) {
+    throw new Error(
+      `Circuit uses ${numQubits} qubits; the stabilizer simulator supports at most ${MAX_STABILIZER_QUBITS}`
+    );
+  }
+  const words = Math.ceil(numQubits / 32) || 1;
+  const rows = 2 * numQubits + 1;
+  const tableau = {
+    numQubits,
+    words,
+    x: new Uint32Array(rows * words),
+    z: new Uint32Array(rows * words),
+    r: new Uint8Array(rows),
+  };
+  // |0…0⟩: destabilizer i is X_i, stabilizer i is Z_i
+  for (let i = 0; i < numQubits; i++) {
+    tableau.x[i * words + (i >> 5)] = 1 << (i & 31);
+    tableau.z[(numQubits + i) * words + (i >> 5)] = 1 << (i & 31);
+  }
+  return tableau;
+}
+
+export function cloneTableau(t: Tableau): Tableau {
+  return { numQubits: t.numQubits, words: t.words, x: t.x.slice(), z: t.z.slice(), r: t.r.slice() };
+}
+
+function popcount(v: number): number {
+  v -= (v >>> 1) & 0x55555555;
+  v = (v & 0x33333333) + ((v >>> 2) & 0x33333333);
+  return (((v + (v >>> 4)) & 0x0f0f0f0f) * 0x01010101) >>> 24;
+}
+
+function hasX(t: Tableau, row: number, qubit: number): boolean {
+  return (t.x[row * t.words + (qubit >> 5)] & (1 << (qubit & 31))) !== 0;
+}
+
+// Row h ← row i · row h, tracking the phase exactly (mod 4)
+function rowsum(t: Tableau, h: number, i: number) {
+  const { words, x, z } = t;
+  let phase = 2 * t.r[h] + 2 * t.r[i];
+  for (let w = 0; w < words; w++) {
+    const x1 = x[i * words + w], z1 = z[i * words + w];
+    const x2 = x[h * words + w], z2 = z[h * words + w];
+    // Per-qubit phase exponent of P1·P2: +1 or -1 where the Paulis anticommute
+    const plus = (x1 & z1 & z2 & ~x2) | (x1 & ~z1 & z2 & x2) | (~x1 & z1 & x2 & ~z2);
+    const minus = (x1 & z1 & x2 & ~z2) | (x1 & ~z1 & z2 & ~x2) | (~x1 & z1 & x2 & z2);
+    phase += popcount(plus) - popcount(minus);
+    x[h * words + w] = x2 ^ x1;
+    z[h * words + w] = z2 ^ z1;
+  }
+  t.r[h] = (((phase % 4) + 4) % 4) === 2 ? 1 : 0;
+}
+
+function copyRow(t: Tableau, to: number, from: number) {
+  const { words } = t;
+  t.x.copyWithin(to * words, from * words, (from + 1) * words);
+  t.z.copyWithin(to * words, from * words, (from + 1) * words);
+  t.r[to] = t.r[from];
+}
+
+function clearRow(t: Tableau, row: number) {
+  const { words } = t;
+  t.x.fill(0, row * words, (row + 1) * words);
+  t.z.fill(0, row * words, (row + 1) * words);
+  t.r[row] = 0;
+}
+
+function applyPrimitive(t: Tableau, gate: Primitive, qubits: number[]) {
+  const { words, x, z, r } = t;
+  const rows = 2 * t.numQubits;
+  const [a, b] = qubits;
+  const wa = a >> 5, ma = 1 << (a & 31);
+  const wb = b >> 5, mb = 1 << (b & 31);
+
+  for (let row = 0; row < rows; row++) {
+    const ia = row * words + wa;
+    const xa = (x[ia] & ma) !== 0;
+    const za = (z[ia] & ma) !== 0;
+
+    switch (gate) {
+      case 'h':
+        if (xa && za) r[row] ^= 1;
+        if (xa !== za) {
+          x[ia] ^= ma;
+          z[ia] ^= ma;
+        }
+        break;
+      case 's':
+        if (xa && za) r[row] ^= 1;
+        if (xa) z[ia] ^= ma;
+        break;
+      case 'sdg':
+        if (xa && !za) r[row] ^= 1;
+        if (xa) z[ia] ^= ma;
+        break;
+      case 'x':
+        if (za) r[row] ^= 1;
+        break;
+      case 'y':
+        if (xa !== za) r[row] ^= 1;
+        break;
+      case 'z':
+        if (xa) r[row] ^= 1;
+        break;
+      case 'cx': {
+        const ib = row * words + wb;
+        const xb = (x[ib] & mb) !== 0;
+        const zb = (z[ib] & mb) !== 0;
+        if (xa && zb && xb === za) r[row] ^= 1;
+        if (xa) x[ib] ^= mb;
+        if (zb) z[ia] ^= ma;
+        break;
+      }
+      case 'cz': {
+        const ib = row * words + wb;
+        const xb = (x[ib] & mb) !== 0;
+        const zb = (z[ib] & mb) !== 0;
+        if (xa && xb && za !== zb) r[row] ^= 1;
+        if (xb) z[ia] ^= ma;
+        if (xa) z[ib] ^= mb;
+        break;
+      }
+      case 'swap': {
+        const ib = row * words + wb;
+        const xb = (x[ib] & mb) !== 0;
+        const zb = (z[ib] & mb) !== 0;
+        if (xa !== xb) {
+          x[ia] ^= ma;
+          x[ib] ^= mb;
+        }
+        if (za !== zb) {
+          z[ia] ^= ma;
+          z[ib] ^= mb;
+        }
+        break;
+      }
+    }
+  }
+}
+
+const QUARTER_TURN = Math.PI / 2;
+
+// Number of quarter turns in `theta` (mod 4), or null if it isn't a multiple
+function quarterTurns(theta: number): number | null {
+  const k = Math.round(theta / QUARTER_TURN);
+  if (Math.abs(theta - k * QUARTER_TURN) > 1e-9) return null;
+  return ((k % 4) + 4) % 4;
+}
+
+const sPower = (qubit: number, k: number): Step[] =>
+  k === 3 ? [{ gate: 'sdg', qubits: [qubit] }] : Array.from({ length: k }, () => ({ gate: 's', qubits: [qubit] }));
+
+/**
+ * Decompose a gate into tableau primitives (up to global phase), or return
+ * null if it is not a Clifford gate. Rotations are Clifford when their angle
+ * is a multiple of π/2.
+ */
+export function cliffordSteps(name: GateName, qubits: number[], params: number[] = []): Step[] | null {
+  const [a, b] = qubits;
+  switch (name) {
+    case 'id':
+      return [];
+    case 'h':
+    case 's':
+    case 'sdg':
+    case 'x':
+    case 'y':
+    case 'z':
+    case 'cx':
+    case 'cz':
+    case 'swap':
+      return [{ gate: name, qubits }];
+    case 'cy':
+      // CY = (I ⊗ S) · CX · (I ⊗ S†)
+      return [{ gate: 'sdg', qubits: [b] }, { gate: 'cx', qubits: [a, b] }, { gate: 's', qubits: [b] }];
+    case 'v':
+      return [{ gate: 'h', qubits: [a] }, { gate: 's', qubits: [a] }, { gate: 'h', qubits: [a] }];
+    case 'vdg':
+      return [{ gate: 'h', qubits: [a] }, { gate: 'sdg', qubits: [a] }, { gate: 'h', qubits: [a] }];
+    case 'rz':
+    case 'phase': {
+      const k = quarterTurns(params[0]);
+      return k === null ? null : sPower(a, k);
+    }
+    case 'rx': {
+      const k = quarterTurns(params[0]);
+      return k === null ? null : [{ gate: 'h', qubits: [a] }, ...sPower(a, k), { gate: 'h', qubits: [a] }];
+    }
+    case 'ry': {
+      // Ry(θ) = S · Rx(θ) · S†
+      const k = quarterTurns(params[0]);
+      return k === null ? null : [
+        { gate: 'sdg', qubits: [a] },
+        { gate: 'h', qubits: [a] }, ...sPower(a, k), { gate: 'h', qubits: [a] },
+        { gate: 's', qubits: [a] },
+      ];
+    }
+    default:
+      return null;
+  }
+}
+
+export function firstNonCliffordGate(circuit: Circuit): GateOperation | null {
+  for (const op of circuit.operations) {
+    if (op.kind === 'gate' && cliffordSteps(op.name, op.qubits, op.params) === null) return op;
+  }
+  return null;
+}
+
+export function describeNonClifford(op: GateOperation): string {
+  const where = op.line !== undefined ? ` on line ${op.line}` : '';
+  const angle = op.params.length ? `(${op.params.map(p => `${(p / Math.PI).toFixed(3)}π`).join(', ')})` : '';
+  return `Gate ${op.name}${angle}${where} is not a Clifford gate; ` +
+    'the stabilizer simulator supports H, S, X, Y, Z, CX, CY, CZ, SWAP, V and rotations by multiples of π/2';
+}
+
+export function applyClifford(t: Tableau, name: GateName, qubits: number[], params: number[] = []) {
+  const steps = cliffordSteps(name, qubits, params);
+  if (!steps) throw new Error(`Gate ${name} is not a Clifford gate`);
+  for (const step of steps) applyPrimitive(t, step.gate, step.qubits);
+}
+
+export function measureTableau(t: Tableau, qubit: number, rng: Rng): 0 | 1 {
+  const n = t.numQubits;
+
+  // A stabilizer that anticommutes with Z_qubit makes the outcome random
+  let p = -1;
+  for (let row = n; row < 2 * n; row++) {
+    if (hasX(t, row, qubit)) {
+      p = row;
+      break;
+    }
+  }
+
+  if (p !== -1) {
+    for (let row = 0; row < 2 * n; row++) {
+      if (row !== p && hasX(t, row, qubit)) rowsum(t, row, p);
+    }
+    copyRow(t, p - n, p);
+    clearRow(t, p);
+    const outcome = rng() < 0.5 ? 1 : 0;
+    t.r[p] = outcome;
+    t.z[p * t.words + (qubit >> 5)] = 1 << (qubit & 31);
+    return outcome;
+  }
+
+  // Deterministic: the outcome is the sign of Z_qubit as a product of stabilizers
+  const scratch = 2 * n;
+  clearRow(t, scratch);
+  for (let row = 0; row < n; row++) {
+    if (hasX(t, row, qubit)) rowsum(t, scratch, row + n);
+  }
+  return t.r[scratch] as 0 | 1;
+}
+
+export function applyStabilizerOperation(t: Tableau, op: Operation, bits: Uint8Array, rng: Rng) {
+  if (op.kind === 'barrier') return;
+  if (op.condition && !conditionHolds(op.condition, bits)) return;
+
+  switch (op.kind) {
+    case 'gate':
+      applyClifford(t, op.name, op.qubits, op.params);
+      break;
+    case 'measure':
+      bits[op.clbit] = measureTableau(t, op.qubit, rng);
+      break;
+    case 'reset':
+      if (measureTableau(t, op.qubit, rng) === 1) applyPrimitive(t, 'x', [op.qubit]);
+      break;
+  }
+}
+
+/**
+ * Run a Clifford circuit for the requested number of shots. Throws naming the
+ * first non-Clifford gate if the circuit cannot be simulated.
+ */
+export function runStabilizer(circuit: Circuit, options: SimulationOptions): SimulationResult {
+  const nonClifford = firstNonCliffordGate(circuit);
+  if (nonClifford) throw new Error(describeNonClifford(nonClifford));
+
+  const seed = options.seed ?? randomSeed();
+  const rng = createRng(seed);
+  const outputs = outputBits(circuit);
+  const ops = circuit.operations;
+
+  // Everything before the first measurement is deterministic: simulate once
+  const prefixEnd = firstStochasticIndex(ops);
+  const prepared = createTableau(circuit.numQubits);
+  const scratch = new Uint8Array(circuit.clbitLabels.length);
+  for (let i = 0; i < prefixEnd; i++) {
+    applyStabilizerOperation(prepared, ops[i], scratch, rng);
+    options.onProgress?.({ stage: 'gates', completed: i + 1, total: prefixEnd });
+  }
+
+  const rest = ops.slice(prefixEnd);
+  const counts: Record<string, number> = {};
+  const sequence = shotSequence(circuit, options.shots);
+  for (let shot = 0; shot < options.shots; shot++) {
+    const tableau = cloneTableau(prepared);
+    const bits = new Uint8Array(circuit.clbitLabels.length);
+    for (const op of rest) applyStabilizerOperation(tableau, op, bits, rng);
+    const key = bitstringFromBits(bits, outputs);
+    counts[key] = (counts[key] || 0) + 1;
+    sequence?.push(key);
+    options.onProgress?.({ stage: 'shots', completed: shot + 1, total: options.shots });
+  }
+
+  return {
+    ...countsToResult(counts, circuit, options.shots, sequence),
+    statevector: null,
+    backend: 'local_stabilizer',
+    seed,
+  };
+}
@@ -0,0 +1,317 @@
+import { GATES, type Complex, type GateName, type Matrix2 } from './gates.ts';
+import { conditionHolds, outputBits, type Circuit, type Operation } from './circuit.ts';
+import { createRng, randomSeed, type Rng } from './random.ts';
+import { recordsFromBitstrings, registerMap, shotRecordsFit, type ShotRecord } from '../results/shots.ts';
+
+// Dense statevector simulator. Qubit k is bit k of the basis index
+// (little-endian), so |q2 q1 q0⟩ is stored at index q2*4 + q1*2 + q0.
+
+export const MAX_STATEVECTOR_QUBITS = 20;
+
+// Larger statevectors are left out of results to keep job rows small
+export const STATEVECTOR_OUTPUT_LIMIT = 10;
+
+export interface Statevector {
+  numQubits: number;
+  re: Float64Array;
+  im: Float64Array;
+}
+
+export interface SimulationProgress {
+  // Gates applied to the shared state, or shots sampled
+  stage: 'gates' | 'shots';
+  completed: number;
+  total: number;
+}
+
+export interface SimulationOptions {
+  shots: number;
+  seed?: number;
+  includeStatevector?: boolean;
+  // Called after every gate and shot; throttle before doing anything costly
+  onProgress?: (progress: SimulationProgress) => void;
+}
+
+// Declared as a type alias so results can be stored in Json columns
+export type SimulationResult = {
+  measurements: Record<string, number>;
+  probabilities: Record<string, number>;
+  shots: number;
+  // Bit index of each measurement name
+  registers: Record<string, number>;
+  // Each shot's measurements in the order they were sampled, when they fit
+  shot_records?: ShotRecord[];
+  n_qubits: number;
+  circuit: string;
+  statevector: Complex[] | null;
+  backend: string;
+  seed: number;
+};
+
+export function createStatevector(numQubits: number): Statevector {
+  if (numQubits > MAX_STATEVECTOR_QUBITS) {
+    throw new Error(
+      `Circuit uses ${numQubits} qubits; the statevector simulator supports at most ${MAX_STATEVECTOR_QUBITS}`
+    );
+  }
+  const size = 1 << numQubits;
+  const state = { numQubits, re: new Float64Array(size), im: new Float64Array(size) };
+  state.re[0] = 1;
+  return state;
+}
+
+export function cloneStatevector(state: Statevector): Statevector {
+  return { numQubits: state.numQubits, re: state.re.slice(), im: state.im.slice() };
+}
+
+// Apply a 2x2 matrix to `target` on every basis state where all bits in
+// `controlMask` are set.
+export function applyMatrix(state: Statevector, target: number, m: Matrix2, controlMask = 0) {
+  const { re, im } = state;
+  const bit = 1 << target;
+  const [[aRe, aIm], [bRe, bIm], [cRe, cIm], [dRe, dIm]] = m;
+
+  for (let i = 0; i < re.length; i++) {
+    if (i & bit || (i & controlMask) !== controlMask) continue;
+    const j = i | bit;
+    const r0 = re[i], i0 = im[i], r1 = re[j], i1 = im[j];
+    re[i] = aRe * r0 - aIm * i0 + bRe * r1 - bIm * i1;
+    im[i] = aRe * i0 + aIm * r0 + bRe * i1 + bIm * r1;
+    re[j] = cRe * r0 - cIm * i0 + dRe * r1 - dIm * i1;
+    im[j] = cRe * i0 + cIm * r0 + dRe * i1 + dIm * r1;
+  }
+}
+
+export function applySwap(state: Statevector, a: number, b: number) {
+  const { re, im } = state;
+  const bitA = 1 << a;
+  const bitB = 1 << b;
+
+  for (let i = 0; i < re.length; i++) {
+    // Visit each |..1..0..⟩ / |..0..1..⟩ pair once
+    if (!(i & bitA) || i & bitB) continue;
+    const j = (i & ~bitA) | bitB;
+    const r = re[i], m = im[i];
+    re[i] = re[j]; im[i] = im[j];
+    re[j] = r; im[j] = m;
+  }
+}
+
+export function applyGate(state: Statevector, name: GateName, qubits: number[], params: number[] = []) {
+  const gate = GATES[name];
+  if (qubits.length !== gate.numQubits) {
+    throw new Error(`Gate ${name} expects ${gate.numQubits} qubit(s), got ${qubits.length}`);
+  }
+  if (new Set(qubits).size !== qubits.length) {
+    throw new Error(`Gate ${name} applied to the same qubit more than once`);
+  }
+
+  if (!gate.matrix) {
+    applySwap(state, qubits[0], qubits[1]);
+    return;
+  }
+
+  let controlMask = 0;
+  for (let k = 0; k < gate.controls; k++) controlMask |= 1 << qubits[k];
+  applyMatrix(state, qubits[gate.controls], gate.matrix(params), controlMask);
+}
+
+export function probabilityOfOne(state: Statevector, qubit: number): number {
+  const { re, im } = state;
+  const bit = 1 << qubit;
+  let p = 0;
+  for (let i = 0; i < re.length; i++) {
+    if (i & bit) p += re[i] * re[i] + im[i] * im[i];
+  }
+  return p;
+}
+
+// Collapse `qubit` onto the given outcome and renormalise.
+export function collapseQubit(state: Statevector, qubit: number, outcome: 0 | 1, probability: number) {
+  const { re, im } = state;
+  const bit = 1 << qubit;
+  const norm = probability > 0 ? 1 / Math.sqrt(probability) : 0;
+  for (let i = 0; i < re.length; i++) {
+    if (((i & bit) !== 0) === (outcome === 1)) {
+      re[i] *= norm;
+      im[i] *= norm;
+    } else {
+      re[i] = 0;
+      im[i] = 0;
+    }
+  }
+}
+
+export function measureQubit(state: Statevector, qubit: number, rng: Rng): 0 | 1 {
+  const p1 = probabilityOfOne(state, qubit);
+  const outcome = rng() < p1 ? 1 : 0;
+  collapseQubit(state, qubit, outcome, outcome ? p1 : 1 - p1);
+  return outcome;
+}
+
+export function resetQubit(state: Statevector, qubit: number, rng: Rng) {
+  if (measureQubit(state, qubit, rng) === 1) {
+    applyGate(state, 'x', [qubit]);
+  }
+}
+
+export function basisProbabilities(state: Statevector): Float64Array {
+  const { re, im } = state;
+  const probs = new Float64Array(re.length);
+  for (let i = 0; i < re.length; i++) probs[i] = re[i] * re[i] + im[i] * im[i];
+  return probs;
+}
+
+export function applyOperation(state: Statevector, op: Operation, bits: Uint8Array, rng: Rng) {
+  if (op.kind === 'barrier') return;
+  if (op.condition && !conditionHolds(op.condition, bits)) return;
+
+  switch (op.kind) {
+    case 'gate':
+      applyGate(state, op.name, op.qubits, op.params);
+      break;
+    case 'measure':
+      bits[op.clbit] = measureQubit(state, op.qubit, rng);
+      break;
+    case 'reset':
+      resetQubit(state, op.qubit, rng);
+      break;
+  }
+}
+
+// Index of the first operation that needs per-shot simulation: anything
+// from there on depends on measurement randomness.
+export function firstStochasticIndex(operations: Operation[]): number {
+  const index = operations.findIndex(op =>
+    op.kind === 'measure' || op.kind === 'reset' || (op.kind === 'gate' && op.condition)
+  );
+  return index === -1 ? operations.length : index;
+}
+
+// True when every operation after the first measurement is an
+// unconditional measurement (or barrier) of a qubit not yet measured, so
+// all shots can be sampled from one probability distribution.
+export function hasTerminalMeasurementsOnly(operations: Operation[]): boolean {
+  const start = firstStochasticIndex(operations);
+  const measured = new Set<number>();
+  for (const op of operations.slice(start)) {
+    if (op.kind === 'barrier') continue;
+    if (op.kind !== 'measure' || op.condition || measured.has(op.qubit)) return false;
+    measured.add(op.qubit);
+  }
+  return true;
+}
+
+export function bitstringFromBits(bits: ArrayLike<number>, outputs: number[]): string {
+  return outputs.map(clbit => (bits[clbit] ? '1' : '0')).join('');
+}
+
+// Draw an index from a discrete distribution given its cumulative sums.
+export function sampleCumulative(cumulative: Float64Array, rng: Rng): number {
+  const r = rng() * cumulative[cumulative.length - 1];
+  let lo = 0;
+  let hi = cumulative.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (cumulative[mid] > r) hi = mid;
+    else lo = mid + 1;
+  }
+  return lo;
+}
+
+// An empty list to push each shot's bitstring onto, or null when the run has
+// too many shots to record them one by one
+export const shotSequence = (circuit: Circuit, shots: number): string[] | null =>
+  shotRecordsFit(shots, outputBits(circuit).length) ? [] : null;
+
+export function countsToResult(
+  counts: Record<string, number>,
+  circuit: Circuit,
+  shots: number,
+  sequence: string[] | null = null
+): Pick<SimulationResult, 'measurements' | 'probabilities' | 'shots' | 'registers' | 'shot_records' | 'n_qubits' | 'circuit'> {
+  const measurements: Record<string, number> = {};
+  const probabilities: Record<string, number> = {};
+  for (const state of Object.keys(counts).sort()) {
+    measurements[state] = counts[state];
+    probabilities[state] = counts[state] / shots;
+  }
+  const registers = registerMap(outputBits(circuit).map(clbit => circuit.clbitLabels[clbit]));
+  return {
+    measurements,
+    probabilities,
+    shots,
+    registers,
+    ...(sequence && { shot_records: recordsFromBitstrings(sequence, registers) }),
+    n_qubits: circuit.numQubits,
+    circuit: circuit.name,
+  };
+}
+
+/**
+ * Run a circuit for the requested number of shots and return results in the
+ * same shape the dashboard stores on quantum_jobs.results.
+ */
+export function runStatevector(circuit: Circuit, options: SimulationOptions): SimulationResult {
+  const seed = options.seed ?? randomSeed();
+  const rng = createRng(seed);
+  const outputs = outputBits(circuit);
+  const ops = circuit.operations;
+
+  // Everything before the first measurement is deterministic: simulate once
+  const prefixEnd = firstStochasticIndex(ops);
+  const prepared = createStatevector(circuit.numQubits);
+  const scratch = new Uint8Array(circuit.clbitLabels.length);
+  for (let i = 0; i < prefixEnd; i++) {
+    applyOperation(prepared, ops[i], scratch, rng);
+    options.onProgress?.({ stage: 'gates', completed: i + 1, total: prefixEnd });
+  }
+
+  const counts: Record<string, number> = {};
+  const sequence = shotSequence(circuit, options.shots);
+  const terminal = hasTerminalMeasurementsOnly(ops);
+
+  if (terminal) {
+    const probs = basisProbabilities(prepared);
+    const cumulative = new Float64Array(probs.length);
+    let total = 0;
+    for (let i = 0; i < probs.length; i++) cumulative[i] = total += probs[i];
+
+    const measures = ops.slice(prefixEnd).filter(op => op.kind === 'measure');
+    for (let shot = 0; shot < options.shots; shot++) {
+      const index = sampleCumulative(cumulative, rng);
+      const bits = new Uint8Array(circuit.clbitLabels.length);
+      for (const op of measures) {
+        if (op.kind === 'measure') bits[op.clbit] = (index >> op.qubit) & 1;
+      }
+      const key = bitstringFromBits(bits, outputs);
+      counts[key] = (counts[key] || 0) + 1;
+      sequence?.push(key);
+      options.onProgress?.({ stage: 'shots', completed: shot + 1, total: options.shots });
+    }
+  } else {
+    const rest = ops.slice(prefixEnd);
+    for (let shot = 0; shot < options.shots; shot++) {
+      const state = cloneStatevector(prepared);
+      const bits = new Uint8Array(circuit.clbitLabels.length);
+      for (const op of rest) applyOperation(state, op, bits, rng);
+      const key = bitstringFromBits(bits, outputs);
+      counts[key] = (counts[key] || 0) + 1;
+      sequence?.push(key);
+      options.onProgress?.({ stage: 'shots', completed: shot + 1, total: options.shots });
+    }
+  }
+
+  const includeStatevector = (options.includeStatevector ?? true)
+    && terminal
+    && circuit.numQubits <= STATEVECTOR_OUTPUT_LIMIT;
+
+  return {
+    ...countsToResult(counts, circuit, options.shots, sequence),
+    statevector: includeStatevector
+      ? Array.from(prepared.re, (re, i): Complex => [re, prepared.im[i]])
+      : null,
+    backend: 'local_statevector',
+    seed,
+  };
+}
@@ -0,0 +1,215 @@
+import type { Complex, Matrix2 } from './gates.ts';
+import { conditionHolds, outputBits, type Circuit, type Operation } from './circuit.ts';
+import { KRAUS, type DensityOptions } from './density.ts';
+import { gateNoise, readoutNoise, type NoiseModel, type NoiseRates } from './noise.ts';
+import { createRng, randomSeed, type Rng } from './random.ts';
+import {
+  applyGate,
+  applyMatrix,
+  basisProbabilities,
+  bitstringFromBits,
+  countsToResult,
+  createStatevector,
+  firstStochasticIndex,
+  hasTerminalMeasurementsOnly,
+  measureQubit,
+  resetQubit,
+  sampleCumulative,
+  shotSequence,
+  type SimulationResult,
+  type Statevector,
+} from './statevector.ts';
+
+// Monte Carlo wavefunction ("quantum trajectories") simulator. Each
+// trajectory is a statevector run where every noise channel applies one of
+// its Kraus operators, picked with the Born probability ‖Kψ‖². Averaged over
+// trajectories this reproduces the density-matrix result while only ever
+// holding 2^n amplitudes.
+
+// Trajectories per run when the circuit only measures at the end; shots are
+// shared out between them
+export const DEFAULT_TRAJECTORIES = 256;
+
+export interface TrajectoryOptions extends DensityOptions {
+  trajectories?: number;
+}
+
+// Declared as a type alias so results can be stored in Json columns
+export type TrajectoryResult = SimulationResult & {
+  // Standard error of each entry in `probabilities`, estimated from the
+  // spread between trajectories
+  statistical_error: Record<string, number>;
+  trajectories: number;
+};
+
+const isScaledIdentity = ([k00, k01, k10, k11]: Matrix2) =>
+  k01[0] === 0 && k01[1] === 0 && k10[0] === 0 && k10[1] === 0 && k00[0] === k11[0] && k00[1] === k11[1];
+
+// ‖(u v) ψ‖² summed over amplitude pairs, given the reduced density matrix
+// [[a, b], [b*, d]] of the qubit
+function rowNorm(u: Complex, v: Complex, a: number, d: number, bRe: number, bIm: number) {
+  const uvRe = u[0] * v[0] + u[1] * v[1];
+  const uvIm = u[1] * v[0] - u[0] * v[1];
+  return (u[0] ** 2 + u[1] ** 2) * a + (v[0] ** 2 + v[1] ** 2) * d + 2 * (uvRe * bRe - uvIm * bIm);
+}
+
+/**
+ * Apply one Kraus operator of a single-qubit channel, chosen with
+ * probability ‖Kψ‖², and renormalise.
+ */
+export function applyKrausTrajectory(state: Statevector, qubit: number, kraus: Matrix2[], rng: Rng) {
+  const { re, im } = state;
+  const bit = 1 << qubit;
+  let a = 0, d = 0, bRe = 0, bIm = 0;
+  for (let i = 0; i < re.length; i++) {
+    if (i & bit) continue;
+    const j = i | bit;
+    a += re[i] * re[i] + im[i] * im[i];
+    d += re[j] * re[j] + im[j] * im[j];
+    bRe += re[i] * re[j] + im[i] * im[j];
+    bIm += im[i] * re[j] - re[i] * im[j];
+  }
+
+  let r = rng();
+  let chosen = kraus.length - 1;
+  let p = 0;
+  for (let k = 0; k < kraus.length; k++) {
+    const [k00, k01, k10, k11] = kraus[k];
+    p = rowNorm(k00, k01, a, d, bRe, bIm) + rowNorm(k10, k11, a, d, bRe, bIm);
+    if (r < p) {
+      chosen = k;
+      break;
+    }
+    r -= p;
+  }
+
+  // The state is unchanged up to normalisation
+  if (isScaledIdentity(kraus[chosen])) return;
+
+  applyMatrix(state, qubit, kraus[chosen]);
+  const norm = p > 0 ? 1 / Math.sqrt(p) : 0;
+  for (let i = 0; i < re.length; i++) {
+    re[i] *= norm;
+    im[i] *= norm;
+  }
+}
+
+export function applyTrajectoryNoise(state: Statevector, rates: NoiseRates, qubit: number, rng: Rng) {
+  for (const channel of Object.keys(KRAUS) as (keyof typeof KRAUS)[]) {
+    if (rates[channel] > 0) applyKrausTrajectory(state, qubit, KRAUS[channel](rates[channel]), rng);
+  }
+}
+
+// The bit a measurement records, after readout error
+function readout(noise: NoiseModel | undefined, qubit: number, outcome: number, rng: Rng): number {
+  if (!noise) return outcome;
+  const { readout01, readout10 } = readoutNoise(noise, qubit);
+  return rng() < (outcome ? readout10 : readout01) ? 1 - outcome : outcome;
+}
+
+export function applyNoisyOperation(state: Statevector, op: Operation, bits: Uint8Array, rng: Rng, noise?: NoiseModel) {
+  if (op.kind === 'barrier') return;
+  if (op.condition && !conditionHolds(op.condition, bits)) return;
+
+  switch (op.kind) {
+    case 'gate':
+      applyGate(state, op.name, op.qubits, op.params);
+      if (noise) {
+        for (const qubit of op.qubits) applyTrajectoryNoise(state, gateNoise(noise, op.name, qubit), qubit, rng);
+      }
+      break;
+    case 'measure':
+      bits[op.clbit] = readout(noise, op.qubit, measureQubit(state, op.qubit, rng), rng);
+      break;
+    case 'reset':
+      resetQubit(state, op.qubit, rng);
+      break;
+  }
+}
+
+/**
+ * Run noisy shots as trajectories. Circuits that only measure at the end
+ * sample several shots from each trajectory's final state; anything else
+ * runs one trajectory per shot. Results have the statevector simulator's
+ * shape plus a standard error per outcome.
+ */
+export function runTrajectories(circuit: Circuit, options: TrajectoryOptions): TrajectoryResult {
+  const seed = options.seed ?? randomSeed();
+  const rng = createRng(seed);
+  const outputs = outputBits(circuit);
+  const ops = circuit.operations;
+  const { shots, noise } = options;
+
+  const terminal = hasTerminalMeasurementsOnly(ops);
+  const prefixEnd = terminal ? firstStochasticIndex(ops) : ops.length;
+  const measures = ops.slice(prefixEnd).filter(op => op.kind === 'measure');
+  const trajectories = terminal
+    ? Math.max(1, Math.min(options.trajectories ?? DEFAULT_TRAJECTORIES, shots))
+    : shots;
+
+  // Per-outcome sums for the between-trajectory variance of the frequencies
+  const counts: Record<string, number> = {};
+  const sumCountSq: Record<string, number> = {};
+  const sumCountShots: Record<string, number> = {};
+  let sumShotsSq = 0;
+  let completed = 0;
+  const sequence = shotSequence(circuit, shots);
+
+  for (let t = 0; t < trajectories; t++) {
+    const batchShots = Math.floor(shots / trajectories) + (t < shots % trajectories ? 1 : 0);
+    const state = createStatevector(circuit.numQubits);
+    const bits = new Uint8Array(circuit.clbitLabels.length);
+    for (const op of ops.slice(0, prefixEnd)) applyNoisyOperation(state, op, bits, rng, noise);
+
+    const batch: Record<string, number> = {};
+    if (terminal) {
+      const probs = basisProbabilities(state);
+      const cumulative = new Float64Array(probs.length);
+      let total = 0;
+      for (let i = 0; i < probs.length; i++) cumulative[i] = total += probs[i];
+
+      for (let shot = 0; shot < batchShots; shot++) {
+        const index = sampleCumulative(cumulative, rng);
+        for (const op of measures) {
+          if (op.kind === 'measure') bits[op.clbit] = readout(noise, op.qubit, (index >> op.qubit) & 1, rng);
+        }
+        const key = bitstringFromBits(bits, outputs);
+        batch[key] = (batch[key] || 0) + 1;
+        sequence?.push(key);
+      }
+    } else {
+      const key = bitstringFromBits(bits, outputs);
+      batch[key] = 1;
+      sequence?.push(key);
+    }
+
+    for (const [key, count] of Object.entries(batch)) {
+      counts[key] = (counts[key] || 0) + count;
+      sumCountSq[key] = (sumCountSq[key] || 0) + count * count;
+      sumCountShots[key] = (sumCountShots[key] || 0) + count * batchShots;
+    }
+    sumShotsSq += batchShots * batchShots;
+    completed += batchShots;
+    options.onProgress?.({ stage: 'shots', completed, total: shots });
+  }
+
+  // Batch-means estimate: Var(f) = T/(T-1) Σ (c_t - n_t f)² / N². A single
+  // trajectory has no spread to measure, so fall back to the binomial error.
+  const statistical_error: Record<string, number> = {};
+  for (const key of Object.keys(counts).sort()) {
+    const f = counts[key] / shots;
+    const spread = sumCountSq[key] - 2 * f * sumCountShots[key] + f * f * sumShotsSq;
+    statistical_error[key] = trajectories > 1
+      ? Math.sqrt(Math.max(0, spread) * trajectories / (trajectories - 1)) / shots
+      : Math.sqrt(f * (1 - f) / shots);
+  }
+
+  return {
+    ...countsToResult(counts, circuit, shots, sequence),
+    statevector: null,
+    backend: 'local_trajectories',
+    seed,
+    statistical_error,
+    trajectories,
+  };
+}
@@ -0,0 +1,80 @@
+import type { MeasurementGroup, PauliTerm } from '../quantum/pauli.ts';
+import type { QuantumResult } from './schema.ts';
+
+// Expectation values of Pauli observables from the counts of the circuits
+// that measure them (see measurementCircuit).
+
+export interface Estimate {
+  value: number;
+  standardError: number;
+}
+
+export interface ObservableEstimate {
+  total: Estimate;
+  // One per term, in the order the terms were given
+  terms: Estimate[];
+}
+
+// Mean of a per-shot quantity over counted outcomes, with the standard error
+// of that mean from the sample variance
+function estimateMean(counts: Record<string, number>, valueOf: (outcome: string) => number): Estimate {
+  let shots = 0;
+  let sum = 0;
+  for (const [outcome, count] of Object.entries(counts)) {
+    shots += count;
+    sum += count * valueOf(outcome);
+  }
+  if (shots === 0) return { value: NaN, standardError: NaN };
+  const value = sum / shots;
+  if (shots === 1) return { value, standardError: NaN };
+
+  let squares = 0;
+  for (const [outcome, count] of Object.entries(counts)) squares += count * (valueOf(outcome) - value) ** 2;
+  return { value, standardError: Math.sqrt(squares / (shots - 1) / shots) };
+}
+
+// Bit position of each basis qubit's measurement, by the m0, m1, ... names
+// measurementCircuit gives them when the results say where they went
+const basisPositions = (group: MeasurementGroup, results: QuantumResult) =>
+  group.basis.map((_, i) => results.registers?.[`m${i}`] ?? i);
+
+/**
+ * Estimate ⟨Σ cᵢ Pᵢ⟩ given the results of one run per measurement group,
+ * in the order of `groups`. Terms in a group come from the same shots, so a
+ * group's weighted sum is estimated as one per-shot quantity to account for
+ * their correlation; groups are independent runs and their variances add.
+ */
+export function estimateObservable(
+  terms: PauliTerm[],
+  groups: MeasurementGroup[],
+  results: QuantumResult[]
+): ObservableEstimate {
+  if (results.length !== groups.length) {
+    throw new Error(`Expected results for ${groups.length} measurement groups, got ${results.length}`);
+  }
+
+  const estimates: Estimate[] = terms.map(term =>
+    term.factors.length === 0 ? { value: 1, standardError: 0 } : { value: NaN, standardError: NaN });
+  let value = terms.filter(term => term.factors.length === 0).reduce((sum, term) => sum + term.coefficient, 0);
+  let variance = 0;
+
+  groups.forEach((group, g) => {
+    const positions = basisPositions(group, results[g]);
+    // Eigenvalue of a term on one outcome: -1 to the number of its qubits measured as 1
+    const eigenvalue = (term: PauliTerm, outcome: string) =>
+      term.factors.reduce((sign, { qubit }) => {
+        const position = positions[group.basis.findIndex(factor => factor.qubit === qubit)];
+        return outcome[position] === '1' ? -sign : sign;
+      }, 1);
+
+    const counts = results[g].measurements;
+    for (const index of group.terms) estimates[index] = estimateMean(counts, outcome => eigenvalue(terms[index], outcome));
+
+    const combined = estimateMean(counts, outcome =>
+      group.terms.reduce((sum, index) => sum + terms[index].coefficient * eigenvalue(terms[index], outcome), 0));
+    value += combined.value;
+    variance += combined.standardError ** 2;
+  });
+
+  return { total: { value, standardError: Math.sqrt(variance) }, terms: estimates };
+}
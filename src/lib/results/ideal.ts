@@ -0,0 +1,41 @@
+import { outputBits, type Circuit } from '../quantum/circuit.ts';
+import { idealDistribution } from '../quantum/exact.ts';
+import type { QuantumResult } from './schema.ts';
+import { registerMap, registerNames } from './shots.ts';
+import type { Distribution } from './statistics.ts';
+
+// Simulated on the page, so larger circuits would freeze it
+export const MAX_IDEAL_QUBITS = 14;
+
+const resultWidth = (results: QuantumResult) =>
+  results.registers ? Object.keys(results.registers).length : Object.keys(results.measurements)[0]?.length ?? 0;
+
+/**
+ * The noiseless distribution of a circuit's results, with bits in the order
+ * `results` reports them. Throws when the circuit is too large to simulate
+ * exactly or doesn't measure the bits the results have.
+ */
+export function idealProbabilities(circuit: Circuit, results: QuantumResult): Distribution {
+  if (circuit.numQubits > MAX_IDEAL_QUBITS) {
+    throw new Error(`Circuits over ${MAX_IDEAL_QUBITS} qubits are too large to simulate exactly here`);
+  }
+  const circuitRegisters = registerMap(outputBits(circuit).map(clbit => circuit.clbitLabels[clbit]));
+  const names = registerNames(results.registers ?? {});
+  const width = resultWidth(results);
+  if (Object.keys(circuitRegisters).length !== width) {
+    throw new Error(`The circuit measures ${Object.keys(circuitRegisters).length} bits but the results have ${width}`);
+  }
+
+  // Service results may name or order bits differently from the compiled
+  // circuit; match them up by name when every name is shared
+  const order = names.length === width && names.every(name => name in circuitRegisters)
+    ? names.map(name => circuitRegisters[name])
+    : null;
+
+  const ideal: Distribution = {};
+  for (const [bitstring, p] of idealDistribution(circuit)) {
+    const key = order ? order.map(index => bitstring[index]).join('') : bitstring;
+    ideal[key] = (ideal[key] ?? 0) + p;
+  }
+  return ideal;
+}
@@ -0,0 +1,172 @@
+// Statistics for judging a run's counts against the distribution it should
+// follow. Distributions map bitstrings to fractions of 1; entropies are in
+// bits.
+
+export type Distribution = Record<string, number>;
+
+export interface Interval {
+  lower: number;
+  upper: number;
+}
+
+export interface ChiSquaredTest {
+  statistic: number;
+  degreesOfFreedom: number;
+  pValue: number;
+}
+
+// Two-sided 95% quantile of the standard normal distribution
+const Z_95 = 1.959963984540054;
+
+// Outcomes expected fewer times than this are pooled for the chi-squared
+// test, below which its approximation stops holding
+const MIN_EXPECTED_COUNT = 5;
+
+/**
+ * Wilson score interval for the probability behind `count` successes in
+ * `shots` trials. Unlike the normal approximation it stays inside [0, 1]
+ * and doesn't collapse to a point when an outcome was never or always seen.
+ */
+export function wilsonInterval(count: number, shots: number, z = Z_95): Interval {
+  if (shots === 0) return { lower: 0, upper: 1 };
+  const p = count / shots;
+  const z2 = z * z;
+  const center = (p + z2 / (2 * shots)) / (1 + z2 / shots);
+  const halfWidth = (z / (1 + z2 / shots)) * Math.sqrt(p * (1 - p) / shots + z2 / (4 * shots * shots));
+  return { lower: Math.max(0, center - halfWidth), upper: Math.min(1, center + halfWidth) };
+}
+
+export function totalVariationDistance(p: Distribution, q: Distribution): number {
+  const outcomes = new Set([...Object.keys(p), ...Object.keys(q)]);
+  let sum = 0;
+  for (const outcome of outcomes) sum += Math.abs((p[outcome] ?? 0) - (q[outcome] ?? 0));
+  return sum / 2;
+}
+
+/**
+ * Classical fidelity (Σ √(p·q))² of two distributions: 1 when they are
+ * identical and 0 when they share no outcome. It is (1 - H²)² for the
+ * Hellinger distance H.
+ */
+export function hellingerFidelity(p: Distribution, q: Distribution): number {
+  let overlap = 0;
+  for (const outcome of Object.keys(p)) overlap += Math.sqrt(p[outcome] * (q[outcome] ?? 0));
+  return Math.min(1, overlap * overlap);
+}
+
+export function shannonEntropy(distribution: Distribution): number {
+  let entropy = 0;
+  for (const p of Object.values(distribution)) {
+    if (p > 0) entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+/**
+ * Sum a distribution (or counts) over every bit but `bits`, given as
+ * positions in the bitstring, leftmost first. Keys of the result list the
+ * chosen bits in the order given.
+ */
+export function marginalize(distribution: Distribution, bits: number[]): Distribution {
+  const marginal: Distribution = {};
+  for (const [outcome, value] of Object.entries(distribution)) {
+    const key = bits.map(bit => outcome[bit] ?? '0').join('');
+    marginal[key] = (marginal[key] ?? 0) + value;
+  }
+  return marginal;
+}
+
+// --- Chi-squared distribution ---
+
+// Lanczos approximation, accurate to about 15 digits for x > 0
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313,
+  -176.61502916214059, 12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6,
+  1.5056327351493116e-7,
+];
+
+function logGamma(x: number): number {
+  if (x < 0.5) return Math.log(Math.PI / Math.sin(Math.PI * x)) - logGamma(1 - x);
+  const z = x - 1;
+  let sum = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) sum += LANCZOS[i] / (z + i);
+  const t = z + LANCZOS.length - 1.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(sum);
+}
+
+const MAX_ITERATIONS = 500;
+const EPSILON = 1e-14;
+
+// Regularized upper incomplete gamma function Q(a, x): a series for P when x
+// is small and a continued fraction for Q otherwise
+function upperGamma(a: number, x: number): number {
+  if (x <= 0) return 1;
+  const logPrefix = a * Math.log(x) - x - logGamma(a);
+
+  if (x < a + 1) {
+    let term = 1 / a;
+    let sum = term;
+    for (let n = 1; n < MAX_ITERATIONS && Math.abs(term) > Math.abs(sum) * EPSILON; n++) {
+      term *= x / (a + n);
+      sum += term;
+    }
+    return 1 - sum * Math.exp(logPrefix);
+  }
+
+  // Modified Lentz's method
+  const tiny = 1e-300;
+  let b = x + 1 - a;
+  let c = 1 / tiny;
+  let d = 1 / b;
+  let h = d;
+  for (let n = 1; n < MAX_ITERATIONS; n++) {
+    const an = -n * (n - a);
+    b += 2;
+    d = an * d + b;
+    if (Math.abs(d) < tiny) d = tiny;
+    c = b + an / c;
+    if (Math.abs(c) < tiny) c = tiny;
+    d = 1 / d;
+    const delta = d * c;
+    h *= delta;
+    if (Math.abs(delta - 1) < EPSILON) break;
+  }
+  return Math.exp(logPrefix) * h;
+}
+
+// P(X ≥ statistic) for X chi-squared with the given degrees of freedom
+export const chiSquaredSurvival = (statistic: number, degreesOfFreedom: number) =>
+  Math.min(1, Math.max(0, upperGamma(degreesOfFreedom / 2, statistic / 2)));
+
+/**
+ * Pearson's goodness-of-fit test of observed counts against expected
+ * probabilities. Outcomes expected fewer than 5 times are pooled into one
+ * bin. An outcome the expected distribution rules out gives a p-value of 0.
+ */
+export function chiSquaredTest(counts: Record<string, number>, expected: Distribution, shots: number): ChiSquaredTest {
+  const outcomes = new Set([...Object.keys(counts), ...Object.keys(expected)]);
+  const bins: { observed: number; expected: number }[] = [];
+  const pooled = { observed: 0, expected: 0 };
+  let impossible = false;
+  for (const outcome of outcomes) {
+    const observed = counts[outcome] ?? 0;
+    const expectedCount = (expected[outcome] ?? 0) * shots;
+    if (expectedCount === 0 && observed > 0) impossible = true;
+    if (expectedCount < MIN_EXPECTED_COUNT) {
+      pooled.observed += observed;
+      pooled.expected += expectedCount;
+    } else {
+      bins.push({ observed, expected: expectedCount });
+    }
+  }
+  if (pooled.expected > 0) bins.push(pooled);
+
+  const degreesOfFreedom = Math.max(1, bins.length - 1);
+  if (impossible) return { statistic: Infinity, degreesOfFreedom, pValue: 0 };
+  const statistic = bins.reduce((sum, bin) => sum + (bin.observed - bin.expected) ** 2 / bin.expected, 0);
+  return {
+    statistic,
+    degreesOfFreedom,
+    pValue: bins.length > 1 ? chiSquaredSurvival(statistic, degreesOfFreedom) : 1,
+  };
+}
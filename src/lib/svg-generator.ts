@@ -1,6 +1,7 @@
 import ikfLogo from "@/assets/ikf-logo.png";
 import iyqLogoWhite from "@/assets/iyq-logo-white.png";
 import quantumKrumpLogo from "@/assets/quantum-krump-logo.png";
+import type { QuantumResult } from "@/lib/results/schema";
 
 export interface JobMetadata {
   circuit?: string;
@@ -31,7 +32,10 @@ async function imageToBase64(url: string): Promise<string> {
   });
 }
 
-export const generateResultsSVG = async (results: any, jobMetadata?: JobMetadata): Promise<string> => {
+// The parts of a result the export draws
+export type ResultsSummary = Pick<QuantumResult, 'measurements' | 'probabilities' | 'shots' | 'circuit'>;
+
+export const generateResultsSVG = async (results: ResultsSummary, jobMetadata?: JobMetadata): Promise<string> => {
   const measurements = results.measurements || {};
   const probabilities = results.probabilities || {};
   const shots = results.shots || jobMetadata?.shots || 0;
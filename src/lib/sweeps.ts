@@ -0,0 +1,173 @@
+import type { Json } from "@/integrations/supabase/types";
+import { parseGuppy } from "@/lib/guppy/parser";
+import { kernelParameters, type Bindings, type KernelParameter } from "@/lib/guppy/compile";
+import { tryReadQuantumResult } from "@/lib/results/schema";
+
+// Parameter sweeps: the grid a sweep runs over and the observables plotted
+// against it
+
+export const MAX_SWEEP_POINTS = 200;
+
+// Declared as type aliases so sweeps can be stored in Json columns
+export type SweepAxis =
+  // A classical kernel parameter, e.g. theta in `def ansatz(theta: float)`
+  | { kind: 'parameter'; name: string; values: number[] }
+  | { kind: 'shots'; values: number[] }
+  // Multiplier applied to every rate of the noise model
+  | { kind: 'noise'; values: number[] };
+
+// Value of every axis at one grid point, keyed by axisKey
+export type SweepPoint = Record<string, number>;
+
+export interface SweepRange {
+  start: number;
+  stop: number;
+  // Evenly spaced values from start to stop; 1 holds the axis at start
+  steps: number;
+}
+
+export interface SweepSettings {
+  // Ranges for kernel parameters, by name; unset parameters use defaultSweepRange
+  parameters: Record<string, SweepRange>;
+  shots: SweepRange | null;
+  noise: SweepRange | null;
+}
+
+export interface SweepResultPoint {
+  point: SweepPoint;
+  jobId: string | null;
+  results: Json | null;
+}
+
+export interface SweepRun {
+  sweepId: string;
+  axes: SweepAxis[];
+  points: SweepResultPoint[];
+}
+
+export type Observable =
+  | { kind: 'probability'; bitstring: string }
+  // ⟨Z⟩ of one result bit, counted from the left of the bitstring
+  | { kind: 'z'; bit: number }
+  // ⟨Z⊗…⊗Z⟩ over every result bit
+  | { kind: 'parity' };
+
+export const axisKey = (axis: SweepAxis) =>
+  axis.kind === 'parameter' ? axis.name : axis.kind === 'shots' ? 'shots' : 'noise_scale';
+
+export const axisLabel = (axis: SweepAxis) =>
+  axis.kind === 'parameter' ? axis.name : axis.kind === 'shots' ? 'Shots' : 'Noise scale';
+
+// Classical kernel parameters of `source`; none while it doesn't parse
+export const sweepableParameters = (source: string): KernelParameter[] => {
+  try {
+    return kernelParameters(parseGuppy(source));
+  } catch {
+    return [];
+  }
+};
+
+export const NO_SWEEP: SweepSettings = { parameters: {}, shots: null, noise: null };
+
+export const defaultSweepRange = (parameter: KernelParameter): SweepRange =>
+  parameter.type === 'int' ? { start: 0, stop: 4, steps: 1 } : { start: 0, stop: Math.PI, steps: 1 };
+
+export const rangeFor = (settings: SweepSettings, parameter: KernelParameter) =>
+  settings.parameters[parameter.name] ?? defaultSweepRange(parameter);
+
+// Kernel parameters bound to the start of their ranges, for a single run
+export const startBindings = (settings: SweepSettings, parameters: KernelParameter[]): Bindings =>
+  Object.fromEntries(parameters.map(parameter => [parameter.name, rangeFor(settings, parameter).start]));
+
+export function rangeValues({ start, stop, steps }: SweepRange): number[] {
+  if (!Number.isInteger(steps) || steps < 1) {
+    throw new Error('Sweep ranges need a whole number of steps, at least 1');
+  }
+  if (!Number.isFinite(start) || !Number.isFinite(stop)) {
+    throw new Error('Sweep ranges need numeric start and stop values');
+  }
+  if (steps === 1) return [start];
+  return Array.from({ length: steps }, (_, i) => start + ((stop - start) * i) / (steps - 1));
+}
+
+// Axes for the sweep panel's settings; every kernel parameter gets one, so
+// parameters that aren't swept are still bound to a value
+export function sweepAxes(settings: SweepSettings, parameters: KernelParameter[]): SweepAxis[] {
+  const axes: SweepAxis[] = parameters.map(parameter => ({
+    kind: 'parameter',
+    name: parameter.name,
+    values: rangeValues(rangeFor(settings, parameter)),
+  }));
+
+  if (settings.shots) {
+    const shots = [...new Set(rangeValues(settings.shots).map(Math.round))];
+    if (shots.some(value => value < 1)) throw new Error('Swept shot counts must be at least 1');
+    axes.push({ kind: 'shots', values: shots });
+  }
+  if (settings.noise) {
+    const scales = rangeValues(settings.noise);
+    if (scales.some(value => value < 0)) throw new Error('Noise scales cannot be negative');
+    axes.push({ kind: 'noise', values: scales });
+  }
+  return axes;
+}
+
+export const countSweepPoints = (axes: SweepAxis[]) =>
+  axes.reduce((count, axis) => count * axis.values.length, 1);
+
+// Every combination of axis values, with the first axis varying slowest
+export function expandSweep(axes: SweepAxis[]): SweepPoint[] {
+  const keys = axes.map(axisKey);
+  const duplicate = keys.find((key, i) => keys.indexOf(key) !== i);
+  if (duplicate) throw new Error(`Sweep axis "${duplicate}" is declared twice`);
+  if (axes.some(axis => axis.values.length === 0)) throw new Error('Every sweep axis needs at least one value');
+
+  const count = countSweepPoints(axes);
+  if (count > MAX_SWEEP_POINTS) {
+    throw new Error(`Sweep has ${count} points; at most ${MAX_SWEEP_POINTS} are allowed`);
+  }
+
+  let points: SweepPoint[] = [{}];
+  for (const axis of axes) {
+    const key = axisKey(axis);
+    points = points.flatMap(point => axis.values.map(value => ({ ...point, [key]: value })));
+  }
+  return points;
+}
+
+const probabilitiesOf = (results: Json | null) => tryReadQuantumResult(results)?.probabilities ?? null;
+
+// Bitstrings seen at any point, for the observable picker
+export const sweepBitstrings = (points: SweepResultPoint[]) =>
+  [...new Set(points.flatMap(({ results }) => Object.keys(probabilitiesOf(results) ?? {})))].sort();
+
+export function observableValue(results: Json | null, observable: Observable): number | null {
+  const probabilities = probabilitiesOf(results);
+  if (!probabilities) return null;
+
+  switch (observable.kind) {
+    case 'probability':
+      return probabilities[observable.bitstring] ?? 0;
+    case 'z':
+      return Object.entries(probabilities).reduce(
+        (sum, [bitstring, p]) => sum + (bitstring[observable.bit] === '1' ? -p : p),
+        0
+      );
+    case 'parity':
+      return Object.entries(probabilities).reduce((sum, [bitstring, p]) => {
+        const ones = [...bitstring].filter(bit => bit === '1').length;
+        return sum + (ones % 2 ? -p : p);
+      }, 0);
+  }
+}
+
+export const observableLabel = (observable: Observable) => {
+  switch (observable.kind) {
+    case 'probability':
+      return `P(${observable.bitstring})`;
+    case 'z':
+      return `⟨Z${observable.bit}⟩`;
+    case 'parity':
+      return '⟨Z…Z⟩';
+  }
+};
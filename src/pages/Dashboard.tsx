@@ -1,100 +1,167 @@
-import { useState, useEffect } from "react";
-import { useNavigate } from "react-router-dom";
+import { useState, useEffect, useCallback, useMemo } from "react";
+import { useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
 import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables } from "@/integrations/supabase/types";
 import { CircuitLibrary } from "@/components/CircuitLibrary";
 import { CircuitEditor } from "@/components/CircuitEditor";
+import { CircuitDiagram } from "@/components/CircuitDiagram";
+import { CircuitComposer } from "@/components/CircuitComposer";
 import { AIAssistant } from "@/components/AIAssistant";
 import { MobileAIChat } from "@/components/MobileAIChat";
 import { JobQueue } from "@/components/JobQueue";
 import { QuantumResults } from "@/components/QuantumResults";
 
 import { CircuitGeneratorDialog } from "@/components/CircuitGeneratorDialog";
+import { QasmImportDialog } from "@/components/QasmImportDialog";
+import { NoisePanel } from "@/components/NoisePanel";
+import { JobDetails } from "@/components/JobDetails";
+import { JobComparison } from "@/components/JobComparison";
+import { SweepPanel } from "@/components/SweepPanel";
+import { SweepResults } from "@/components/SweepResults";
+import { ObservablePanel } from "@/components/ObservablePanel";
+import { ObservableResults } from "@/components/ObservableResults";
+import { TemplateParametersForm } from "@/components/TemplateParametersForm";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
 import { useToast } from "@/hooks/use-toast";
-import { Atom, Play, LogOut, Loader2 } from "lucide-react";
+import { requestFromJob, useQuantumExecution, type ExecutionRequest, type ObservableRun } from "@/hooks/useQuantumExecution";
+import { Atom, Play, LogOut, Loader2, Square, History } from "lucide-react";
 import { CircuitTemplate } from "@/lib/circuit-templates";
+import { compileGuppy, type Bindings } from "@/lib/guppy/compile";
+import { checkGuppySource } from "@/lib/guppy/linearity";
+import { GuppyError } from "@/lib/guppy/ast";
+import {
+  TemplateError,
+  defaultParameterValues,
+  isTemplate,
+  parseDeclarations,
+  renderTemplate,
+  type ParameterDeclarations,
+  type ParameterValues,
+} from "@/lib/guppy/template";
+import { getBackend, listBackends, unsupportedReason } from "@/lib/backends/registry";
+import { JobCancelledError } from "@/lib/backends/errors";
+import type { QuantumBackend } from "@/lib/backends/types";
+import { DEFAULT_NOISE_MODEL, type NoiseModel } from "@/lib/quantum/noise";
+import type { Circuit } from "@/lib/quantum/circuit";
+import { denseLabel, groupTerms, parseObservable } from "@/lib/quantum/pauli";
+import { readQuantumResult } from "@/lib/results/schema";
+import { circuitName, jobCircuit, jobNoise } from "@/lib/job-format";
+import {
+  NO_SWEEP,
+  startBindings,
+  sweepAxes,
+  sweepableParameters,
+  type SweepAxis,
+  type SweepPoint,
+  type SweepRun,
+  type SweepSettings,
+} from "@/lib/sweeps";
+
+const backends = listBackends();
+
+const describeCapabilities = ({ capabilities, location }: QuantumBackend) => [
+  location === 'browser' ? 'Runs in your browser' : 'Quantum service',
+  `up to ${capabilities.maxQubits} qubits`,
+  capabilities.supportsNoise && 'noise models',
+  capabilities.supportsStatevector && 'statevector output',
+  capabilities.supportsMidCircuitMeasurement ? 'mid-circuit measurement' : 'terminal measurements only',
+].filter(Boolean).join(' · ');
+
+// Qubit count for the noise panel's qubit overrides; 0 while the code doesn't compile
+const countQubits = (code: string, bindings: Bindings) => {
+  try {
+    return compileGuppy(code, { bindings }).numQubits;
+  } catch {
+    return 0;
+  }
+};
 
 export default function Dashboard() {
   const { user, loading: authLoading, signOut } = useAuth();
   const navigate = useNavigate();
+  const [searchParams, setSearchParams] = useSearchParams();
   const { toast } = useToast();
+  const { execute, executeSweep, executeObservable, cancel, executing, cancellable, progress: executionProgress } = useQuantumExecution();
 
   const [code, setCode] = useState("");
   const [backendType, setBackendType] = useState("statevector");
   const [shots, setShots] = useState(1024);
-  const [executing, setExecuting] = useState(false);
-  const [results, setResults] = useState<any>(null);
+  // Blank draws a new seed for every run
+  const [seed, setSeed] = useState<number | null>(null);
+  const [useCache, setUseCache] = useState(false);
+  const [noiseEnabled, setNoiseEnabled] = useState(false);
+  const [noiseModel, setNoiseModel] = useState<NoiseModel>(DEFAULT_NOISE_MODEL);
+  const [templateParameters, setTemplateParameters] = useState<ParameterDeclarations>({});
+  const [templateValues, setTemplateValues] = useState<ParameterValues>({});
+  // As stored in quantum_jobs.results; QuantumResults validates it
+  const [results, setResults] = useState<Json | null>(null);
+  // The circuit behind `results`, for the ideal distribution in the analysis
+  const [resultsCircuit, setResultsCircuit] = useState<Circuit | null>(null);
+  const [sweepEnabled, setSweepEnabled] = useState(false);
+  const [sweepSettings, setSweepSettings] = useState<SweepSettings>(NO_SWEEP);
+  const [sweep, setSweep] = useState<SweepRun | null>(null);
+  const [observableEnabled, setObservableEnabled] = useState(false);
+  const [observableSource, setObservableSource] = useState("ZZ");
+  const [observableRun, setObservableRun] = useState<ObservableRun | null>(null);
   const [selectedCircuitId, setSelectedCircuitId] = useState<string | null>(null);
   const [selectedTemplateId, setSelectedTemplateId] = useState<string | null>(null);
-  const [executionProgress, setExecutionProgress] = useState("");
   const [showGeneratorDialog, setShowGeneratorDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
   const [generatedCircuitMetadata, setGeneratedCircuitMetadata] = useState<any>(null);
   const [currentDomain, setCurrentDomain] = useState<string | null>(null);
   const [currentPrompt, setCurrentPrompt] = useState<string>("");
   const [currentCategory, setCurrentCategory] = useState<string>("");
+  const [detailJob, setDetailJob] = useState<Tables<"quantum_jobs"> | null>(null);
+  const [editorTab, setEditorTab] = useState("code");
+  const [compareJobIds, setCompareJobIds] = useState<string[] | null>(null);
 
-  // Circuit mapping for quantum service API
-  const circuitApiMapping: Record<string, { name: string; n_qubits: number } | null> = {
-    'bell-state': { name: 'bell', n_qubits: 2 },
-    'ghz-state': { name: 'ghz_3', n_qubits: 3 },
-    'teleportation': { name: 'teleport', n_qubits: 3 },
-    'grover-2qubit': null,  // Not available in API
-    'krump-choreography': { name: 'krump_choreography', n_qubits: 3 },
-    'custom': null  // Not available in API
-  };
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
 
-  // Fetch with timeout and automatic retry for cold starts
-  const fetchWithTimeoutAndRetry = async (
-    url: string, 
-    options: RequestInit, 
-    timeoutMs = 90000,
-    onRetry?: () => void
-  ): Promise<Response> => {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-    
+  // The code that runs: templates with their parameters filled in
+  const rendered = useMemo(() => {
     try {
-      const response = await fetch(url, { ...options, signal: controller.signal });
-      clearTimeout(timeoutId);
-      return response;
+      return { code: renderTemplate(code, templateParameters, templateValues), error: null };
     } catch (error) {
-      clearTimeout(timeoutId);
-      
-      // If timeout, throw clear message
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw new Error('Request timed out after 90 seconds');
-      }
-      
-      // Retry once for network errors (cold start scenario)
-      console.log('First attempt failed, retrying (cold start)...');
-      onRetry?.();
-      
-      const retryController = new AbortController();
-      const retryTimeoutId = setTimeout(() => retryController.abort(), timeoutMs);
-      
-      try {
-        const response = await fetch(url, { ...options, signal: retryController.signal });
-        clearTimeout(retryTimeoutId);
-        return response;
-      } catch (retryError) {
-        clearTimeout(retryTimeoutId);
-        if (retryError instanceof Error && retryError.name === 'AbortError') {
-          throw new Error('Request timed out after 90 seconds (retry)');
-        }
-        throw retryError;
-      }
+      if (error instanceof TemplateError) return { code: null, error };
+      throw error;
     }
+  }, [code, templateParameters, templateValues]);
+  const runnableCode = rendered.code ?? code;
+  // The composer edits flat code; its first change would drop the template's
+  // placeholders and directives
+  const composerAvailable = !isTemplate(code);
+
+  const kernelParams = useMemo(() => sweepableParameters(runnableCode), [runnableCode]);
+  const bindings = startBindings(sweepSettings, kernelParams);
+  const noiseAvailable = noiseEnabled && getBackend(backendType).capabilities.supportsNoise;
+
+  // Code loaded from anywhere but a template or its saved circuit has no parameters
+  const clearTemplateParameters = () => {
+    setTemplateParameters({});
+    setTemplateValues({});
   };
 
-  useEffect(() => {
-    if (!authLoading && !user) {
-      navigate("/auth");
-    }
-  }, [user, authLoading, navigate]);
+  // Circuits the quantum service has no built-in version of run in a browser
+  // simulator instead, with a notice saying so
+  const executionBackendId = (circuit: Circuit) => {
+    const selected = getBackend(backendType);
+    const reason = selected.fallbackId ? unsupportedReason(selected, circuit) : null;
+    if (!selected.fallbackId || reason === null) return backendType;
+    const fallback = getBackend(selected.fallbackId);
+    toast({ title: `Running on ${fallback.name}`, description: `${reason}, so it runs in the browser` });
+    return fallback.id;
+  };
 
   const handleSelectTemplate = async (template: CircuitTemplate) => {
     // If custom template is selected, show the generator dialog
@@ -105,14 +172,16 @@ export default function Dashboard() {
     }
 
     setCode(template.guppy_code);
+    setTemplateParameters(template.parameters);
+    setTemplateValues(defaultParameterValues(template.parameters));
     setSelectedCircuitId(null);
     setSelectedTemplateId(template.id);
     setGeneratedCircuitMetadata(null);
     setCurrentDomain(null);
 
-    // Save to library
+    // Save to library; jobs link to the saved copy so its parameters can be restored
     if (user) {
-      const { error } = await supabase
+      const { data, error } = await supabase
         .from('quantum_circuits')
         .insert({
           user_id: user.id,
@@ -121,136 +190,42 @@ export default function Dashboard() {
           guppy_code: template.guppy_code,
           circuit_type: template.circuit_type,
           parameters: template.parameters
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) {
         console.error('Error saving circuit:', error);
+      } else {
+        setSelectedCircuitId(data.id);
       }
     }
 
-    // Auto-execute Krump choreography template
+    // Auto-execute the Krump choreography template on the selected backend
     if (template.id === 'krump-choreography') {
-      executeKrumpChoreography();
+      runExecution({
+        code: template.guppy_code,
+        circuitId: null,
+        backendId: executionBackendId(compileGuppy(template.guppy_code)),
+        shots,
+        seed: seed ?? undefined,
+        useCache
+      }, true);
     }
   };
 
-  const executeKrumpChoreography = async () => {
-    setExecuting(true);
-    setResults(null);
-    setExecutionProgress("Creating job...");
-
-    let progressInterval: NodeJS.Timeout | null = null;
-    let jobId: string | null = null;
-
-    try {
-      // 1. Create job record
-      const { data: job, error: jobError } = await supabase
-        .from('quantum_jobs')
-        .insert({
-          user_id: user?.id,
-          circuit_id: null,
-          backend_type: backendType,
-          shots: shots,
-          status: 'running',
-          parameters: {}
-        })
-        .select()
-        .single();
-
-      if (jobError) throw jobError;
-      jobId = job.id;
-
-      setExecutionProgress("Connecting to quantum service...");
-      const startTime = Date.now();
-
-      // Progress updates
-      progressInterval = setInterval(() => {
-        const elapsed = Math.round((Date.now() - startTime) / 1000);
-        setExecutionProgress(`Waiting for quantum results... ${elapsed}s elapsed`);
-      }, 1000);
-
-      // 2. Call quantum service with timeout and retry for cold starts
-      const quantumResponse = await fetchWithTimeoutAndRetry(
-        'https://quantum-service.fly.dev/run',
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            circuit_name: 'krump_choreography',
-            shots: shots
-          })
-        },
-        90000,
-        () => setExecutionProgress("Waking up quantum service...")
-      );
-
-      clearInterval(progressInterval);
-      progressInterval = null;
-
-      if (!quantumResponse.ok) {
-        const errorData = await quantumResponse.json().catch(() => ({}));
-        throw new Error(errorData.error || `Quantum service error: ${quantumResponse.statusText}`);
-      }
-
-      const quantumResults = await quantumResponse.json();
-      const executionTime = Date.now() - startTime;
-
-      setExecutionProgress("Processing results...");
-
-      // 3. Transform results
-      const transformedResults = transformSeleneResults(quantumResults);
-      
-      // 4. Update job
-      const { error: updateError } = await supabase
-        .from('quantum_jobs')
-        .update({
-          status: 'completed',
-          results: transformedResults,
-          execution_time_ms: executionTime,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', job.id);
-
-      if (updateError) throw updateError;
-
-      // 5. Display results
-      setResults(transformedResults);
-      setExecuting(false);
-      setExecutionProgress("");
-      
-      toast({
-        title: "Quantum Krump Choreography Complete! 💃",
-        description: `Generated ${shots} quantum dance moves in ${(executionTime / 1000).toFixed(1)}s`,
-      });
-
-    } catch (error) {
-      console.error('Krump execution error:', error);
-      if (progressInterval) clearInterval(progressInterval);
-      
-      // Mark job as failed in database
-      if (jobId) {
-        await supabase
-          .from('quantum_jobs')
-          .update({
-            status: 'failed',
-            error_message: error instanceof Error ? error.message : 'Unknown error',
-            completed_at: new Date().toISOString()
-          })
-          .eq('id', jobId);
-      }
-      
-      setExecuting(false);
-      setExecutionProgress("");
-      toast({
-        title: "Quantum choreography failed",
-        description: error instanceof Error ? error.message : "Unknown error",
-        variant: "destructive"
-      });
-    }
+  const handleImportedCircuit = (code: string, circuitId: string | null) => {
+    setCode(code);
+    clearTemplateParameters();
+    setSelectedCircuitId(circuitId);
+    setSelectedTemplateId(null);
+    setGeneratedCircuitMetadata(null);
+    setCurrentDomain(null);
   };
 
   const handleGeneratedCircuit = (code: string, metadata: any) => {
     setCode(code);
+    clearTemplateParameters();
     setGeneratedCircuitMetadata(metadata);
     setCurrentDomain(metadata.domainInsights ? metadata.algorithmUsed : null);
     
@@ -266,88 +241,303 @@ export default function Dashboard() {
     if (metadata.suggestedShots) {
       setShots(metadata.suggestedShots);
     }
-    if (metadata.suggestedBackend) {
+    if (backends.some(backend => backend.id === metadata.suggestedBackend)) {
       setBackendType(metadata.suggestedBackend);
     }
   };
 
-  const transformSeleneResults = (seleneData: any): any => {
-    // Unwrap the response if it has a 'data' property
-    const actualData = seleneData?.data || seleneData;
-    
-    if (!actualData?.results || !Array.isArray(actualData.results)) {
-      return actualData;
-    }
+  const runExecution = async (request: ExecutionRequest, isKrump = false) => {
+    setResults(null);
+    setSweep(null);
+    setObservableRun(null);
 
-    const shots = actualData.shots || actualData.results.length;
-    const measurements: Record<string, number> = {};
-    
-    for (const shot of actualData.results) {
-      // Check if this is Krump choreography (uses named results)
-      const isKrump = 'jab_stomp' in shot;
-      
-      let bitstring: string;
+    try {
+      const outcome = await execute(request);
+      setResults(outcome.results);
+      setResultsCircuit(outcome.circuit);
+
+      if (outcome.cachedFrom) {
+        toast({
+          title: "Served from cache",
+          description: `Reused the results of job ${outcome.cachedFrom.slice(0, 8)}, which ran the same circuit, backend, shots, seed and noise`,
+        });
+        return;
+      }
+
+      const inBrowser = outcome.backend.location === 'browser';
+      const duration = outcome.executionTimeMs !== null
+        ? ` in ${(outcome.executionTimeMs / 1000).toFixed(inBrowser ? 2 : 1)}s`
+        : '';
       if (isKrump) {
-        // Krump circuit uses named results in specific order
-        bitstring = [
-          shot.jab_stomp ? '1' : '0',
-          shot.arm_swing ? '1' : '0',
-          shot.chest_pop ? '1' : '0'
-        ].join('');
+        toast({
+          title: "Quantum Krump Choreography Complete! 💃",
+          description: `Generated ${request.shots} quantum dance moves${duration}`,
+        });
+      } else if (inBrowser) {
+        toast({
+          title: "Simulation completed!",
+          description: `${outcome.circuit.numQubits}-qubit circuit simulated locally${duration} with ${request.shots} shots`,
+        });
       } else {
-        // Standard circuits use 'm' prefix (m0, m1, m2, etc.)
-        const measurementKeys = Object.keys(shot)
-          .filter(k => k.startsWith('m'))
-          .sort();
-        
-        bitstring = measurementKeys
-          .map(key => shot[key] ? '1' : '0')
-          .join('');
+        toast({
+          title: "Execution completed!",
+          description: `Circuit executed${duration} with ${request.shots} shots`,
+        });
+      }
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        toast({ title: "Job cancelled", description: error.message });
+        return;
       }
-      
-      measurements[bitstring] = (measurements[bitstring] || 0) + 1;
+      console.error('Execution error:', error);
+      toast({
+        title: isKrump ? "Quantum choreography failed" : "Execution failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
     }
-    
-    const probabilities: Record<string, number> = {};
-    for (const [state, count] of Object.entries(measurements)) {
-      probabilities[state] = count / shots;
+  };
+
+  const runSweep = async (request: ExecutionRequest) => {
+    setResults(null);
+    setSweep(null);
+    setObservableRun(null);
+
+    try {
+      const axes = sweepAxes({ ...sweepSettings, noise: noiseAvailable ? sweepSettings.noise : null }, kernelParams);
+      const run = await executeSweep(request, axes);
+      setSweep(run);
+      toast({
+        title: "Sweep completed!",
+        description: `${run.points.length} points run with ${request.shots} shots each`,
+      });
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        toast({ title: "Sweep cancelled", description: "Points that finished are kept in the job history" });
+        return;
+      }
+      console.error('Sweep error:', error);
+      toast({
+        title: "Sweep failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
     }
-    
-    return {
-      measurements,
-      probabilities,
-      shots,
-      circuit: actualData.circuit,
-      n_qubits: actualData.n_qubits,
-      statevector: null
-    };
   };
 
-  const loadJobResults = async (jobId: string) => {
+  const runObservable = async (request: ExecutionRequest) => {
+    setResults(null);
+    setSweep(null);
+    setObservableRun(null);
+
+    try {
+      const run = await executeObservable(request, observableSource);
+      setObservableRun(run);
+      toast({
+        title: "Observable estimated!",
+        description: `${run.terms.length} terms measured in ${run.groups.length} ${run.groups.length === 1 ? 'basis' : 'bases'} with ${request.shots} shots each`,
+      });
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        toast({ title: "Observable run cancelled", description: "Bases that finished are kept in the job history" });
+        return;
+      }
+      console.error('Observable error:', error);
+      toast({
+        title: "Observable run failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Every basis of the observable run a job belongs to, matched to the groups
+  // of its observable by the basis recorded on each job
+  const loadObservable = async (runId: string) => {
+    const { data: jobs, error } = await supabase
+      .from('quantum_jobs')
+      .select('id, parameters, results')
+      .eq('parameters->observable->>run_id', runId)
+      .eq('status', 'completed');
+
+    type Recorded = { n_qubits?: number; observable?: { hamiltonian?: string; basis?: string } };
+    const recorded = (job: { parameters: Json }) => (job.parameters ?? {}) as Recorded;
+    try {
+      if (error) throw error;
+      const source = jobs.map(job => recorded(job).observable?.hamiltonian).find(Boolean);
+      if (!source) throw new Error('None of the jobs of this observable run completed');
+
+      const terms = parseObservable(source);
+      const groups = groupTerms(terms);
+      const matched = groups.map(group => jobs.find(job => {
+        const { n_qubits, observable } = recorded(job);
+        return observable?.basis === denseLabel(group.basis, n_qubits ?? 0);
+      }));
+      const missing = matched.filter(job => !job).length;
+      if (missing > 0) throw new Error(`${missing} of the run's ${groups.length} bases did not complete`);
+
+      setObservableSource(source);
+      setObservableRun({
+        runId,
+        source,
+        terms,
+        groups,
+        jobIds: matched.map(job => job.id),
+        results: matched.map(job => readQuantumResult(job.results)),
+      });
+    } catch (loadError) {
+      toast({
+        title: "Error loading observable",
+        description: loadError instanceof Error ? loadError.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  };
+
+  // Every point of the sweep a job belongs to, for the sweep plot
+  const loadSweep = async (sweepId: string) => {
+    const [{ data: row, error: sweepError }, { data: jobs, error: jobsError }] = await Promise.all([
+      supabase.from('quantum_sweeps').select('axes').eq('id', sweepId).single(),
+      supabase
+        .from('quantum_jobs')
+        .select('id, parameters, results')
+        .eq('sweep_id', sweepId)
+        .order('created_at', { ascending: true }),
+    ]);
+
+    const error = sweepError ?? jobsError;
+    if (error) {
+      toast({
+        title: "Error loading sweep",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSweep({
+      sweepId,
+      axes: row.axes as unknown as SweepAxis[],
+      points: jobs.map(job => ({
+        point: ((job.parameters as { sweep_point?: SweepPoint } | null)?.sweep_point) ?? {},
+        jobId: job.id,
+        results: job.results,
+      })),
+    });
+  };
+
+  const fetchJob = useCallback(async (jobId: string) => {
     const { data: job, error } = await supabase
       .from('quantum_jobs')
-      .select('results')
+      .select('*')
       .eq('id', jobId)
       .single();
 
     if (error) {
       toast({
-        title: "Error loading results",
+        title: "Error loading job",
         description: error.message,
         variant: "destructive"
       });
-      return;
+      return null;
     }
+    return job;
+  }, [toast]);
 
-    if (job.results) {
+  const loadJobResults = async (jobId: string) => {
+    const job = await fetchJob(jobId);
+    if (!job) return;
+
+    setDetailJob(job);
+    const observableRunId = (job.parameters as { observable?: { run_id?: string } } | null)?.observable?.run_id;
+    if (job.sweep_id) {
+      setObservableRun(null);
+      await loadSweep(job.sweep_id);
+    } else if (observableRunId) {
+      setSweep(null);
+      await loadObservable(observableRunId);
+    } else if (job.results) {
+      setSweep(null);
+      setObservableRun(null);
       setResults(job.results);
+      setResultsCircuit(jobCircuit(job));
+    }
+  };
+
+  // Put a job's code and settings back in the editor to change and run again
+  const openJobInEditor = useCallback(async (job: Tables<"quantum_jobs">) => {
+    if (!job.guppy_code) {
       toast({
-        title: "Results loaded",
-        description: "Previous job results displayed",
+        title: "Can't open job",
+        description: "This job was submitted without a copy of its code",
+        variant: "destructive"
       });
+      return;
+    }
+
+    const { code, circuitId, backendId, shots, seed, bindings } = requestFromJob(job);
+    const noise = jobNoise(job);
+
+    setCode(code);
+    setTemplateParameters({});
+    setTemplateValues({});
+    setSelectedCircuitId(circuitId);
+    setSelectedTemplateId(null);
+    setGeneratedCircuitMetadata(null);
+    setCurrentDomain(null);
+    setShots(shots);
+    setSeed(seed ?? null);
+    if (backends.some(backend => backend.id === backendId)) setBackendType(backendId);
+    setNoiseEnabled(noise !== null);
+    if (noise) setNoiseModel(noise);
+    // Parameters go back in as fixed values, even for a point of a sweep
+    setSweepEnabled(false);
+    setObservableEnabled(false);
+    setSweepSettings(settings => ({
+      ...settings,
+      parameters: Object.fromEntries(Object.entries(bindings ?? {}).map(([name, value]) => [
+        name,
+        { ...(settings.parameters[name] ?? { stop: Number(value), steps: 1 }), start: Number(value) },
+      ])),
+    }));
+    setDetailJob(null);
+
+    // The job ran filled-in template code; bring back the template itself when
+    // its saved circuit still declares the parameters
+    const values = (job.parameters as { template_values?: ParameterValues } | null)?.template_values;
+    if (circuitId && values) {
+      const { data: circuit } = await supabase
+        .from('quantum_circuits')
+        .select('guppy_code, parameters')
+        .eq('id', circuitId)
+        .maybeSingle();
+      const declarations = parseDeclarations(circuit?.parameters);
+      if (circuit && declarations) {
+        setCode(circuit.guppy_code);
+        setTemplateParameters(declarations);
+        setTemplateValues({ ...defaultParameterValues(declarations), ...values });
+      }
     }
+
+    toast({
+      title: "Job opened in editor",
+      description: `Loaded the code and settings of job ${job.id.slice(0, 8)}`,
+    });
+  }, [toast]);
+
+  const rerunJob = (job: Tables<"quantum_jobs">) => {
+    setDetailJob(null);
+    runExecution({ ...requestFromJob(job), useCache }, circuitName(job) === 'krump_choreography');
   };
 
+  // The job history page links here with ?edit=<job id>
+  const editJobId = searchParams.get('edit');
+  useEffect(() => {
+    if (!user || !editJobId) return;
+    setSearchParams({}, { replace: true });
+    fetchJob(editJobId).then(job => job && openJobInEditor(job));
+  }, [user, editJobId, setSearchParams, fetchJob, openJobInEditor]);
+
   const handleExecute = async () => {
     if (!code.trim()) {
       toast({
@@ -358,130 +548,56 @@ export default function Dashboard() {
       return;
     }
 
-    // Check if circuit is supported
-    const circuitConfig = selectedTemplateId ? circuitApiMapping[selectedTemplateId] : null;
-    
-    if (!circuitConfig) {
+    if (rendered.error) {
       toast({
-        title: "Circuit not supported",
-        description: "This circuit is not available in the quantum service yet. Please select Bell State, GHZ State, Teleportation, or Quantum Krump Choreography.",
+        title: "Template error",
+        description: rendered.error.line !== null
+          ? `Line ${rendered.error.line}: ${rendered.error.message}`
+          : rendered.error.message,
         variant: "destructive"
       });
       return;
     }
 
-    setExecuting(true);
-    setResults(null);
-    setExecutionProgress("Creating job...");
-
-    let progressInterval: NodeJS.Timeout | null = null;
-    let jobId: string | null = null;
-
-    try {
-      // 1. Create job record in database
-      const { data: job, error: jobError } = await supabase
-        .from('quantum_jobs')
-        .insert({
-          user_id: user.id,
-          circuit_id: selectedCircuitId,
-          backend_type: backendType,
-          shots,
-          status: 'running',
-          parameters: {}
-        })
-        .select()
-        .single();
-
-      if (jobError) throw jobError;
-      jobId = job.id;
-
-      setExecutionProgress("Connecting to quantum service...");
-      const startTime = Date.now();
-
-      // Show elapsed time during quantum service call
-      progressInterval = setInterval(() => {
-        const elapsed = Math.round((Date.now() - startTime) / 1000);
-        setExecutionProgress(`Waiting for quantum results... ${elapsed}s elapsed`);
-      }, 1000);
-
-      // 2. Call quantum service with timeout and retry for cold starts
-      const quantumResponse = await fetchWithTimeoutAndRetry(
-        'https://quantum-service.fly.dev/run',
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            circuit_name: circuitConfig.name,
-            n_qubits: circuitConfig.n_qubits,
-            shots: shots
-          })
-        },
-        90000,
-        () => setExecutionProgress("Waking up quantum service...")
-      );
-
-      clearInterval(progressInterval);
-      progressInterval = null;
-
-      if (!quantumResponse.ok) {
-        const errorData = await quantumResponse.json().catch(() => ({}));
-        throw new Error(errorData.error || `Quantum service error: ${quantumResponse.statusText}`);
-      }
-
-      const quantumResults = await quantumResponse.json();
-      const executionTime = Date.now() - startTime;
-
-      setExecutionProgress("Processing results...");
-
-      // 3. Transform and update job with results
-      const transformedResults = transformSeleneResults(quantumResults);
-      
-      const { error: updateError } = await supabase
-        .from('quantum_jobs')
-        .update({
-          status: 'completed',
-          results: transformedResults,
-          execution_time_ms: executionTime,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', job.id);
-
-      if (updateError) throw updateError;
-
-      // 4. Display results immediately
-      setResults(transformedResults);
-      setExecuting(false);
-      setExecutionProgress("");
-      
+    const diagnostics = checkGuppySource(runnableCode);
+    if (diagnostics.length > 0) {
+      const [first] = diagnostics;
       toast({
-        title: "Execution completed!",
-        description: `Circuit executed in ${(executionTime / 1000).toFixed(1)}s with ${shots} shots`,
+        title: `Circuit has ${diagnostics.length} error${diagnostics.length === 1 ? '' : 's'}`,
+        description: `Line ${first.span.start.line}: ${first.message}`,
+        variant: "destructive"
       });
+      return;
+    }
 
+    // The checks above only parse; unknown gates, missing angles and the like
+    // surface when the circuit is compiled
+    let circuit: Circuit;
+    try {
+      circuit = compileGuppy(runnableCode, { bindings });
     } catch (error) {
-      console.error('Execution error:', error);
-      if (progressInterval) clearInterval(progressInterval);
-      
-      // Mark job as failed in database
-      if (jobId) {
-        await supabase
-          .from('quantum_jobs')
-          .update({
-            status: 'failed',
-            error_message: error instanceof Error ? error.message : 'Unknown error',
-            completed_at: new Date().toISOString()
-          })
-          .eq('id', jobId);
-      }
-      
-      setExecuting(false);
-      setExecutionProgress("");
       toast({
-        title: "Execution failed",
-        description: error instanceof Error ? error.message : "Unknown error",
+        title: "Circuit has 1 error",
+        description: error instanceof GuppyError
+          ? `Line ${error.line}: ${error.message}`
+          : error instanceof Error ? error.message : "Unknown error",
         variant: "destructive"
       });
+      return;
     }
+
+    const request: ExecutionRequest = {
+      code: runnableCode,
+      circuitId: selectedCircuitId,
+      backendId: executionBackendId(circuit),
+      shots,
+      parameters: Object.keys(templateParameters).length > 0 ? { template_values: templateValues } : undefined,
+      bindings,
+      seed: seed ?? undefined,
+      noise: noiseEnabled ? noiseModel : undefined,
+      useCache
+    };
+    await (observableEnabled ? runObservable(request) : sweepEnabled ? runSweep(request) : runExecution(request));
   };
 
   const handleSignOut = async () => {
@@ -513,10 +629,16 @@ export default function Dashboard() {
               <p className="text-xs md:text-sm text-muted-foreground hidden sm:block">Guppy + Selene + Lovable</p>
             </div>
           </div>
-          <Button onClick={handleSignOut} variant="outline" size="sm" className="touch-target">
-            <LogOut className="w-4 h-4 md:mr-2" />
-            <span className="hidden md:inline">Sign Out</span>
-          </Button>
+          <div className="flex items-center gap-2">
+            <Button onClick={() => navigate("/jobs")} variant="outline" size="sm" className="touch-target">
+              <History className="w-4 h-4 md:mr-2" />
+              <span className="hidden md:inline">Job History</span>
+            </Button>
+            <Button onClick={handleSignOut} variant="outline" size="sm" className="touch-target">
+              <LogOut className="w-4 h-4 md:mr-2" />
+              <span className="hidden md:inline">Sign Out</span>
+            </Button>
+          </div>
         </div>
       </header>
 
@@ -533,20 +655,91 @@ export default function Dashboard() {
 
           {/* Main Content - Full Width */}
           <div className="space-y-3 md:space-y-4">
-              <CircuitEditor 
-                code={code} 
-                onChange={setCode}
-                isCustomCircuit={selectedTemplateId === 'custom'}
-                onGenerateClick={() => setShowGeneratorDialog(true)}
+              <Tabs value={composerAvailable ? editorTab : "code"} onValueChange={setEditorTab}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <TabsList>
+                    <TabsTrigger value="code">Guppy Code</TabsTrigger>
+                    <TabsTrigger value="composer" disabled={!composerAvailable}>Visual Composer</TabsTrigger>
+                  </TabsList>
+                  {!composerAvailable && (
+                    <p className="text-xs text-muted-foreground">
+                      The visual composer can't edit template code; use the Guppy Code tab
+                    </p>
+                  )}
+                </div>
+                <TabsContent value="code">
+                  <CircuitEditor 
+                    code={code} 
+                    onChange={setCode}
+                    renderedCode={rendered.code}
+                    templateError={rendered.error}
+                    isCustomCircuit={selectedTemplateId === 'custom'}
+                    onGenerateClick={() => setShowGeneratorDialog(true)}
+                    onImportClick={() => setShowImportDialog(true)}
+                    currentDomain={currentDomain}
+                    prompt={currentPrompt}
+                    category={currentCategory}
+                    backend={backendType}
+                    shots={shots}
+                  />
+                </TabsContent>
+                <TabsContent value="composer">
+                  <CircuitComposer code={code} onChange={setCode} />
+                </TabsContent>
+              </Tabs>
+
+              {Object.keys(templateParameters).length > 0 && (
+                <TemplateParametersForm
+                  declarations={templateParameters}
+                  values={templateValues}
+                  onValuesChange={setTemplateValues}
+                />
+              )}
+
+              <CircuitDiagram
+                code={runnableCode}
                 currentDomain={currentDomain}
-                prompt={currentPrompt}
-                category={currentCategory}
                 backend={backendType}
                 shots={shots}
               />
 
+              {getBackend(backendType).capabilities.supportsNoise && (
+                <NoisePanel
+                  enabled={noiseEnabled}
+                  onEnabledChange={setNoiseEnabled}
+                  model={noiseModel}
+                  onModelChange={setNoiseModel}
+                  numQubits={countQubits(runnableCode, bindings)}
+                />
+              )}
+
+              <SweepPanel
+                enabled={sweepEnabled}
+                onEnabledChange={(enabled) => {
+                  setSweepEnabled(enabled);
+                  if (enabled) setObservableEnabled(false);
+                }}
+                settings={sweepSettings}
+                onSettingsChange={setSweepSettings}
+                parameters={kernelParams}
+                shots={shots}
+                noiseAvailable={noiseAvailable}
+              />
+
+              <ObservablePanel
+                enabled={observableEnabled}
+                onEnabledChange={(enabled) => {
+                  setObservableEnabled(enabled);
+                  // Each basis is a single run, so the two don't combine
+                  if (enabled) setSweepEnabled(false);
+                }}
+                source={observableSource}
+                onSourceChange={setObservableSource}
+                numQubits={countQubits(runnableCode, bindings) || null}
+              />
+
               {/* Execution Controls */}
-              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-3 md:gap-4 p-3 md:p-4 border rounded-lg bg-card">
+              <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-4 gap-3 md:gap-4 p-3 md:p-4 border rounded-lg bg-card">
                 <div className="space-y-2">
                   <Label htmlFor="backend">Backend</Label>
                   <Select value={backendType} onValueChange={setBackendType}>
@@ -554,12 +747,14 @@ export default function Dashboard() {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="statevector">State Vector</SelectItem>
-                      <SelectItem value="stabilizer">Stabilizer</SelectItem>
-                      <SelectItem value="density_matrix">Density Matrix</SelectItem>
-                      <SelectItem value="noisy">Noisy Simulator</SelectItem>
+                      {backends.map(backend => (
+                        <SelectItem key={backend.id} value={backend.id}>{backend.name}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {describeCapabilities(getBackend(backendType))}
+                  </p>
                 </div>
 
                 <div className="space-y-2">
@@ -575,7 +770,27 @@ export default function Dashboard() {
                   />
                 </div>
 
-                <div className="flex items-end sm:col-span-2 md:col-span-1">
+                <div className="space-y-2">
+                  <Label htmlFor="seed">Seed</Label>
+                  <Input
+                    id="seed"
+                    type="number"
+                    min="0"
+                    step="1"
+                    placeholder="Random"
+                    value={seed ?? ''}
+                    onChange={(e) => setSeed(e.target.value.trim() === '' ? null : Math.max(0, Math.floor(Number(e.target.value))) || 0)}
+                    className="touch-target"
+                  />
+                  <div className="flex items-center gap-2">
+                    <Switch id="use-cache" checked={useCache} onCheckedChange={setUseCache} />
+                    <Label htmlFor="use-cache" className="text-xs font-normal text-muted-foreground">
+                      Use cached results
+                    </Label>
+                  </div>
+                </div>
+
+                <div className="flex items-end gap-2">
                   <Button
                     onClick={handleExecute}
                     disabled={executing || !code.trim()}
@@ -590,19 +805,67 @@ export default function Dashboard() {
                     ) : (
                       <>
                         <Play className="w-4 h-4 mr-2" />
-                        Execute Circuit
+                        {observableEnabled ? "Estimate Observable" : sweepEnabled ? "Run Sweep" : "Execute Circuit"}
                       </>
                     )}
                   </Button>
+                  {cancellable && (
+                    <Button onClick={cancel} variant="outline" className="touch-target" title="Cancel simulation">
+                      <Square className="w-4 h-4" />
+                      <span className="sr-only">Cancel simulation</span>
+                    </Button>
+                  )}
                 </div>
               </div>
 
-              <QuantumResults results={results} />
+              {observableRun ? (
+                <ObservableResults key={observableRun.runId} run={observableRun} />
+              ) : sweep ? (
+                <SweepResults key={sweep.sweepId} sweep={sweep} />
+              ) : (
+                <QuantumResults results={results} circuit={resultsCircuit} />
+              )}
           </div>
         </div>
 
         {/* Floating AI Chat */}
-        <MobileAIChat onJobClick={loadJobResults} />
+        <MobileAIChat onJobClick={loadJobResults} onCompareJobs={setCompareJobIds} />
+
+        {/* Job Details */}
+        <Sheet open={detailJob !== null} onOpenChange={(open) => !open && setDetailJob(null)}>
+          <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+            <SheetHeader>
+              <SheetTitle>{detailJob ? circuitName(detailJob) ?? 'Quantum job' : 'Quantum job'}</SheetTitle>
+              <SheetDescription className="font-mono text-xs break-all">{detailJob?.id}</SheetDescription>
+            </SheetHeader>
+            {detailJob && (
+              <div className="mt-4">
+                <JobDetails
+                  job={detailJob}
+                  onRerun={() => rerunJob(detailJob)}
+                  onOpenInEditor={() => openJobInEditor(detailJob)}
+                  rerunning={executing}
+                  showResults={false}
+                />
+              </div>
+            )}
+          </SheetContent>
+        </Sheet>
+
+        {/* Job Comparison */}
+        <Sheet open={compareJobIds !== null} onOpenChange={(open) => !open && setCompareJobIds(null)}>
+          <SheetContent className="w-full sm:max-w-4xl overflow-y-auto">
+            <SheetHeader>
+              <SheetTitle>Compare {compareJobIds?.length ?? 0} jobs</SheetTitle>
+              <SheetDescription>Differences are measured from the first job ticked</SheetDescription>
+            </SheetHeader>
+            {compareJobIds && (
+              <div className="mt-4">
+                <JobComparison jobIds={compareJobIds} />
+              </div>
+            )}
+          </SheetContent>
+        </Sheet>
 
         {/* Circuit Generator Dialog */}
         <CircuitGeneratorDialog
@@ -610,6 +873,13 @@ export default function Dashboard() {
           onOpenChange={setShowGeneratorDialog}
           onGenerate={handleGeneratedCircuit}
         />
+
+        {/* OpenQASM Import Dialog */}
+        <QasmImportDialog
+          open={showImportDialog}
+          onOpenChange={setShowImportDialog}
+          onImport={handleImportedCircuit}
+        />
       </div>
     </div>
   );
@@ -0,0 +1,573 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { useAuth } from "@/hooks/useAuth";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from "@/components/ui/sheet";
+import { JobStatusBadge, JobStatusIcon } from "@/components/JobStatus";
+import { JobDetails } from "@/components/JobDetails";
+import { JobComparison } from "@/components/JobComparison";
+import { useToast } from "@/hooks/use-toast";
+import { requestFromJob, useQuantumExecution } from "@/hooks/useQuantumExecution";
+import { JobCancelledError } from "@/lib/backends/errors";
+import { listBackends } from "@/lib/backends/registry";
+import { downloadKrumpJobSVG, downloadQuantumJobSVG } from "@/lib/job-downloads";
+import { circuitName, formatDate, formatDuration } from "@/lib/job-format";
+import { ArrowLeft, ChevronLeft, ChevronRight, Download, GitCompare, History, Loader2, RefreshCw } from "lucide-react";
+
+const PAGE_SIZE = 20;
+const STATUSES = ['queued', 'running', 'completed', 'failed', 'cancelled'];
+
+type QuantumJob = Tables<"quantum_jobs">;
+
+// Results can be large, so the table leaves them out; the drawer and the
+// downloads load them per job
+const SUMMARY_COLUMNS = 'id, status, backend_type, shots, created_at, execution_time_ms, parameters, cancel_requested, cached_from';
+type JobSummary = Pick<
+  QuantumJob,
+  'id' | 'status' | 'backend_type' | 'shots' | 'created_at' | 'execution_time_ms' | 'parameters' | 'cancel_requested' | 'cached_from'
+>;
+
+interface JobFilters {
+  status: string;
+  backend: string;
+  circuit: string;
+  // yyyy-mm-dd, inclusive
+  from: string;
+  to: string;
+  minSeconds: string;
+  maxSeconds: string;
+}
+
+const NO_FILTERS: JobFilters = {
+  status: 'all',
+  backend: 'all',
+  circuit: '',
+  from: '',
+  to: '',
+  minSeconds: '',
+  maxSeconds: '',
+};
+
+const backends = listBackends();
+
+const escapeLike = (text: string) => text.replace(/[\\%_]/g, '\\$&');
+
+const startOfDay = (date: string, addDays = 0) => {
+  const day = new Date(`${date}T00:00:00`);
+  day.setDate(day.getDate() + addDays);
+  return day.toISOString();
+};
+
+export default function Jobs() {
+  const { user, loading: authLoading } = useAuth();
+  const navigate = useNavigate();
+  const { toast } = useToast();
+  const { execute, executing } = useQuantumExecution();
+
+  const [filters, setFilters] = useState<JobFilters>(NO_FILTERS);
+  // Filters the current page was loaded with; typing is debounced into these
+  const [appliedFilters, setAppliedFilters] = useState<JobFilters>(NO_FILTERS);
+  const [page, setPage] = useState(0);
+  const [jobs, setJobs] = useState<JobSummary[]>([]);
+  const [total, setTotal] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const [selectedJob, setSelectedJob] = useState<QuantumJob | null>(null);
+  const [downloadingJobId, setDownloadingJobId] = useState<string | null>(null);
+  // Ticked across pages, in order; the first is the comparison's baseline
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const [comparing, setComparing] = useState(false);
+
+  useEffect(() => {
+    if (!authLoading && !user) {
+      navigate("/auth");
+    }
+  }, [user, authLoading, navigate]);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => {
+      setAppliedFilters(filters);
+      setPage(0);
+    }, 300);
+    return () => clearTimeout(timeout);
+  }, [filters]);
+
+  const fetchJobs = useCallback(async () => {
+    const { status, backend, circuit, from, to, minSeconds, maxSeconds } = appliedFilters;
+    let query = supabase.from('quantum_jobs').select(SUMMARY_COLUMNS, { count: 'exact' });
+
+    if (status !== 'all') query = query.eq('status', status);
+    if (backend !== 'all') query = query.eq('backend_type', backend);
+    if (circuit.trim()) query = query.ilike('parameters->>circuit_name', `%${escapeLike(circuit.trim())}%`);
+    if (from) query = query.gte('created_at', startOfDay(from));
+    if (to) query = query.lt('created_at', startOfDay(to, 1));
+    if (minSeconds !== '') query = query.gte('execution_time_ms', Number(minSeconds) * 1000);
+    if (maxSeconds !== '') query = query.lte('execution_time_ms', Number(maxSeconds) * 1000);
+
+    const { data, count, error } = await query
+      .order('created_at', { ascending: false })
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+
+    setLoading(false);
+    if (error) {
+      toast({
+        title: "Error loading jobs",
+        description: error.message,
+        variant: "destructive"
+      });
+      return;
+    }
+    setJobs(data);
+    setTotal(count ?? 0);
+  }, [appliedFilters, page, toast]);
+
+  useEffect(() => {
+    if (!user) return;
+    setLoading(true);
+    fetchJobs();
+
+    // Keep statuses on the visible page current
+    const channel = supabase
+      .channel('job-history')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'quantum_jobs' }, () => fetchJobs())
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user, fetchJobs]);
+
+  useEffect(() => {
+    if (!selectedJobId) {
+      setSelectedJob(null);
+      return;
+    }
+
+    let current = true;
+    supabase
+      .from('quantum_jobs')
+      .select('*')
+      .eq('id', selectedJobId)
+      .single()
+      .then(({ data, error }) => {
+        if (!current) return;
+        if (error) {
+          toast({
+            title: "Error loading job",
+            description: error.message,
+            variant: "destructive"
+          });
+          setSelectedJobId(null);
+          return;
+        }
+        setSelectedJob(data);
+      });
+    return () => {
+      current = false;
+    };
+  }, [selectedJobId, toast]);
+
+  const toggleCompare = (jobId: string, checked: boolean) =>
+    setCompareIds(ids => (checked ? [...ids, jobId] : ids.filter(id => id !== jobId)));
+
+  const updateFilter = (key: keyof JobFilters, value: string) =>
+    setFilters(previous => ({ ...previous, [key]: value }));
+
+  const handleDownload = async (jobId: string, kind: 'quantum' | 'krump', e: React.MouseEvent) => {
+    e.stopPropagation();
+    setDownloadingJobId(jobId);
+
+    try {
+      const { data, error } = await supabase
+        .from('quantum_jobs')
+        .select('results, backend_type, shots, created_at')
+        .eq('id', jobId)
+        .single();
+
+      if (error || !data || !data.results) {
+        throw new Error('Failed to fetch job results');
+      }
+
+      if (kind === 'krump') {
+        await downloadKrumpJobSVG({ id: jobId, ...data });
+      } else {
+        await downloadQuantumJobSVG({ id: jobId, ...data });
+      }
+
+      toast({
+        title: "Success",
+        description: kind === 'krump' ? "Krump choreography downloaded as SVG" : "Quantum data downloaded as SVG",
+      });
+    } catch (error) {
+      console.error('Error downloading job:', error);
+      toast({
+        title: "Error",
+        description: kind === 'krump' ? "Failed to download Krump choreography" : "Failed to download quantum data",
+        variant: "destructive",
+      });
+    } finally {
+      setDownloadingJobId(null);
+    }
+  };
+
+  const handleRerun = async () => {
+    if (!selectedJob) return;
+
+    try {
+      const outcome = await execute(requestFromJob(selectedJob));
+      toast({
+        title: "Re-run completed!",
+        description: `Same code, backend, shots and seed as job ${selectedJob.id.slice(0, 8)}`,
+      });
+      // Show the new job; the original stays in the list to compare against
+      setSelectedJobId(outcome.jobId);
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        toast({ title: "Job cancelled", description: error.message });
+        return;
+      }
+      toast({
+        title: "Re-run failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const hasFilters = JSON.stringify(filters) !== JSON.stringify(NO_FILTERS);
+
+  if (authLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      {/* Header */}
+      <header className="border-b border-border bg-card">
+        <div className="container mx-auto px-2 sm:px-4 py-2 md:py-4 flex items-center justify-between">
+          <div className="flex items-center gap-2 md:gap-3">
+            <div className="p-1.5 md:p-2 rounded-lg bg-primary/10">
+              <History className="w-5 h-5 md:w-6 md:h-6 text-primary" />
+            </div>
+            <div>
+              <h1 className="text-lg md:text-2xl font-bold gradient-quantum bg-clip-text text-transparent">
+                Job History
+              </h1>
+              <p className="text-xs md:text-sm text-muted-foreground hidden sm:block">
+                Every circuit you have run, newest first
+              </p>
+            </div>
+          </div>
+          <Button asChild variant="outline" size="sm" className="touch-target">
+            <Link to="/dashboard">
+              <ArrowLeft className="w-4 h-4 md:mr-2" />
+              <span className="hidden md:inline">Dashboard</span>
+            </Link>
+          </Button>
+        </div>
+      </header>
+
+      <div className="container mx-auto px-2 sm:px-4 py-4 md:py-6 space-y-4 md:space-y-6">
+        {/* Filters */}
+        <Card>
+          <CardContent className="p-4 md:p-6 grid grid-cols-2 md:grid-cols-4 xl:grid-cols-7 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="filter-status" className="text-xs">Status</Label>
+              <Select value={filters.status} onValueChange={(value) => updateFilter('status', value)}>
+                <SelectTrigger id="filter-status" className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All statuses</SelectItem>
+                  {STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{status}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-backend" className="text-xs">Backend</Label>
+              <Select value={filters.backend} onValueChange={(value) => updateFilter('backend', value)}>
+                <SelectTrigger id="filter-backend" className="h-9">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All backends</SelectItem>
+                  {backends.map(backend => (
+                    <SelectItem key={backend.id} value={backend.id}>{backend.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 col-span-2 md:col-span-1">
+              <Label htmlFor="filter-circuit" className="text-xs">Circuit</Label>
+              <Input
+                id="filter-circuit"
+                placeholder="e.g. bell_state"
+                value={filters.circuit}
+                onChange={(e) => updateFilter('circuit', e.target.value)}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-from" className="text-xs">From</Label>
+              <Input
+                id="filter-from"
+                type="date"
+                value={filters.from}
+                onChange={(e) => updateFilter('from', e.target.value)}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-to" className="text-xs">To</Label>
+              <Input
+                id="filter-to"
+                type="date"
+                value={filters.to}
+                onChange={(e) => updateFilter('to', e.target.value)}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-min-time" className="text-xs">Min time (s)</Label>
+              <Input
+                id="filter-min-time"
+                type="number"
+                min="0"
+                step="0.1"
+                value={filters.minSeconds}
+                onChange={(e) => updateFilter('minSeconds', e.target.value)}
+                className="h-9"
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="filter-max-time" className="text-xs">Max time (s)</Label>
+              <Input
+                id="filter-max-time"
+                type="number"
+                min="0"
+                step="0.1"
+                value={filters.maxSeconds}
+                onChange={(e) => updateFilter('maxSeconds', e.target.value)}
+                className="h-9"
+              />
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Jobs */}
+        <Card>
+          <CardHeader className="p-4 md:p-6">
+            <div className="flex items-center justify-between gap-2">
+              <CardTitle className="text-base md:text-lg">
+                {total} {total === 1 ? 'job' : 'jobs'}
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                {compareIds.length > 0 && (
+                  <Button variant="ghost" size="sm" onClick={() => setCompareIds([])}>
+                    Clear selection
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setComparing(true)}
+                  disabled={compareIds.length < 2}
+                  title={compareIds.length < 2 ? "Tick two or more completed jobs" : "Compare the ticked jobs"}
+                >
+                  <GitCompare className="w-4 h-4 sm:mr-1" />
+                  <span className="hidden sm:inline">Compare{compareIds.length > 0 && ` (${compareIds.length})`}</span>
+                </Button>
+                {hasFilters && (
+                  <Button variant="ghost" size="sm" onClick={() => setFilters(NO_FILTERS)}>
+                    Clear filters
+                  </Button>
+                )}
+                <Button variant="outline" size="sm" onClick={() => fetchJobs()} title="Refresh">
+                  <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent className="p-4 md:p-6 pt-0 space-y-4">
+            <div className="rounded-lg border border-border overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-0" />
+                    <TableHead>Status</TableHead>
+                    <TableHead>Circuit</TableHead>
+                    <TableHead className="hidden sm:table-cell">Backend</TableHead>
+                    <TableHead className="hidden md:table-cell text-right">Shots</TableHead>
+                    <TableHead className="hidden md:table-cell">Created</TableHead>
+                    <TableHead className="text-right">Time</TableHead>
+                    <TableHead className="w-0" />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {!loading && jobs.length === 0 && (
+                    <TableRow>
+                      <TableCell colSpan={8} className="text-center text-sm text-muted-foreground py-8">
+                        {hasFilters ? 'No jobs match these filters' : 'No jobs yet. Execute a circuit to get started!'}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {jobs.map(job => {
+                    const name = circuitName(job);
+                    return (
+                      <TableRow key={job.id} onClick={() => setSelectedJobId(job.id)} className="cursor-pointer">
+                        <TableCell onClick={(e) => e.stopPropagation()}>
+                          {job.status === 'completed' && (
+                            <Checkbox
+                              checked={compareIds.includes(job.id)}
+                              onCheckedChange={(checked) => toggleCompare(job.id, checked === true)}
+                              aria-label="Select to compare"
+                            />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <JobStatusIcon status={job.status} />
+                            <JobStatusBadge status={job.status} cancelRequested={job.cancel_requested} cached={Boolean(job.cached_from)} />
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          <code className="text-xs md:text-sm font-mono">{name ?? '—'}</code>
+                        </TableCell>
+                        <TableCell className="hidden sm:table-cell text-xs md:text-sm">{job.backend_type}</TableCell>
+                        <TableCell className="hidden md:table-cell text-right text-sm">{job.shots ?? '—'}</TableCell>
+                        <TableCell className="hidden md:table-cell text-xs text-muted-foreground">
+                          {formatDate(job.created_at)}
+                        </TableCell>
+                        <TableCell className="text-right text-xs md:text-sm">{formatDuration(job.execution_time_ms)}</TableCell>
+                        <TableCell>
+                          {job.status === 'completed' && (
+                            <div className="flex items-center justify-end gap-1">
+                              {name === 'krump_choreography' && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  onClick={(e) => handleDownload(job.id, 'krump', e)}
+                                  disabled={downloadingJobId === job.id}
+                                  className="h-8 w-8"
+                                  title="Download Krump Choreography"
+                                >
+                                  <span className="text-base">💃</span>
+                                </Button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={(e) => handleDownload(job.id, 'quantum', e)}
+                                disabled={downloadingJobId === job.id}
+                                className="h-8 w-8"
+                                title="Download Quantum Data"
+                              >
+                                {downloadingJobId === job.id ? (
+                                  <Loader2 className="w-4 h-4 animate-spin" />
+                                ) : (
+                                  <Download className="w-4 h-4" />
+                                )}
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between text-xs md:text-sm text-muted-foreground">
+              <span>
+                {total > 0
+                  ? `Showing ${page * PAGE_SIZE + 1}–${Math.min((page + 1) * PAGE_SIZE, total)} of ${total}`
+                  : 'Nothing to show'}
+              </span>
+              <div className="flex items-center gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page === 0 || loading}
+                >
+                  <ChevronLeft className="w-4 h-4" />
+                  <span className="hidden sm:inline ml-1">Previous</span>
+                </Button>
+                <span>Page {page + 1} of {pageCount}</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page + 1 >= pageCount || loading}
+                >
+                  <span className="hidden sm:inline mr-1">Next</span>
+                  <ChevronRight className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Job detail drawer */}
+      <Sheet open={selectedJobId !== null} onOpenChange={(open) => !open && setSelectedJobId(null)}>
+        <SheetContent className="w-full sm:max-w-2xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle className="flex items-center gap-2">
+              {selectedJob && <JobStatusIcon status={selectedJob.status} />}
+              {selectedJob ? circuitName(selectedJob) ?? 'Quantum job' : 'Loading job...'}
+            </SheetTitle>
+            <SheetDescription className="font-mono text-xs break-all">{selectedJobId}</SheetDescription>
+          </SheetHeader>
+
+          {!selectedJob ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : (
+            <div className="mt-4">
+              <JobDetails
+                job={selectedJob}
+                onRerun={handleRerun}
+                onOpenInEditor={() => navigate(`/dashboard?edit=${selectedJob.id}`)}
+                rerunning={executing}
+              />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+
+      {/* Comparison drawer */}
+      <Sheet open={comparing} onOpenChange={setComparing}>
+        <SheetContent className="w-full sm:max-w-4xl overflow-y-auto">
+          <SheetHeader>
+            <SheetTitle>Compare {compareIds.length} jobs</SheetTitle>
+            <SheetDescription>Differences are measured from the first job ticked</SheetDescription>
+          </SheetHeader>
+          {comparing && (
+            <div className="mt-4">
+              <JobComparison jobIds={compareIds} />
+            </div>
+          )}
+        </SheetContent>
+      </Sheet>
+    </div>
+  );
+}
@@ -0,0 +1,203 @@
+// Syntax tree for the Guppy subset used by the circuit templates.
+// Modules in this directory import each other with explicit `.ts`
+// extensions so the edge functions can load them under Deno as well.
+
+export interface Position {
+  // 1-based line and column, 0-based character offset
+  line: number;
+  column: number;
+  offset: number;
+}
+
+export interface Span {
+  start: Position;
+  end: Position;
+}
+
+export class GuppyError extends Error {
+  readonly span: Span;
+
+  constructor(message: string, span: Span) {
+    super(message);
+    this.name = 'GuppyError';
+    this.span = span;
+  }
+
+  get line(): number {
+    return this.span.start.line;
+  }
+
+  get column(): number {
+    return this.span.start.column;
+  }
+}
+
+export interface Diagnostic {
+  severity: 'error' | 'warning';
+  code: string;
+  message: string;
+  span: Span;
+}
+
+export function diagnosticFromError(error: GuppyError): Diagnostic {
+  return { severity: 'error', code: 'syntax', message: error.message, span: error.span };
+}
+
+export interface NameExpr {
+  kind: 'name';
+  id: string;
+  span: Span;
+}
+
+export interface NumberExpr {
+  kind: 'number';
+  value: number;
+  span: Span;
+}
+
+export interface BooleanExpr {
+  kind: 'boolean';
+  value: boolean;
+  span: Span;
+}
+
+export interface StringExpr {
+  kind: 'string';
+  value: string;
+  span: Span;
+}
+
+export interface AttributeExpr {
+  kind: 'attribute';
+  object: Expr;
+  attr: string;
+  span: Span;
+}
+
+export interface CallExpr {
+  kind: 'call';
+  callee: Expr;
+  args: Expr[];
+  span: Span;
+}
+
+// Only used in type annotations such as tuple[bool, bool]
+export interface SubscriptExpr {
+  kind: 'subscript';
+  object: Expr;
+  indices: Expr[];
+  span: Span;
+}
+
+export interface TupleExpr {
+  kind: 'tuple';
+  elements: Expr[];
+  span: Span;
+}
+
+export interface UnaryExpr {
+  kind: 'unary';
+  op: '-' | '+' | 'not';
+  operand: Expr;
+  span: Span;
+}
+
+export interface BinaryExpr {
+  kind: 'binary';
+  op: '+' | '-' | '*' | '/' | '**' | '==' | '!=' | 'and' | 'or';
+  left: Expr;
+  right: Expr;
+  span: Span;
+}
+
+export type Expr =
+  | NameExpr
+  | NumberExpr
+  | BooleanExpr
+  | StringExpr
+  | AttributeExpr
+  | CallExpr
+  | SubscriptExpr
+  | TupleExpr
+  | UnaryExpr
+  | BinaryExpr;
+
+export interface AssignStmt {
+  kind: 'assign';
+  targets: NameExpr[];
+  value: Expr;
+  span: Span;
+}
+
+export interface ExprStmt {
+  kind: 'expr';
+  expr: Expr;
+  span: Span;
+}
+
+export interface IfStmt {
+  kind: 'if';
+  test: Expr;
+  body: Stmt[];
+  orelse: Stmt[];
+  span: Span;
+}
+
+export interface ReturnStmt {
+  kind: 'return';
+  value: Expr | null;
+  span: Span;
+}
+
+export interface PassStmt {
+  kind: 'pass';
+  span: Span;
+}
+
+export type Stmt = AssignStmt | ExprStmt | IfStmt | ReturnStmt | PassStmt;
+
+export interface Decorator {
+  name: string;
+  span: Span;
+}
+
+export interface Param {
+  name: string;
+  annotation: Expr | null;
+  span: Span;
+}
+
+export interface FunctionDef {
+  kind: 'function';
+  name: string;
+  decorators: Decorator[];
+  params: Param[];
+  returns: Expr | null;
+  body: Stmt[];
+  span: Span;
+}
+
+export interface ImportStmt {
+  kind: 'import';
+  module: string;
+  names: string[];
+  span: Span;
+}
+
+export interface Module {
+  kind: 'module';
+  imports: ImportStmt[];
+  functions: FunctionDef[];
+  span: Span;
+}
+
+// Decorators that mark a function as a quantum kernel
+export const QUANTUM_DECORATORS = ['quantum', 'guppy'];
+
+export function isQuantumFunction(fn: FunctionDef): boolean {
+  return fn.decorators.some(d => QUANTUM_DECORATORS.includes(d.name.split('.')[0]));
+}
+
+export function spanOf(start: { span: Span }, end: { span: Span }): Span {
+  return { start: start.span.start, end: end.span.end };
+}
@@ -0,0 +1,369 @@
+import { GATES, isGateName } from '../quantum/gates.ts';
+import type { Circuit, ClassicalCondition, Operation } from '../quantum/circuit.ts';
+import {
+  GuppyError,
+  isQuantumFunction,
+  type Expr,
+  type FunctionDef,
+  type Module,
+  type NameExpr,
+  type Span,
+  type Stmt,
+} from './ast.ts';
+import { parseGuppy } from './parser.ts';
+
+// Lowers a parsed Guppy kernel into the shared circuit representation.
+// Gate calls act in place on the qubits passed to them, so rebinding
+// (`q0, q1 = cx(q0, q1)`) simply renames the same wires.
+
+type Value =
+  | { kind: 'qubit'; index: number }
+  | { kind: 'bit'; clbit: number }
+  | { kind: 'number'; value: number }
+  | { kind: 'bool'; value: boolean }
+  | { kind: 'tuple'; values: Value[] }
+  | { kind: 'none' };
+
+export type Bindings = Record<string, number | boolean>;
+
+export interface CompileOptions {
+  // Values for non-qubit parameters of the kernel
+  bindings?: Bindings;
+}
+
+// Classical bit → required value while lowering nested `if` blocks
+type Guard = Map<number, 0 | 1>;
+
+const CONSTANTS: Record<string, number> = { pi: Math.PI, tau: 2 * Math.PI, e: Math.E };
+
+export function findKernel(module: Module): FunctionDef {
+  const kernel = module.functions.find(isQuantumFunction) ?? module.functions[0];
+  if (!kernel) {
+    throw new GuppyError('No quantum function found; define one with @quantum or @guppy', module.span);
+  }
+  return kernel;
+}
+
+export interface KernelParameter {
+  name: string;
+  // Annotated type, e.g. float, int, bool; null when unannotated
+  type: string | null;
+  span: Span;
+}
+
+// Kernel parameters that take classical values from `bindings`
+export function kernelParameters(module: Module): KernelParameter[] {
+  return findKernel(module).params.flatMap(param => {
+    const type = param.annotation?.kind === 'name' ? param.annotation.id : null;
+    return type === 'qubit' ? [] : [{ name: param.name, type, span: param.span }];
+  });
+}
+
+export function compileModule(module: Module, options: CompileOptions = {}): Circuit {
+  const kernel = findKernel(module);
+  const circuit: Circuit = {
+    name: kernel.name,
+    numQubits: 0,
+    qubitLabels: [],
+    clbitLabels: [],
+    outputs: [],
+    operations: [],
+  };
+  const scope = new Map<string, Value>();
+
+  const allocateQubit = (label: string): Value => {
+    circuit.qubitLabels.push(label);
+    return { kind: 'qubit', index: circuit.numQubits++ };
+  };
+
+  const allocateBit = (label: string): number => {
+    circuit.clbitLabels.push(label);
+    return circuit.clbitLabels.length - 1;
+  };
+
+  for (const param of kernel.params) {
+    const type = param.annotation?.kind === 'name' ? param.annotation.id : null;
+    const bound = options.bindings?.[param.name];
+    if (type === 'qubit') {
+      scope.set(param.name, allocateQubit(param.name));
+    } else if (typeof bound === 'number') {
+      scope.set(param.name, { kind: 'number', value: bound });
+    } else if (typeof bound === 'boolean') {
+      scope.set(param.name, { kind: 'bool', value: bound });
+    } else {
+      throw new GuppyError(`Parameter "${param.name}" has no value`, param.span);
+    }
+  }
+
+  const toCondition = (guard: Guard): ClassicalCondition | undefined => {
+    if (guard.size === 0) return undefined;
+    const clbits = [...guard.keys()];
+    const value = clbits.reduce((acc, clbit, i) => acc | (guard.get(clbit)! << i), 0);
+    return { clbits, value };
+  };
+
+  const emit = (op: Operation, guard: Guard) => {
+    if (op.kind !== 'barrier') {
+      const condition = toCondition(guard);
+      if (condition) op.condition = condition;
+    }
+    circuit.operations.push(op);
+  };
+
+  const describeValue = (value: Value) => (value.kind === 'bit' ? 'measurement result' : value.kind);
+
+  const expectQubit = (value: Value, span: Span): number => {
+    if (value.kind !== 'qubit') {
+      throw new GuppyError(`Expected a qubit but got a ${describeValue(value)}`, span);
+    }
+    return value.index;
+  };
+
+  const expectNumber = (value: Value, span: Span): number => {
+    if (value.kind === 'number') return value.value;
+    if (value.kind === 'bool') return value.value ? 1 : 0;
+    throw new GuppyError(`Expected a number but got a ${describeValue(value)}`, span);
+  };
+
+  const calleeName = (expr: Expr): string | null => {
+    if (expr.kind === 'name') return expr.id;
+    // Accept qualified calls such as quantum.h(q)
+    if (expr.kind === 'attribute') return expr.attr;
+    return null;
+  };
+
+  const evaluateCall = (expr: Extract<Expr, { kind: 'call' }>, guard: Guard, targets: string[]): Value => {
+    const name = calleeName(expr.callee);
+    const line = expr.span.start.line;
+    if (name === null) throw new GuppyError('Unsupported call target', expr.callee.span);
+
+    if (name === 'qubit') {
+      if (expr.args.length) throw new GuppyError('qubit() takes no arguments', expr.span);
+      return allocateQubit(targets[0] ?? `q${circuit.numQubits}`);
+    }
+
+    if (name === 'angle') {
+      // Guppy angles are expressed in half-turns
+      if (expr.args.length !== 1) throw new GuppyError('angle() takes one argument', expr.span);
+      return { kind: 'number', value: expectNumber(evaluate(expr.args[0], guard), expr.args[0].span) * Math.PI };
+    }
+
+    const args = expr.args.map(arg => evaluate(arg, guard, []));
+
+    if (name === 'measure') {
+      if (args.length !== 1) throw new GuppyError('measure() takes one qubit', expr.span);
+      const qubit = expectQubit(args[0], expr.args[0].span);
+      const clbit = allocateBit(targets[0] ?? `m${circuit.clbitLabels.length}`);
+      emit({ kind: 'measure', qubit, clbit, line }, guard);
+      return { kind: 'bit', clbit };
+    }
+
+    if (name === 'reset') {
+      if (args.length !== 1) throw new GuppyError('reset() takes one qubit', expr.span);
+      const qubit = expectQubit(args[0], expr.args[0].span);
+      emit({ kind: 'reset', qubit, line }, guard);
+      return args[0];
+    }
+
+    if (name === 'discard') {
+      if (args.length !== 1) throw new GuppyError('discard() takes one qubit', expr.span);
+      expectQubit(args[0], expr.args[0].span);
+      return { kind: 'none' };
+    }
+
+    if (name === 'barrier') {
+      const qubits = args.map((arg, i) => expectQubit(arg, expr.args[i].span));
+      emit({ kind: 'barrier', qubits, line }, guard);
+      return args.length === 1 ? args[0] : { kind: 'tuple', values: args };
+    }
+
+    if (isGateName(name)) {
+      const gate = GATES[name];
+      if (args.length !== gate.numQubits + gate.numParams) {
+        throw new GuppyError(
+          `${name}() takes ${gate.numQubits} qubit(s)${gate.numParams ? ` and ${gate.numParams} angle(s)` : ''}, got ${args.length} argument(s)`,
+          expr.span
+        );
+      }
+      const qubits = args.slice(0, gate.numQubits).map((arg, i) => expectQubit(arg, expr.args[i].span));
+      const params = args.slice(gate.numQubits).map((arg, i) => expectNumber(arg, expr.args[gate.numQubits + i].span));
+      emit({ kind: 'gate', name, qubits, params, line }, guard);
+      const outputs = qubits.map((index): Value => ({ kind: 'qubit', index }));
+      return outputs.length === 1 ? outputs[0] : { kind: 'tuple', values: outputs };
+    }
+
+    throw new GuppyError(`Unknown operation "${name}"`, expr.callee.span);
+  };
+
+  function evaluate(expr: Expr, guard: Guard, targets: string[] = []): Value {
+    switch (expr.kind) {
+      case 'number':
+        return { kind: 'number', value: expr.value };
+      case 'boolean':
+        return { kind: 'bool', value: expr.value };
+      case 'string':
+        return { kind: 'none' };
+      case 'name': {
+        if (expr.id === 'None') return { kind: 'none' };
+        const value = scope.get(expr.id);
+        if (value) return value;
+        if (expr.id in CONSTANTS) return { kind: 'number', value: CONSTANTS[expr.id] };
+        throw new GuppyError(`Unknown variable "${expr.id}"`, expr.span);
+      }
+      case 'attribute':
+        if (expr.object.kind === 'name' && expr.object.id === 'math' && expr.attr in CONSTANTS) {
+          return { kind: 'number', value: CONSTANTS[expr.attr] };
+        }
+        throw new GuppyError('Unsupported attribute access', expr.span);
+      case 'subscript':
+        throw new GuppyError('Indexing is only supported in type annotations', expr.span);
+      case 'tuple':
+        return { kind: 'tuple', values: expr.elements.map(e => evaluate(e, guard)) };
+      case 'call':
+        return evaluateCall(expr, guard, targets);
+      case 'unary': {
+        const operand = evaluate(expr.operand, guard);
+        if (expr.op === 'not') {
+          if (operand.kind === 'bool') return { kind: 'bool', value: !operand.value };
+          throw new GuppyError('"not" on a measurement is only supported in if conditions', expr.span);
+        }
+        const value = expectNumber(operand, expr.operand.span);
+        return { kind: 'number', value: expr.op === '-' ? -value : value };
+      }
+      case 'binary': {
+        const left = evaluate(expr.left, guard);
+        const right = evaluate(expr.right, guard);
+        if (left.kind === 'bit' || right.kind === 'bit') {
+          throw new GuppyError('Measurement results can only be used in if conditions and return values', expr.span);
+        }
+        const a = expectNumber(left, expr.left.span);
+        const b = expectNumber(right, expr.right.span);
+        switch (expr.op) {
+          case '+': return { kind: 'number', value: a + b };
+          case '-': return { kind: 'number', value: a - b };
+          case '*': return { kind: 'number', value: a * b };
+          case '/': return { kind: 'number', value: a / b };
+          case '**': return { kind: 'number', value: a ** b };
+          case '==': return { kind: 'bool', value: a === b };
+          case '!=': return { kind: 'bool', value: a !== b };
+          case 'and': return { kind: 'bool', value: Boolean(a && b) };
+          case 'or': return { kind: 'bool', value: Boolean(a || b) };
+        }
+      }
+    }
+  }
+
+  // Evaluate an `if` test to either a static truth value or a set of
+  // classical bits that must all match.
+  const evaluateTest = (expr: Expr, guard: Guard): boolean | Map<number, 0 | 1> => {
+    if (expr.kind === 'unary' && expr.op === 'not') {
+      const inner = evaluateTest(expr.operand, guard);
+      if (typeof inner === 'boolean') return !inner;
+      if (inner.size !== 1) throw new GuppyError('Negating a compound measurement condition is not supported', expr.span);
+      const [[clbit, value]] = inner;
+      return new Map([[clbit, value === 1 ? 0 : 1]]);
+    }
+
+    if (expr.kind === 'binary' && (expr.op === '==' || expr.op === '!=')) {
+      const left = evaluate(expr.left, guard);
+      const right = evaluate(expr.right, guard);
+      const bit = left.kind === 'bit' ? left : right.kind === 'bit' ? right : null;
+      if (bit) {
+        const other = bit === left ? right : left;
+        if (other.kind === 'bit') throw new GuppyError('Comparing two measurement results is not supported', expr.span);
+        const target = expectNumber(other, expr.span) ? 1 : 0;
+        return new Map([[bit.clbit, (expr.op === '==' ? target : 1 - target) as 0 | 1]]);
+      }
+    }
+
+    if (expr.kind === 'binary' && expr.op === 'and') {
+      const left = evaluateTest(expr.left, guard);
+      const right = evaluateTest(expr.right, guard);
+      if (left === false || right === false) return false;
+      if (left === true) return right;
+      if (right === true) return left;
+      const merged = new Map(left);
+      for (const [clbit, value] of right) {
+        if (merged.has(clbit) && merged.get(clbit) !== value) return false;
+        merged.set(clbit, value);
+      }
+      return merged;
+    }
+
+    const value = evaluate(expr, guard);
+    if (value.kind === 'bit') return new Map([[value.clbit, 1]]);
+    if (value.kind === 'bool') return value.value;
+    if (value.kind === 'number') return value.value !== 0;
+    throw new GuppyError(`Cannot use a ${describeValue(value)} as a condition`, expr.span);
+  };
+
+  const bind = (targets: NameExpr[], value: Value, span: Span) => {
+    if (targets.length === 1) {
+      scope.set(targets[0].id, value);
+      return;
+    }
+    if (value.kind !== 'tuple' || value.values.length !== targets.length) {
+      throw new GuppyError(`Cannot unpack into ${targets.length} variables`, span);
+    }
+    targets.forEach((target, i) => scope.set(target.id, value.values[i]));
+  };
+
+  const lowerBlock = (body: Stmt[], guard: Guard) => {
+    for (const stmt of body) {
+      switch (stmt.kind) {
+        case 'pass':
+          break;
+        case 'expr':
+          evaluate(stmt.expr, guard);
+          break;
+        case 'assign':
+          bind(stmt.targets, evaluate(stmt.value, guard, stmt.targets.map(t => t.id)), stmt.span);
+          break;
+        case 'if': {
+          const test = evaluateTest(stmt.test, guard);
+          if (typeof test === 'boolean') {
+            lowerBlock(test ? stmt.body : stmt.orelse, guard);
+            break;
+          }
+          const inner = new Map(guard);
+          let reachable = true;
+          for (const [clbit, value] of test) {
+            if (inner.has(clbit) && inner.get(clbit) !== value) reachable = false;
+            inner.set(clbit, value);
+          }
+          if (reachable) lowerBlock(stmt.body, inner);
+          if (stmt.orelse.length) {
+            if (test.size !== 1) {
+              throw new GuppyError('else branches are only supported on single-bit conditions', stmt.span);
+            }
+            const [[clbit, value]] = test;
+            const negated = new Map(guard);
+            if (negated.has(clbit) && negated.get(clbit) === value) break;
+            negated.set(clbit, value === 1 ? 0 : 1);
+            lowerBlock(stmt.orelse, negated);
+          }
+          break;
+        }
+        case 'return': {
+          if (guard.size) throw new GuppyError('return inside a conditional block is not supported', stmt.span);
+          if (!stmt.value) break;
+          const value = evaluate(stmt.value, guard);
+          const values = value.kind === 'tuple' ? value.values : [value];
+          circuit.outputs = values.flatMap(v => (v.kind === 'bit' ? [v.clbit] : []));
+          break;
+        }
+      }
+    }
+  };
+
+  lowerBlock(kernel.body, new Map());
+
+  if (circuit.numQubits === 0) {
+    throw new GuppyError(`${kernel.name}() does not allocate any qubits`, kernel.span);
+  }
+  return circuit;
+}
+
+export function compileGuppy(source: string, options: CompileOptions = {}): Circuit {
+  return compileModule(parseGuppy(source), options);
+}
@@ -0,0 +1,176 @@
+import { GuppyError, type Position, type Span } from './ast.ts';
+
+// Python-style tokenizer: tracks indentation, joins lines inside brackets
+// and keeps comments as tokens so the highlighter can reuse it.
+
+export type TokenType =
+  | 'name'
+  | 'keyword'
+  | 'number'
+  | 'string'
+  | 'op'
+  | 'comment'
+  | 'newline'
+  | 'indent'
+  | 'dedent'
+  | 'eof';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+  span: Span;
+}
+
+export const KEYWORDS = new Set([
+  'def', 'return', 'if', 'elif', 'else', 'for', 'in', 'while', 'pass',
+  'from', 'import', 'as', 'and', 'or', 'not', 'True', 'False', 'None',
+]);
+
+const OPERATORS = ['**', '==', '!=', '->', '<=', '>=', '(', ')', '[', ']', ',', ':', '=', '.', '@', '+', '-', '*', '/', '<', '>', '%'];
+
+export function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  const indents = [0];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+  let depth = 0;
+  let atLineStart = true;
+
+  const position = (): Position => ({ line, column, offset });
+
+  const advance = (count: number) => {
+    for (let i = 0; i < count; i++) {
+      if (source[offset] === '\n') {
+        line++;
+        column = 1;
+      } else {
+        column++;
+      }
+      offset++;
+    }
+  };
+
+  const push = (type: TokenType, value: string, start: Position) => {
+    tokens.push({ type, value, span: { start, end: position() } });
+  };
+
+  const lastSignificant = () => {
+    for (let i = tokens.length - 1; i >= 0; i--) {
+      if (tokens[i].type !== 'comment') return tokens[i];
+    }
+    return undefined;
+  };
+
+  while (offset < source.length) {
+    if (atLineStart && depth === 0) {
+      // Measure indentation; blank and comment-only lines don't count
+      let width = 0;
+      let probe = offset;
+      while (source[probe] === ' ' || source[probe] === '\t') {
+        width += source[probe] === '\t' ? 4 : 1;
+        probe++;
+      }
+      const next = source[probe];
+      if (next !== '\n' && next !== '#' && next !== '\r' && probe < source.length) {
+        advance(probe - offset);
+        const start = position();
+        if (width > indents[indents.length - 1]) {
+          indents.push(width);
+          push('indent', '', start);
+        } else {
+          while (width < indents[indents.length - 1]) {
+            indents.pop();
+            push('dedent', '', start);
+          }
+          if (width !== indents[indents.length - 1]) {
+            throw new GuppyError('Inconsistent indentation', { start, end: start });
+          }
+        }
+      }
+      atLineStart = false;
+    }
+
+    const ch = source[offset];
+    const start = position();
+
+    if (ch === '\n') {
+      advance(1);
+      const last = lastSignificant();
+      if (depth === 0 && last && last.type !== 'newline' && last.type !== 'indent' && last.type !== 'dedent') {
+        push('newline', '\n', start);
+      }
+      atLineStart = true;
+      continue;
+    }
+
+    if (ch === ' ' || ch === '\t' || ch === '\r') {
+      advance(1);
+      continue;
+    }
+
+    if (ch === '\\' && source[offset + 1] === '\n') {
+      advance(2);
+      continue;
+    }
+
+    if (ch === '#') {
+      let end = source.indexOf('\n', offset);
+      if (end === -1) end = source.length;
+      const text = source.slice(offset, end);
+      advance(end - offset);
+      push('comment', text, start);
+      continue;
+    }
+
+    if (/[A-Za-z_]/.test(ch)) {
+      const match = /^[A-Za-z_]\w*/.exec(source.slice(offset))!;
+      advance(match[0].length);
+      push(KEYWORDS.has(match[0]) ? 'keyword' : 'name', match[0], start);
+      continue;
+    }
+
+    if (/[0-9]/.test(ch) || (ch === '.' && /[0-9]/.test(source[offset + 1] ?? ''))) {
+      const match = /^(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?/.exec(source.slice(offset))!;
+      advance(match[0].length);
+      push('number', match[0], start);
+      continue;
+    }
+
+    if (ch === '"' || ch === "'") {
+      const triple = source.startsWith(ch.repeat(3), offset);
+      const quote = triple ? ch.repeat(3) : ch;
+      const end = source.indexOf(quote, offset + quote.length);
+      if (end === -1 || (!triple && source.slice(offset, end).includes('\n'))) {
+        throw new GuppyError('Unterminated string literal', { start, end: start });
+      }
+      const text = source.slice(offset, end + quote.length);
+      advance(text.length);
+      push('string', text, start);
+      continue;
+    }
+
+    const op = OPERATORS.find(candidate => source.startsWith(candidate, offset));
+    if (op) {
+      if (op === '(' || op === '[') depth++;
+      if ((op === ')' || op === ']') && depth > 0) depth--;
+      advance(op.length);
+      push('op', op, start);
+      continue;
+    }
+
+    throw new GuppyError(`Unexpected character "${ch}"`, { start, end: start });
+  }
+
+  const end = position();
+  const last = lastSignificant();
+  if (last && last.type !== 'newline' && last.type !== 'dedent' && last.type !== 'indent') {
+    push('newline', '', end);
+  }
+  while (indents.length > 1) {
+    indents.pop();
+    push('dedent', '', end);
+  }
+  push('eof', '', end);
+  return tokens;
+}
@@ -0,0 +1,292 @@
+import { GATES, isGateName } from '../quantum/gates.ts';
+import {
+  GuppyError,
+  diagnosticFromError,
+  type Diagnostic,
+  type Expr,
+  type FunctionDef,
+  type Module,
+  type NameExpr,
+  type Span,
+  type Stmt,
+} from './ast.ts';
+import { findKernel } from './compile.ts';
+import { parseGuppy } from './parser.ts';
+
+// Static checker for Guppy's linear qubit semantics: every qubit value must
+// be used exactly once, gate results must be rebound, and every qubit must
+// be measured, discarded or returned before the function ends.
+
+// Poisoned values come out of an expression that already has a linearity
+// error; they are exempt from further checks so one mistake gets one
+// diagnostic
+type Binding =
+  | { kind: 'qubit'; defined: Span; consumed: Span | null; borrowed: boolean }
+  | { kind: 'classical' }
+  | { kind: 'poisoned' };
+
+type Shape =
+  | { kind: 'qubit' }
+  | { kind: 'classical' }
+  | { kind: 'poisoned' }
+  | { kind: 'tuple'; items: Shape[] };
+
+type Scope = Map<string, Binding>;
+
+const qubitCount = (shape: Shape): number => {
+  if (shape.kind === 'qubit') return 1;
+  if (shape.kind === 'tuple') return shape.items.reduce((n, item) => n + qubitCount(item), 0);
+  return 0;
+};
+
+const isPoisoned = (shape: Shape): boolean =>
+  shape.kind === 'poisoned' || (shape.kind === 'tuple' && shape.items.some(isPoisoned));
+
+const describeLine = (span: Span) => `line ${span.start.line}`;
+
+const cloneScope = (scope: Scope): Scope =>
+  new Map([...scope].map(([name, binding]) => [name, { ...binding }]));
+
+const isLive = (binding: Binding | undefined) =>
+  binding?.kind === 'qubit' && binding.consumed === null;
+
+export function checkFunction(fn: FunctionDef): Diagnostic[] {
+  const diagnostics: Diagnostic[] = [];
+
+  const report = (code: string, message: string, span: Span) => {
+    diagnostics.push({ severity: 'error', code, message, span });
+  };
+
+  // False when the qubit was already consumed
+  const consume = (scope: Scope, name: NameExpr): boolean => {
+    const binding = scope.get(name.id);
+    if (binding?.kind !== 'qubit') return true;
+    if (binding.consumed) {
+      report(
+        'use-after-consume',
+        `Qubit "${name.id}" was already consumed on ${describeLine(binding.consumed)} and cannot be used again`,
+        name.span
+      );
+      return false;
+    }
+    binding.consumed = name.span;
+    return true;
+  };
+
+  const calleeName = (expr: Expr) =>
+    expr.kind === 'name' ? expr.id : expr.kind === 'attribute' ? expr.attr : null;
+
+  const evaluate = (scope: Scope, expr: Expr): Shape => {
+    switch (expr.kind) {
+      case 'name': {
+        const binding = scope.get(expr.id);
+        if (binding?.kind === 'qubit') return consume(scope, expr) ? { kind: 'qubit' } : { kind: 'poisoned' };
+        return { kind: binding?.kind === 'poisoned' ? 'poisoned' : 'classical' };
+      }
+      case 'tuple':
+        return { kind: 'tuple', items: expr.elements.map(e => evaluate(scope, e)) };
+      case 'unary':
+        evaluate(scope, expr.operand);
+        return { kind: 'classical' };
+      case 'binary':
+        evaluate(scope, expr.left);
+        evaluate(scope, expr.right);
+        return { kind: 'classical' };
+      case 'call': {
+        const name = calleeName(expr.callee);
+
+        // The same qubit variable twice in one call is a double use
+        const seen = new Set<string>();
+        const argShapes = expr.args.map((arg): Shape => {
+          if (arg.kind === 'name' && scope.get(arg.id)?.kind === 'qubit') {
+            if (seen.has(arg.id)) {
+              report('duplicate-use', `Qubit "${arg.id}" is passed more than once to ${name ?? 'this call'}()`, arg.span);
+              return { kind: 'poisoned' };
+            }
+            seen.add(arg.id);
+          }
+          return evaluate(scope, arg);
+        });
+        if (argShapes.some(isPoisoned)) return { kind: 'poisoned' };
+        const qubitsIn = argShapes.reduce((n, shape) => n + qubitCount(shape), 0);
+
+        if (name === 'qubit') return { kind: 'qubit' };
+        if (name === 'measure' || name === 'discard') return { kind: 'classical' };
+        if (name === 'reset') return { kind: 'qubit' };
+        if (name === 'barrier' && qubitsIn > 0) {
+          return qubitsIn === 1 ? { kind: 'qubit' } : { kind: 'tuple', items: Array(qubitsIn).fill({ kind: 'qubit' }) };
+        }
+        if (name && isGateName(name)) {
+          const count = GATES[name].numQubits;
+          return count === 1 ? { kind: 'qubit' } : { kind: 'tuple', items: Array(count).fill({ kind: 'qubit' }) };
+        }
+        return { kind: 'classical' };
+      }
+      default:
+        return { kind: 'classical' };
+    }
+  };
+
+  // `value` is the expression assigned from, when the target takes its result
+  const bindTarget = (scope: Scope, target: NameExpr, shape: Shape, value?: Expr) => {
+    const previous = scope.get(target.id);
+    if (shape.kind === 'poisoned') {
+      scope.set(target.id, { kind: 'poisoned' });
+      return;
+    }
+    if (isLive(previous) && previous?.kind === 'qubit') {
+      report(
+        'dropped-qubit',
+        `Assigning to "${target.id}" drops the qubit it held since ${describeLine(previous.defined)}`,
+        target.span
+      );
+    }
+    // A borrowed parameter passed through a gate and rebound (q = h(q)) is
+    // still the caller's; a fresh qubit() under the same name is not
+    const borrowed = previous?.kind === 'qubit' && previous.borrowed && previous.consumed !== null &&
+      value !== undefined && previous.consumed.start.offset >= value.span.start.offset;
+    scope.set(
+      target.id,
+      shape.kind === 'qubit'
+        ? { kind: 'qubit', defined: target.span, consumed: null, borrowed }
+        : { kind: 'classical' }
+    );
+  };
+
+  const describeCall = (expr: Expr) =>
+    expr.kind === 'call' ? `${calleeName(expr.callee) ?? 'call'}()` : 'expression';
+
+  const checkBlock = (scope: Scope, body: Stmt[]): boolean => {
+    for (const stmt of body) {
+      switch (stmt.kind) {
+        case 'pass':
+          break;
+        case 'expr': {
+          const shape = evaluate(scope, stmt.expr);
+          const lost = qubitCount(shape);
+          if (lost > 0) {
+            report(
+              'unbound-result',
+              `The result of ${describeCall(stmt.expr)} is not rebound; ${lost === 1 ? 'its qubit is' : `its ${lost} qubits are`} lost`,
+              stmt.span
+            );
+            // The qubits passed in are left poisoned rather than consumed,
+            // so using them again is not a second error
+            for (const [name, binding] of scope) {
+              if (binding.kind === 'qubit' && binding.consumed && binding.consumed.start.offset >= stmt.span.start.offset) {
+                scope.set(name, { kind: 'poisoned' });
+              }
+            }
+          }
+          break;
+        }
+        case 'assign': {
+          const shape = evaluate(scope, stmt.value);
+          const { targets } = stmt;
+          if (shape.kind === 'poisoned') {
+            targets.forEach(target => bindTarget(scope, target, shape));
+          } else if (targets.length === 1) {
+            if (shape.kind === 'tuple' && qubitCount(shape) > 0) {
+              report(
+                'unbound-result',
+                `${describeCall(stmt.value)} returns ${shape.items.length} values; unpack them into ${shape.items.length} variables`,
+                stmt.span
+              );
+            }
+            bindTarget(scope, targets[0], shape.kind === 'tuple' ? { kind: 'classical' } : shape, stmt.value);
+          } else if (shape.kind === 'tuple' && shape.items.length === targets.length) {
+            targets.forEach((target, i) => bindTarget(scope, target, shape.items[i], stmt.value));
+          } else {
+            const count = shape.kind === 'tuple' ? shape.items.length : 1;
+            if (qubitCount(shape) > 0) {
+              report(
+                'unbound-result',
+                `${describeCall(stmt.value)} returns ${count} value(s) but ${targets.length} variables are assigned`,
+                stmt.span
+              );
+            }
+            targets.forEach(target => bindTarget(scope, target, { kind: 'classical' }));
+          }
+          break;
+        }
+        case 'return':
+          if (stmt.value) evaluate(scope, stmt.value);
+          reportLeaks(scope);
+          return true;
+        case 'if': {
+          evaluate(scope, stmt.test);
+          const thenScope = cloneScope(scope);
+          const elseScope = cloneScope(scope);
+          const thenReturns = checkBlock(thenScope, stmt.body);
+          const elseReturns = checkBlock(elseScope, stmt.orelse);
+          if (thenReturns && elseReturns) return true;
+
+          // Both paths must leave every qubit in the same state
+          const names = new Set([...thenScope.keys(), ...elseScope.keys()]);
+          if (!thenReturns && !elseReturns) {
+            for (const name of names) {
+              const a = thenScope.get(name);
+              const b = elseScope.get(name);
+              if (isLive(a) !== isLive(b)) {
+                report(
+                  'branch-mismatch',
+                  `Qubit "${name}" is ${isLive(a) ? 'still available' : 'consumed'} after the if branch but ${isLive(b) ? 'still available' : 'consumed'} otherwise`,
+                  stmt.span
+                );
+              }
+            }
+          }
+          const survivor = thenReturns ? elseScope : thenScope;
+          scope.clear();
+          for (const [name, binding] of survivor) scope.set(name, binding);
+          break;
+        }
+      }
+    }
+    return false;
+  };
+
+  function reportLeaks(scope: Scope) {
+    for (const [name, binding] of scope) {
+      if (binding.kind === 'qubit' && !binding.borrowed && binding.consumed === null) {
+        report(
+          'dropped-qubit',
+          `Qubit "${name}" is never measured, discarded or returned`,
+          binding.defined
+        );
+      }
+    }
+  }
+
+  const scope: Scope = new Map();
+  for (const param of fn.params) {
+    const type = param.annotation?.kind === 'name' ? param.annotation.id : null;
+    // Qubit parameters are borrowed: the caller keeps ownership
+    scope.set(
+      param.name,
+      type === 'qubit'
+        ? { kind: 'qubit', defined: param.span, consumed: null, borrowed: true }
+        : { kind: 'classical' }
+    );
+  }
+
+  if (!checkBlock(scope, fn.body)) {
+    reportLeaks(scope);
+  }
+
+  return diagnostics.sort((a, b) => a.span.start.offset - b.span.start.offset);
+}
+
+export function checkLinearity(module: Module): Diagnostic[] {
+  return checkFunction(findKernel(module));
+}
+
+// Parse and check in one step; syntax errors come back as diagnostics.
+export function checkGuppySource(source: string): Diagnostic[] {
+  try {
+    return checkLinearity(parseGuppy(source));
+  } catch (error) {
+    if (error instanceof GuppyError) return [diagnosticFromError(error)];
+    throw error;
+  }
+}
@@ -0,0 +1,394 @@
+import {
+  GuppyError,
+  spanOf,
+  type Decorator,
+  type Expr,
+  type FunctionDef,
+  type ImportStmt,
+  type Module,
+  type NameExpr,
+  type Param,
+  type Span,
+  type Stmt,
+} from './ast.ts';
+import { tokenize, type Token } from './lexer.ts';
+
+// Recursive-descent parser for Guppy source. Throws GuppyError with the
+// line and column of the offending token.
+
+const describe = (token: Token): string => {
+  switch (token.type) {
+    case 'newline': return 'end of line';
+    case 'indent': return 'indent';
+    case 'dedent': return 'dedent';
+    case 'eof': return 'end of file';
+    default: return `"${token.value}"`;
+  }
+};
+
+export function parseGuppy(source: string): Module {
+  const tokens = tokenize(source).filter(t => t.type !== 'comment');
+  let pos = 0;
+
+  const peek = (ahead = 0) => tokens[Math.min(pos + ahead, tokens.length - 1)];
+  const next = () => tokens[pos++];
+
+  const is = (value: string, token = peek()) =>
+    (token.type === 'op' || token.type === 'keyword') && token.value === value;
+
+  const fail = (message: string, token = peek()): never => {
+    throw new GuppyError(message, token.span);
+  };
+
+  const expect = (value: string): Token => {
+    if (!is(value)) fail(`Expected "${value}" but found ${describe(peek())}`);
+    return next();
+  };
+
+  const expectType = (type: Token['type'], what: string): Token => {
+    if (peek().type !== type) fail(`Expected ${what} but found ${describe(peek())}`);
+    return next();
+  };
+
+  const span = (start: Token | { span: Span }, end: Token | { span: Span }): Span =>
+    ({ start: start.span.start, end: end.span.end });
+
+  const previous = () => tokens[pos - 1];
+
+  // ---- Expressions ----
+
+  const parseDottedName = (): { name: string; first: Token; last: Token } => {
+    const first = expectType('name', 'a name');
+    let name = first.value;
+    let last = first;
+    while (is('.')) {
+      next();
+      last = expectType('name', 'a name');
+      name += `.${last.value}`;
+    }
+    return { name, first, last };
+  };
+
+  const parseAtom = (): Expr => {
+    const token = peek();
+    if (token.type === 'name') {
+      next();
+      return { kind: 'name', id: token.value, span: token.span };
+    }
+    if (token.type === 'number') {
+      next();
+      return { kind: 'number', value: Number(token.value), span: token.span };
+    }
+    if (token.type === 'string') {
+      next();
+      const quote = token.value.startsWith('"""') || token.value.startsWith("'''") ? 3 : 1;
+      return { kind: 'string', value: token.value.slice(quote, -quote), span: token.span };
+    }
+    if (is('True') || is('False')) {
+      next();
+      return { kind: 'boolean', value: token.value === 'True', span: token.span };
+    }
+    // A keyword, but read as a name so `-> None` and `return None` share one form
+    if (is('None')) {
+      next();
+      return { kind: 'name', id: 'None', span: token.span };
+    }
+    if (is('(')) {
+      const open = next();
+      const elements: Expr[] = [];
+      let trailingComma = false;
+      while (!is(')')) {
+        elements.push(parseExpr());
+        trailingComma = false;
+        if (!is(',')) break;
+        next();
+        trailingComma = true;
+      }
+      const close = expect(')');
+      if (elements.length === 1 && !trailingComma) return elements[0];
+      return { kind: 'tuple', elements, span: span(open, close) };
+    }
+    return fail(`Unexpected ${describe(token)}`);
+  };
+
+  const parsePostfix = (): Expr => {
+    let expr = parseAtom();
+    for (;;) {
+      if (is('(')) {
+        next();
+        const args: Expr[] = [];
+        while (!is(')')) {
+          args.push(parseExpr());
+          if (!is(',')) break;
+          next();
+        }
+        const close = expect(')');
+        expr = { kind: 'call', callee: expr, args, span: { start: expr.span.start, end: close.span.end } };
+      } else if (is('[')) {
+        next();
+        const indices: Expr[] = [];
+        while (!is(']')) {
+          indices.push(parseExpr());
+          if (!is(',')) break;
+          next();
+        }
+        const close = expect(']');
+        expr = { kind: 'subscript', object: expr, indices, span: { start: expr.span.start, end: close.span.end } };
+      } else if (is('.')) {
+        next();
+        const attr = expectType('name', 'an attribute name');
+        expr = { kind: 'attribute', object: expr, attr: attr.value, span: { start: expr.span.start, end: attr.span.end } };
+      } else {
+        return expr;
+      }
+    }
+  };
+
+  const parsePower = (): Expr => {
+    const base = parsePostfix();
+    if (!is('**')) return base;
+    next();
+    const exponent = parseUnary();
+    return { kind: 'binary', op: '**', left: base, right: exponent, span: spanOf(base, exponent) };
+  };
+
+  const parseUnary = (): Expr => {
+    if (is('-') || is('+')) {
+      const op = next();
+      const operand = parseUnary();
+      return { kind: 'unary', op: op.value as '-' | '+', operand, span: span(op, operand) };
+    }
+    return parsePower();
+  };
+
+  const parseBinary = (operand: () => Expr, ops: string[]) => (): Expr => {
+    let left = operand();
+    while (ops.some(op => is(op))) {
+      const op = next().value as '+' | '-' | '*' | '/' | '==' | '!=' | 'and' | 'or';
+      const right = operand();
+      left = { kind: 'binary', op, left, right, span: spanOf(left, right) };
+    }
+    return left;
+  };
+
+  const parseTerm = parseBinary(parseUnary, ['*', '/']);
+  const parseArith = parseBinary(parseTerm, ['+', '-']);
+  const parseComparison = parseBinary(parseArith, ['==', '!=']);
+
+  const parseNot = (): Expr => {
+    if (is('not')) {
+      const op = next();
+      const operand = parseNot();
+      return { kind: 'unary', op: 'not', operand, span: span(op, operand) };
+    }
+    return parseComparison();
+  };
+
+  const parseAnd = parseBinary(parseNot, ['and']);
+  const parseOr = parseBinary(parseAnd, ['or']);
+
+  function parseExpr(): Expr {
+    return parseOr();
+  }
+
+  // Bare tuples are allowed on the right of `=` and after `return`
+  const parseExprList = (): Expr => {
+    const first = parseExpr();
+    if (!is(',')) return first;
+    const elements = [first];
+    while (is(',')) {
+      next();
+      if (peek().type === 'newline') break;
+      elements.push(parseExpr());
+    }
+    return { kind: 'tuple', elements, span: spanOf(first, elements[elements.length - 1]) };
+  };
+
+  // ---- Statements ----
+
+  const parseBlock = (): Stmt[] => {
+    if (peek().type !== 'newline') {
+      return [parseSimpleStatement()];
+    }
+    next();
+    expectType('indent', 'an indented block');
+    const body: Stmt[] = [];
+    while (peek().type !== 'dedent' && peek().type !== 'eof') {
+      body.push(parseStatement());
+    }
+    expectType('dedent', 'end of block');
+    return body;
+  };
+
+  const toTargets = (expr: Expr): NameExpr[] => {
+    const elements = expr.kind === 'tuple' ? expr.elements : [expr];
+    return elements.map(element => {
+      if (element.kind !== 'name') {
+        throw new GuppyError('Only variable names can be assigned to', element.span);
+      }
+      return element;
+    });
+  };
+
+  const endOfStatement = () => {
+    if (peek().type === 'eof' || peek().type === 'dedent') return;
+    if (peek().type !== 'newline') fail(`Expected end of line but found ${describe(peek())}`);
+    next();
+  };
+
+  const parseSimpleStatement = (): Stmt => {
+    const start = peek();
+
+    if (is('pass')) {
+      next();
+      endOfStatement();
+      return { kind: 'pass', span: start.span };
+    }
+
+    if (is('return')) {
+      next();
+      const value = peek().type === 'newline' || peek().type === 'eof' ? null : parseExprList();
+      const stmt: Stmt = { kind: 'return', value, span: value ? span(start, value) : start.span };
+      endOfStatement();
+      return stmt;
+    }
+
+    const expr = parseExprList();
+    if (is('=')) {
+      next();
+      const value = parseExprList();
+      const stmt: Stmt = { kind: 'assign', targets: toTargets(expr), value, span: spanOf(expr, value) };
+      endOfStatement();
+      return stmt;
+    }
+
+    endOfStatement();
+    return { kind: 'expr', expr, span: expr.span };
+  };
+
+  const parseIf = (): Stmt => {
+    const start = next();
+    const test = parseExpr();
+    expect(':');
+    const body = parseBlock();
+    let orelse: Stmt[] = [];
+    if (is('elif')) {
+      orelse = [parseIf()];
+    } else if (is('else')) {
+      next();
+      expect(':');
+      orelse = parseBlock();
+    }
+    const last = orelse[orelse.length - 1] ?? body[body.length - 1];
+    return { kind: 'if', test, body, orelse, span: span(start, last ?? start) };
+  };
+
+  function parseStatement(): Stmt {
+    if (is('if')) return parseIf();
+    if (is('def')) fail('Nested function definitions are not supported');
+    if (is('for') || is('while')) fail(`"${peek().value}" loops are not supported`);
+    return parseSimpleStatement();
+  }
+
+  // ---- Top level ----
+
+  const parseImport = (): ImportStmt => {
+    const start = next();
+    if (start.value === 'import') {
+      const { name, last } = parseDottedName();
+      const stmt: ImportStmt = { kind: 'import', module: name, names: [], span: span(start, last) };
+      endOfStatement();
+      return stmt;
+    }
+    const { name } = parseDottedName();
+    expect('import');
+    const names: string[] = [];
+    let last = previous();
+    do {
+      if (names.length > 0) next();
+      last = expectType('name', 'an imported name');
+      names.push(last.value);
+    } while (is(','));
+    const stmt: ImportStmt = { kind: 'import', module: name, names, span: span(start, last) };
+    endOfStatement();
+    return stmt;
+  };
+
+  const parseFunction = (decorators: Decorator[]): FunctionDef => {
+    const start = expect('def');
+    const name = expectType('name', 'a function name');
+    expect('(');
+    const params: Param[] = [];
+    while (!is(')')) {
+      const param = expectType('name', 'a parameter name');
+      let annotation: Expr | null = null;
+      if (is(':')) {
+        next();
+        annotation = parseExpr();
+      }
+      params.push({ name: param.value, annotation, span: annotation ? span(param, annotation) : param.span });
+      if (!is(',')) break;
+      next();
+    }
+    expect(')');
+    let returns: Expr | null = null;
+    if (is('->')) {
+      next();
+      returns = parseExpr();
+    }
+    expect(':');
+    const body = parseBlock();
+    const last = body[body.length - 1];
+    return {
+      kind: 'function',
+      name: name.value,
+      decorators,
+      params,
+      returns,
+      body,
+      span: span(decorators[0] ?? start, last ?? name),
+    };
+  };
+
+  const imports: ImportStmt[] = [];
+  const functions: FunctionDef[] = [];
+  let decorators: Decorator[] = [];
+
+  while (peek().type !== 'eof') {
+    const token = peek();
+    if (token.type === 'newline') {
+      next();
+    } else if (is('from') || is('import')) {
+      if (decorators.length) fail('Decorators must be followed by a function definition');
+      imports.push(parseImport());
+    } else if (is('@')) {
+      const at = next();
+      const { name, last } = parseDottedName();
+      let end: Token = last;
+      if (is('(')) {
+        // Decorator arguments are accepted and ignored
+        let depth = 0;
+        do {
+          if (is('(')) depth++;
+          if (is(')')) depth--;
+          end = next();
+        } while (depth > 0 && peek().type !== 'eof');
+      }
+      decorators.push({ name, span: span(at, end) });
+      endOfStatement();
+    } else if (is('def')) {
+      functions.push(parseFunction(decorators));
+      decorators = [];
+    } else if (token.type === 'string') {
+      // Module docstring
+      next();
+      endOfStatement();
+    } else {
+      fail(`Unexpected ${describe(token)} at top level`);
+    }
+  }
+
+  const first = tokens[0];
+  const last = tokens[tokens.length - 1];
+  return { kind: 'module', imports, functions, span: span(first, last) };
+}
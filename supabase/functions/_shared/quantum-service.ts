@@ -0,0 +1,177 @@
+import type { NoiseModel } from "./quantum/noise.ts";
+import { validateQuantumResult, type QuantumResult } from "./results/schema.ts";
+import { transformSeleneResults } from "./results/selene.ts";
+
+// Client for the Python quantum service on Fly.io, shared by the edge
+// functions that execute jobs.
+
+export interface ServiceJob {
+  guppy_code: string | null;
+  backend_type: string;
+  shots: number | null;
+  parameters: Record<string, unknown> | null;
+}
+
+export interface AttemptedEndpoint {
+  endpoint: string;
+  status: number;
+  error?: string;
+}
+
+export class QuantumServiceError extends Error {
+  readonly attemptedEndpoints: AttemptedEndpoint[];
+
+  constructor(message: string, attemptedEndpoints: AttemptedEndpoint[]) {
+    super(message);
+    this.name = 'QuantumServiceError';
+    this.attemptedEndpoints = attemptedEndpoints;
+  }
+}
+
+// Budget for a whole runOnQuantumService call across every endpoint tried;
+// leaves headroom below the edge function wall-clock limit
+const REQUEST_TIMEOUT_MS = 110000;
+
+// Map frontend template names to backend circuit names
+const circuitNameMap: Record<string, string> = {
+  'bell_state': 'bell',
+  'ghz_state': 'ghz',
+  'ghz_3_state': 'ghz_3',
+  'ghz_4_state': 'ghz_4',
+  'teleportation': 'teleport',
+  'quantum_teleportation': 'teleport',
+  'teleport_circuit': 'teleport'
+};
+
+const simulatorMap: Record<string, string> = {
+  statevector: 'quest',
+  stabilizer: 'stabilizer',
+  density: 'density',
+  density_matrix: 'density',
+  noisy: 'noisy',
+};
+
+export function buildServicePayload(job: ServiceJob) {
+  const parameters = job.parameters ?? {};
+  const extractedName = String(parameters.circuit_name || 'custom_circuit');
+  return {
+    circuit_name: circuitNameMap[extractedName] || extractedName,
+    n_qubits: typeof parameters.n_qubits === 'number' && parameters.n_qubits > 0 ? parameters.n_qubits : 2,
+    shots: job.shots,
+    simulator: simulatorMap[String(job.backend_type).toLowerCase()] ?? 'quest',
+    seed: parameters.seed ?? null,
+    noise_enabled: parameters.noise_enabled ?? false,
+    noise_params: (parameters.noise_params as NoiseModel | undefined) ?? null,
+  };
+}
+
+/**
+ * Run a job on the quantum service, trying each known endpoint in turn.
+ * Resolves with results checked against the result schema; rejects with QuantumServiceError
+ * once every endpoint has failed or the time budget runs out, or with an
+ * AbortError when `signal` fires.
+ */
+export async function runOnQuantumService(
+  serviceUrl: string,
+  job: ServiceJob,
+  signal?: AbortSignal
+): Promise<{ results: QuantumResult; executionTimeMs: number }> {
+  const servicePayload = buildServicePayload(job);
+  const legacyPayload = {
+    guppy_code: job.guppy_code,
+    backend_type: job.backend_type,
+    shots: job.shots,
+    parameters: job.parameters,
+  };
+
+  // Normalize base URL
+  let baseUrl: URL;
+  try {
+    baseUrl = new URL(serviceUrl);
+    baseUrl.pathname = '/';
+  } catch (_e) {
+    baseUrl = new URL('http://localhost');
+  }
+
+  // Try multiple endpoint candidates - prioritize /run since it's the only working endpoint
+  const candidates = [
+    { path: 'run', payload: servicePayload },
+    { path: 'api/run', payload: servicePayload },
+    { path: 'execute', payload: legacyPayload },
+    { path: 'api/execute', payload: legacyPayload }
+  ];
+
+  const attemptedEndpoints: AttemptedEndpoint[] = [];
+  const deadline = Date.now() + REQUEST_TIMEOUT_MS;
+  let timedOut = false;
+
+  for (const candidate of candidates) {
+    const endpoint = new URL(candidate.path, baseUrl).toString();
+    console.log(`Trying quantum service endpoint: ${endpoint}`);
+
+    const startAttempt = Date.now();
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, deadline - startAttempt);
+    const forwardAbort = () => controller.abort();
+    signal?.addEventListener('abort', forwardAbort);
+
+    // Log progress every 30 seconds
+    const progressInterval = setInterval(() => {
+      const elapsed = Math.round((Date.now() - startAttempt) / 1000);
+      console.log(`⏳ Still waiting for quantum service... ${elapsed}s elapsed`);
+    }, 30000);
+
+    try {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json'
+        },
+        body: JSON.stringify(candidate.payload),
+        signal: controller.signal
+      });
+
+      console.log(`Endpoint ${endpoint} returned status: ${response.status}`);
+
+      if (response.ok) {
+        const results = await response.json();
+        console.log(`✓ Successfully called ${endpoint}`);
+        return {
+          results: validateQuantumResult(transformSeleneResults(results)),
+          executionTimeMs: Date.now() - startAttempt,
+        };
+      }
+
+      // Not successful - record error and try the next endpoint
+      const errorText = await response.text();
+      console.error(`Endpoint ${endpoint} error (${response.status}):`, errorText);
+      attemptedEndpoints.push({
+        endpoint,
+        status: response.status,
+        error: errorText.slice(0, 200) // Keep first 200 chars
+      });
+    } catch (e) {
+      if (signal?.aborted) throw e;
+      const errorMsg = e instanceof Error ? e.message : 'Network error';
+      console.error(`Error calling ${endpoint}:`, errorMsg);
+      attemptedEndpoints.push({ endpoint, status: 0, error: timedOut ? 'Timed out' : errorMsg });
+    } finally {
+      clearTimeout(timeoutId);
+      clearInterval(progressInterval);
+      signal?.removeEventListener('abort', forwardAbort);
+    }
+
+    // A service that timed out on one endpoint gets no time on the others
+    if (timedOut || Date.now() >= deadline) break;
+  }
+
+  const errorSummary = attemptedEndpoints.map(
+    a => `${a.endpoint} (${a.status}): ${a.error || 'Unknown error'}`
+  ).join('; ');
+  const reason = timedOut ? `Quantum service timed out after ${REQUEST_TIMEOUT_MS / 1000}s` : 'All endpoints failed';
+  throw new QuantumServiceError(`${reason}. Attempts: ${errorSummary}`, attemptedEndpoints);
+}
@@ -0,0 +1,83 @@
+import type { GateName } from './gates.ts';
+
+// Backend-independent circuit representation. Qubits and classical bits are
+// addressed by index; labels keep the names used in the source program.
+
+export interface ClassicalCondition {
+  // Classical bits compared against `value`, least significant bit first
+  clbits: number[];
+  value: number;
+}
+
+export interface GateOperation {
+  kind: 'gate';
+  name: GateName;
+  qubits: number[];
+  params: number[];
+  condition?: ClassicalCondition;
+  line?: number;
+}
+
+export interface MeasureOperation {
+  kind: 'measure';
+  qubit: number;
+  clbit: number;
+  condition?: ClassicalCondition;
+  line?: number;
+}
+
+export interface ResetOperation {
+  kind: 'reset';
+  qubit: number;
+  condition?: ClassicalCondition;
+  line?: number;
+}
+
+export interface BarrierOperation {
+  kind: 'barrier';
+  qubits: number[];
+  line?: number;
+}
+
+export type Operation = GateOperation | MeasureOperation | ResetOperation | BarrierOperation;
+
+export interface Circuit {
+  name: string;
+  numQubits: number;
+  qubitLabels: string[];
+  clbitLabels: string[];
+  // Classical bits that make up a result bitstring, leftmost first
+  outputs: number[];
+  operations: Operation[];
+}
+
+export function operationQubits(op: Operation): number[] {
+  switch (op.kind) {
+    case 'gate':
+    case 'barrier':
+      return op.qubits;
+    case 'measure':
+    case 'reset':
+      return [op.qubit];
+  }
+}
+
+export function isConditional(op: Operation): boolean {
+  return op.kind !== 'barrier' && op.condition !== undefined;
+}
+
+export function conditionHolds(condition: ClassicalCondition, bits: ArrayLike<number>): boolean {
+  let value = 0;
+  condition.clbits.forEach((clbit, i) => {
+    if (bits[clbit]) value |= 1 << i;
+  });
+  return value === condition.value;
+}
+
+// Bits that form the result bitstring: the declared outputs, or every
+// classical bit in declaration order when nothing was returned.
+export function outputBits(circuit: Circuit): number[] {
+  return circuit.outputs.length > 0
+    ? circuit.outputs
+    : circuit.clbitLabels.map((_, i) => i);
+}
@@ -0,0 +1,82 @@
+// Gate library shared by the simulators, the Guppy front end and the exporters.
+// Every multi-qubit gate is either a SWAP or a (multi-)controlled single-qubit
+// gate, so the simulators only need one kernel for each.
+
+export type Complex = [number, number];
+
+// Row-major 2x2 matrix: [u00, u01, u10, u11]
+export type Matrix2 = [Complex, Complex, Complex, Complex];
+
+export type GateName =
+  | 'id' | 'h' | 'x' | 'y' | 'z' | 's' | 'sdg' | 't' | 'tdg' | 'v' | 'vdg'
+  | 'rx' | 'ry' | 'rz' | 'phase'
+  | 'cx' | 'cy' | 'cz' | 'ch' | 'crz' | 'swap' | 'ccx';
+
+export interface GateDefinition {
+  name: GateName;
+  numQubits: number;
+  numParams: number;
+  // Number of leading qubit operands that act as controls
+  controls: number;
+  // Target matrix; absent only for swap
+  matrix?: (params: number[]) => Matrix2;
+}
+
+const SQRT1_2 = Math.SQRT1_2;
+
+const fixed = (m: Matrix2) => () => m;
+
+const H: Matrix2 = [[SQRT1_2, 0], [SQRT1_2, 0], [SQRT1_2, 0], [-SQRT1_2, 0]];
+const X: Matrix2 = [[0, 0], [1, 0], [1, 0], [0, 0]];
+const Y: Matrix2 = [[0, 0], [0, -1], [0, 1], [0, 0]];
+const Z: Matrix2 = [[1, 0], [0, 0], [0, 0], [-1, 0]];
+
+const phaseMatrix = (theta: number): Matrix2 =>
+  [[1, 0], [0, 0], [0, 0], [Math.cos(theta), Math.sin(theta)]];
+
+const rxMatrix = (theta: number): Matrix2 => {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [[c, 0], [0, -s], [0, -s], [c, 0]];
+};
+
+const ryMatrix = (theta: number): Matrix2 => {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [[c, 0], [-s, 0], [s, 0], [c, 0]];
+};
+
+const rzMatrix = (theta: number): Matrix2 => {
+  const c = Math.cos(theta / 2);
+  const s = Math.sin(theta / 2);
+  return [[c, -s], [0, 0], [0, 0], [c, s]];
+};
+
+export const GATES: Record<GateName, GateDefinition> = {
+  id: { name: 'id', numQubits: 1, numParams: 0, controls: 0, matrix: fixed([[1, 0], [0, 0], [0, 0], [1, 0]]) },
+  h: { name: 'h', numQubits: 1, numParams: 0, controls: 0, matrix: fixed(H) },
+  x: { name: 'x', numQubits: 1, numParams: 0, controls: 0, matrix: fixed(X) },
+  y: { name: 'y', numQubits: 1, numParams: 0, controls: 0, matrix: fixed(Y) },
+  z: { name: 'z', numQubits: 1, numParams: 0, controls: 0, matrix: fixed(Z) },
+  s: { name: 's', numQubits: 1, numParams: 0, controls: 0, matrix: () => phaseMatrix(Math.PI / 2) },
+  sdg: { name: 'sdg', numQubits: 1, numParams: 0, controls: 0, matrix: () => phaseMatrix(-Math.PI / 2) },
+  t: { name: 't', numQubits: 1, numParams: 0, controls: 0, matrix: () => phaseMatrix(Math.PI / 4) },
+  tdg: { name: 'tdg', numQubits: 1, numParams: 0, controls: 0, matrix: () => phaseMatrix(-Math.PI / 4) },
+  v: { name: 'v', numQubits: 1, numParams: 0, controls: 0, matrix: fixed([[0.5, 0.5], [0.5, -0.5], [0.5, -0.5], [0.5, 0.5]]) },
+  vdg: { name: 'vdg', numQubits: 1, numParams: 0, controls: 0, matrix: fixed([[0.5, -0.5], [0.5, 0.5], [0.5, 0.5], [0.5, -0.5]]) },
+  rx: { name: 'rx', numQubits: 1, numParams: 1, controls: 0, matrix: ([theta]) => rxMatrix(theta) },
+  ry: { name: 'ry', numQubits: 1, numParams: 1, controls: 0, matrix: ([theta]) => ryMatrix(theta) },
+  rz: { name: 'rz', numQubits: 1, numParams: 1, controls: 0, matrix: ([theta]) => rzMatrix(theta) },
+  phase: { name: 'phase', numQubits: 1, numParams: 1, controls: 0, matrix: ([theta]) => phaseMatrix(theta) },
+  cx: { name: 'cx', numQubits: 2, numParams: 0, controls: 1, matrix: fixed(X) },
+  cy: { name: 'cy', numQubits: 2, numParams: 0, controls: 1, matrix: fixed(Y) },
+  cz: { name: 'cz', numQubits: 2, numParams: 0, controls: 1, matrix: fixed(Z) },
+  ch: { name: 'ch', numQubits: 2, numParams: 0, controls: 1, matrix: fixed(H) },
+  crz: { name: 'crz', numQubits: 2, numParams: 1, controls: 1, matrix: ([theta]) => rzMatrix(theta) },
+  swap: { name: 'swap', numQubits: 2, numParams: 0, controls: 0 },
+  ccx: { name: 'ccx', numQubits: 3, numParams: 0, controls: 2, matrix: fixed(X) },
+};
+
+export function isGateName(name: string): name is GateName {
+  return Object.prototype.hasOwnProperty.call(GATES, name);
+}
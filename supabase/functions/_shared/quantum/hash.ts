@@ -0,0 +1,77 @@
+import { outputBits, type Circuit, type Operation } from './circuit.ts';
+import type { NoiseModel } from './noise.ts';
+
+// Canonical hash of everything that determines a run's results: the compiled
+// circuit, backend, shot count, seed and noise model. Two jobs with the same
+// hash produce the same results, so a completed one can stand in for the other.
+
+// Bump when the canonical form changes so old hashes stop matching
+const HASH_VERSION = 1;
+
+export interface RunFingerprint {
+  circuit: Circuit;
+  backendId: string;
+  shots: number;
+  seed?: number | null;
+  noise?: NoiseModel | null;
+}
+
+// Gate angles computed along different paths can differ in the last bits
+const normalizeAngle = (angle: number) => Number(angle.toPrecision(12)) || 0;
+
+// Source lines and barriers don't affect what a circuit does
+const normalizeOperation = (op: Operation) => {
+  switch (op.kind) {
+    case 'gate':
+      return { kind: op.kind, name: op.name, qubits: op.qubits, params: op.params.map(normalizeAngle), condition: op.condition };
+    case 'measure':
+      return { kind: op.kind, qubit: op.qubit, clbit: op.clbit, condition: op.condition };
+    case 'reset':
+      return { kind: op.kind, qubit: op.qubit, condition: op.condition };
+    case 'barrier':
+      return null;
+  }
+};
+
+// Empty override maps mean the same as none
+const normalizeNoise = (noise: NoiseModel) => ({
+  defaults: noise.defaults,
+  gates: Object.keys(noise.gates ?? {}).length > 0 ? noise.gates : undefined,
+  qubits: Object.keys(noise.qubits ?? {}).length > 0 ? noise.qubits : undefined,
+});
+
+// JSON with object keys sorted and undefined fields dropped
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value)
+      .filter(([, field]) => field !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+    return `{${entries.map(([key, field]) => `${JSON.stringify(key)}:${canonicalJson(field)}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function canonicalRun({ circuit, backendId, shots, seed, noise }: RunFingerprint): string {
+  return canonicalJson({
+    version: HASH_VERSION,
+    circuit: {
+      // The quantum service picks its built-in circuit by kernel name
+      name: circuit.name,
+      numQubits: circuit.numQubits,
+      numClbits: circuit.clbitLabels.length,
+      outputs: outputBits(circuit),
+      operations: circuit.operations.map(normalizeOperation).filter(op => op !== null),
+    },
+    backend: backendId,
+    shots,
+    seed: seed ?? null,
+    noise: noise ? normalizeNoise(noise) : null,
+  });
+}
+
+// Hex SHA-256 of the canonical form
+export async function circuitHash(fingerprint: RunFingerprint): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalRun(fingerprint)));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,111 @@
+import type { GateName } from './gates.ts';
+
+// Noise model shared by the density-matrix simulator, the trajectory sampler
+// and the remote service payload. Declared as type aliases so models can be
+// stored in Json columns.
+
+export type NoiseRates = {
+  // Replace the qubit with the maximally mixed state (X, Y, Z each with p/3)
+  depolarizing: number;
+  // Energy relaxation |1⟩ → |0⟩ with probability γ
+  amplitudeDamping: number;
+  // Loss of phase coherence with probability λ
+  phaseDamping: number;
+  bitFlip: number;
+  phaseFlip: number;
+  // Probability a 0 is recorded as 1, and a 1 as 0
+  readout01: number;
+  readout10: number;
+};
+
+export type NoiseModel = {
+  // Rates applied after every gate, on every qubit it acts on
+  defaults: NoiseRates;
+  // Overrides for particular gates; readout rates here are ignored
+  gates?: Partial<Record<GateName, Partial<NoiseRates>>>;
+  // Overrides for particular qubits, keyed by qubit index. These win over
+  // gate overrides.
+  qubits?: Record<string, Partial<NoiseRates>>;
+};
+
+export type NoiseRate = keyof NoiseRates;
+
+export const NOISE_RATES: { key: NoiseRate; label: string; readout?: boolean }[] = [
+  { key: 'depolarizing', label: 'Depolarizing' },
+  { key: 'amplitudeDamping', label: 'Amplitude damping' },
+  { key: 'phaseDamping', label: 'Phase damping' },
+  { key: 'bitFlip', label: 'Bit flip' },
+  { key: 'phaseFlip', label: 'Phase flip' },
+  { key: 'readout01', label: 'Readout 0→1', readout: true },
+  { key: 'readout10', label: 'Readout 1→0', readout: true },
+];
+
+export const NOISELESS_RATES: NoiseRates = {
+  depolarizing: 0,
+  amplitudeDamping: 0,
+  phaseDamping: 0,
+  bitFlip: 0,
+  phaseFlip: 0,
+  readout01: 0,
+  readout10: 0,
+};
+
+export const DEFAULT_NOISE_MODEL: NoiseModel = {
+  defaults: { ...NOISELESS_RATES, depolarizing: 0.01, readout01: 0.01, readout10: 0.02 },
+  gates: {},
+  qubits: {},
+};
+
+// Rates after `gate` on `qubit`
+export function gateNoise(model: NoiseModel, gate: GateName, qubit: number): NoiseRates {
+  return { ...model.defaults, ...model.gates?.[gate], ...model.qubits?.[qubit] };
+}
+
+// Readout rates when measuring `qubit`
+export function readoutNoise(model: NoiseModel, qubit: number): Pick<NoiseRates, 'readout01' | 'readout10'> {
+  const { readout01, readout10 } = { ...model.defaults, ...model.qubits?.[qubit] };
+  return { readout01, readout10 };
+}
+
+function checkRates(rates: Partial<NoiseRates>, where: string) {
+  for (const [key, value] of Object.entries(rates)) {
+    if (!NOISE_RATES.some(rate => rate.key === key)) {
+      throw new Error(`Unknown noise rate "${key}" ${where}`);
+    }
+    if (typeof value !== 'number' || !(value >= 0 && value <= 1)) {
+      throw new Error(`Noise rate ${key} ${where} must be between 0 and 1`);
+    }
+  }
+}
+
+export function validateNoiseModel(model: NoiseModel) {
+  if (typeof model !== 'object' || typeof model?.defaults !== 'object' || model.defaults === null) {
+    throw new Error('Noise model needs a defaults object');
+  }
+  checkRates(model.defaults, 'in the defaults');
+  for (const [gate, rates] of Object.entries(model.gates ?? {})) checkRates(rates, `for gate ${gate}`);
+  for (const [qubit, rates] of Object.entries(model.qubits ?? {})) {
+    if (!/^\d+$/.test(qubit)) throw new Error(`Qubit override "${qubit}" is not a qubit index`);
+    checkRates(rates, `for qubit ${qubit}`);
+  }
+}
+
+// Every rate multiplied by `factor`, capped at 1. Used to sweep noise strength.
+export function scaleNoiseModel(model: NoiseModel, factor: number): NoiseModel {
+  const scale = <T extends Partial<NoiseRates>>(rates: T): T => Object.fromEntries(
+    Object.entries(rates).map(([key, value]) => [key, Math.min(1, value * factor)])
+  ) as T;
+  const scaleAll = <K extends string>(sets: Partial<Record<K, Partial<NoiseRates>>> = {}) =>
+    Object.fromEntries(Object.entries(sets).map(([key, rates]) => [key, scale(rates as Partial<NoiseRates>)]));
+
+  return { defaults: scale(model.defaults), gates: scaleAll(model.gates), qubits: scaleAll(model.qubits) };
+}
+
+export function isNoiseless(model: NoiseModel): boolean {
+  const rateSets = [
+    model.defaults,
+    ...Object.values(model.gates ?? {}),
+    ...Object.values(model.qubits ?? {}),
+  ];
+  return rateSets.every(rates => Object.values(rates).every(value => !value));
+}
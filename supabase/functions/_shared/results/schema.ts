@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import { transformSeleneResults, unwrapSelenePayload } from './selene.ts';
+import type { ShotRecord } from './shots.ts';
+
+// The shape of quantum_jobs.results, shared by the browser simulators, the
+// job worker and every view of a job's results. Rows are validated when they
+// are written and upgraded to the current version when they are read, so
+// results stored before the schema existed still display.
+
+export const RESULT_SCHEMA_VERSION = 1;
+
+const bitstring = z.string().regex(/^[01]*$/, 'Outcomes must be bitstrings');
+
+// Probabilities summed from floating point counts can overshoot 1 slightly
+const probability = z.number().min(0).max(1 + 1e-9);
+
+// Declared as a type alias so results can be stored in Json columns
+export type QuantumResult = {
+  schema_version: typeof RESULT_SCHEMA_VERSION;
+  // Shot counts per outcome, leftmost bit first
+  measurements: Record<string, number>;
+  // Fractions of 1, not percentages
+  probabilities: Record<string, number>;
+  shots: number;
+  // Final state amplitudes as [re, im], from backends that report them
+  statevector: [number, number][] | null;
+  // Position in the bitstring of each named measurement, counted from the left
+  registers?: Record<string, number>;
+  // One record per shot in the order the shots ran, from backends that
+  // return individual shots; left out of runs too large to store them
+  shot_records?: ShotRecord[];
+  // Standard error of each probability, from sampling backends that estimate it
+  statistical_error?: Record<string, number>;
+  trajectories?: number;
+  // Metadata about the run
+  circuit?: string | null;
+  n_qubits?: number | null;
+  backend?: string | null;
+  seed?: number | null;
+};
+
+const quantumResultSchema = z.object({
+  schema_version: z.literal(RESULT_SCHEMA_VERSION),
+  measurements: z.record(bitstring, z.number().int().nonnegative()),
+  probabilities: z.record(bitstring, probability),
+  shots: z.number().int().nonnegative(),
+  statevector: z.array(z.tuple([z.number(), z.number()])).nullable(),
+  registers: z.record(z.string(), z.number().int().nonnegative()).optional(),
+  shot_records: z.array(z.record(z.string(), z.union([z.boolean(), z.number()]))).optional(),
+  statistical_error: z.record(bitstring, z.number().nonnegative()).optional(),
+  trajectories: z.number().int().positive().optional(),
+  circuit: z.string().nullable().optional(),
+  n_qubits: z.number().int().nonnegative().nullable().optional(),
+  backend: z.string().nullable().optional(),
+  seed: z.number().nullable().optional(),
+});
+
+export class ResultSchemaError extends Error {
+  readonly issues: string[];
+
+  constructor(message: string, issues: string[] = []) {
+    super(issues.length > 0 ? `${message}: ${issues.join('; ')}` : message);
+    this.name = 'ResultSchemaError';
+    this.issues = issues;
+  }
+}
+
+function parse(value: unknown, message: string): QuantumResult {
+  const parsed = quantumResultSchema.safeParse(value);
+  // The schema mirrors QuantumResult field for field
+  if (parsed.success) return parsed.data as QuantumResult;
+  throw new ResultSchemaError(message, parsed.error.issues.slice(0, 3).map(issue =>
+    issue.path.length > 0 ? `${issue.path.join('.')}: ${issue.message}` : issue.message));
+}
+
+/**
+ * Check results before they are stored. Stamps the current schema version,
+ * so producers only fill in the fields.
+ */
+export const validateQuantumResult = (results: Omit<QuantumResult, 'schema_version'>): QuantumResult =>
+  parse({ ...results, schema_version: RESULT_SCHEMA_VERSION }, 'Results do not match the result schema');
+
+type LegacyResult = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is LegacyResult =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Rows written before results were versioned: counts and probabilities in
+// the current layout, but with fields missing and, from some clients,
+// probabilities as percentages. Responses the job worker couldn't make sense
+// of were stored as the service sent them.
+function upgradeLegacy(results: LegacyResult): LegacyResult {
+  if (!isRecord(results.measurements) && unwrapSelenePayload(results)) {
+    return { ...transformSeleneResults(results), schema_version: 1 };
+  }
+
+  const measurements = isRecord(results.measurements) ? (results.measurements as Record<string, number>) : {};
+  const counted = Object.values(measurements).reduce((sum, count) => sum + Number(count), 0);
+  const shots = typeof results.shots === 'number' ? results.shots : counted;
+
+  let probabilities = isRecord(results.probabilities) ? (results.probabilities as Record<string, number>) : null;
+  if (!probabilities) {
+    probabilities = Object.fromEntries(Object.entries(measurements).map(([state, count]) => [state, shots ? count / shots : 0]));
+  } else if (Object.values(probabilities).reduce((sum, p) => sum + p, 0) > 1.5) {
+    probabilities = Object.fromEntries(Object.entries(probabilities).map(([state, p]) => [state, p / 100]));
+  }
+
+  return {
+    ...results,
+    measurements,
+    probabilities,
+    shots,
+    statevector: results.statevector ?? null,
+    schema_version: 1,
+  };
+}
+
+/**
+ * Read a stored results column, upgrading older versions. Throws
+ * ResultSchemaError when the value isn't results in any known version.
+ */
+export function readQuantumResult(value: unknown): QuantumResult {
+  if (!isRecord(value)) throw new ResultSchemaError('Results are missing or not an object');
+  const upgraded = value.schema_version === undefined ? upgradeLegacy(value) : value;
+  if (typeof upgraded.schema_version === 'number' && upgraded.schema_version > RESULT_SCHEMA_VERSION) {
+    throw new ResultSchemaError(`Results use schema version ${upgraded.schema_version}; reload the page to update`);
+  }
+  return parse(upgraded, 'Stored results are malformed');
+}
+
+// readQuantumResult for views that show nothing rather than an error
+export function tryReadQuantumResult(value: unknown): QuantumResult | null {
+  try {
+    return readQuantumResult(value);
+  } catch (error) {
+    if (error instanceof ResultSchemaError) return null;
+    throw error;
+  }
+}
@@ -0,0 +1,92 @@
+import type { QuantumResult } from './schema.ts';
+import { registerMap, shotRecordsFit, type ShotRecord } from './shots.ts';
+
+// Responses from the Python quantum service: one object per shot mapping
+// measurement names to booleans, optionally wrapped in { data }.
+
+export interface SelenePayload {
+  results: ShotRecord[];
+  circuit?: string;
+  n_qubits?: number;
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The payload inside a response, or null when it isn't per-shot results
+export function unwrapSelenePayload(response: unknown): SelenePayload | null {
+  const payload = isObject(response) && isObject(response.data) ? response.data : response;
+  return isObject(payload) && Array.isArray(payload.results) && payload.results.every(isObject)
+    ? (payload as unknown as SelenePayload)
+    : null;
+}
+
+// Krump's named measurements, in bitstring order
+const KRUMP_MOVES = ['jab_stomp', 'arm_swing', 'chest_pop'];
+
+const MEASUREMENT_INDEX = /^m(\d+)$/;
+
+const isBit = (value: unknown) => typeof value === 'boolean' || value === 0 || value === 1;
+
+// Names that make up the bitstring, leftmost first: Krump's moves in
+// choreography order, m0, m1, ..., m10 by number, then any other names in
+// the order the service first reported them. Values that aren't bits stay in
+// the shot records only.
+function measurementNames(shots: ShotRecord[]): string[] {
+  const seen: string[] = [];
+  for (const shot of shots) {
+    for (const [name, value] of Object.entries(shot)) {
+      if (!seen.includes(name) && isBit(value)) seen.push(name);
+    }
+  }
+  const rank = (name: string) => {
+    const krump = KRUMP_MOVES.indexOf(name);
+    if (krump !== -1) return [0, krump];
+    const numbered = name.match(MEASUREMENT_INDEX);
+    return numbered ? [1, Number(numbered[1])] : [2, seen.indexOf(name)];
+  };
+  return [...seen].sort((a, b) => {
+    const [groupA, orderA] = rank(a);
+    const [groupB, orderB] = rank(b);
+    return groupA - groupB || orderA - orderB;
+  });
+}
+
+// A shot without any values the result schema can't hold
+const recordOf = (shot: ShotRecord): ShotRecord =>
+  Object.fromEntries(Object.entries(shot).filter(([, value]) => typeof value === 'boolean' || typeof value === 'number'));
+
+/**
+ * Count a service response's shots into results, keeping the shots
+ * themselves in the order they ran. Throws when the response has no
+ * per-shot results.
+ */
+export function transformSeleneResults(response: unknown): Omit<QuantumResult, 'schema_version'> {
+  const payload = unwrapSelenePayload(response);
+  if (!payload) throw new Error('The quantum service returned results in an unexpected format');
+
+  const shots = payload.results.length;
+  const names = measurementNames(payload.results);
+  const measurements: Record<string, number> = {};
+  for (const shot of payload.results) {
+    const bitstring = names.map(name => (shot[name] ? '1' : '0')).join('');
+    measurements[bitstring] = (measurements[bitstring] || 0) + 1;
+  }
+
+  const probabilities: Record<string, number> = {};
+  for (const [state, count] of Object.entries(measurements)) {
+    probabilities[state] = count / shots;
+  }
+
+  return {
+    measurements,
+    probabilities,
+    shots,
+    registers: registerMap(names),
+    ...(shotRecordsFit(shots, names.length) && { shot_records: payload.results.map(recordOf) }),
+    circuit: payload.circuit ?? null,
+    n_qubits: payload.n_qubits ?? null,
+    // The service samples shots and doesn't report the final state
+    statevector: null,
+  };
+}
@@ -0,0 +1,34 @@
+// Per-shot records and register maps, shared by the browser simulators and
+// the quantum service transform.
+
+// Runs with more shots × result bits than this keep only their counts, to
+// keep job rows small
+export const SHOT_RECORD_LIMIT = 65_536;
+
+// One shot: measurement name to measured value
+export type ShotRecord = Record<string, boolean | number>;
+
+export const shotRecordsFit = (shots: number, bits: number) => shots * bits <= SHOT_RECORD_LIMIT;
+
+/**
+ * Bit index of each measurement name, given the names leftmost first. A name
+ * measured more than once gets a #2, #3, ... suffix from its second bit on.
+ */
+export function registerMap(names: string[]): Record<string, number> {
+  const registers: Record<string, number> = {};
+  names.forEach((name, index) => {
+    let key = name;
+    for (let n = 2; key in registers; n++) key = `${name}#${n}`;
+    registers[key] = index;
+  });
+  return registers;
+}
+
+// Names in bit order, leftmost first
+export const registerNames = (registers: Record<string, number>) =>
+  Object.entries(registers).sort(([, a], [, b]) => a - b).map(([name]) => name);
+
+// Records for shots sampled as bitstrings, in the order they were sampled
+export const recordsFromBitstrings = (sequence: string[], registers: Record<string, number>): ShotRecord[] =>
+  sequence.map(bitstring =>
+    Object.fromEntries(Object.entries(registers).map(([name, index]) => [name, bitstring[index] === '1'])));
@@ -1,54 +1,18 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { compileModule } from "../_shared/guppy/compile.ts";
+import { parseGuppy } from "../_shared/guppy/parser.ts";
+import { checkLinearity } from "../_shared/guppy/linearity.ts";
+import { GuppyError, diagnosticFromError, type Diagnostic } from "../_shared/guppy/ast.ts";
+import { validateNoiseModel } from "../_shared/quantum/noise.ts";
+import { circuitHash } from "../_shared/quantum/hash.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
 };
 
-/**
- * Transform Selene results format to dashboard format
- */
-function transformSeleneResults(seleneData: any): any {
-  if (!seleneData?.results || !Array.isArray(seleneData.results)) {
-    return seleneData; // Return as-is if unexpected format
-  }
-
-  const shots = seleneData.shots || seleneData.results.length;
-  const measurements: Record<string, number> = {};
-  
-  // Convert each shot's boolean measurements to bitstring
-  for (const shot of seleneData.results) {
-    // Extract measurement keys in order (m0, m1, m2, ...)
-    const measurementKeys = Object.keys(shot)
-      .filter(k => k.startsWith('m'))
-      .sort(); // m0, m1, m2, ...
-    
-    // Convert booleans to bitstring: true=1, false=0
-    const bitstring = measurementKeys
-      .map(key => shot[key] ? '1' : '0')
-      .join('');
-    
-    // Count occurrences
-    measurements[bitstring] = (measurements[bitstring] || 0) + 1;
-  }
-  
-  // Calculate probabilities
-  const probabilities: Record<string, number> = {};
-  for (const [state, count] of Object.entries(measurements)) {
-    probabilities[state] = count / shots;
-  }
-  
-  return {
-    measurements,
-    probabilities,
-    shots,
-    circuit: seleneData.circuit,
-    n_qubits: seleneData.n_qubits,
-    // Note: Selene doesn't return statevector in shot-based execution
-    statevector: null
-  };
-}
+declare const EdgeRuntime: { waitUntil(promise: Promise<unknown>): void };
 
 serve(async (req) => {
   if (req.method === 'OPTIONS') {
@@ -65,20 +29,83 @@ serve(async (req) => {
     const { data: { user } } = await supabase.auth.getUser();
     if (!user) throw new Error('Unauthorized');
 
-    const { circuit_id, guppy_code, backend_type, shots, parameters } = await req.json();
+    const { circuit_id, sweep_id, guppy_code, backend_type, shots, parameters } = await req.json();
 
     console.log('Executing quantum circuit:', { circuit_id, backend_type, shots });
 
-    // Create job record
+    const rejectCode = (error: string, diagnostics: Diagnostic[]) => new Response(JSON.stringify({
+      error,
+      diagnostics: diagnostics.map(d => ({
+        severity: d.severity,
+        code: d.code,
+        message: d.message,
+        line: d.span.start.line,
+        column: d.span.start.column
+      }))
+    }), {
+      status: 400,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+    // Reject code that doesn't parse or breaks qubit ownership before a job row is created
+    let compiled: ReturnType<typeof compileModule> | null = null;
+    if (typeof guppy_code === 'string' && guppy_code.trim()) {
+      try {
+        const module = parseGuppy(guppy_code);
+        const diagnostics = checkLinearity(module);
+        if (diagnostics.some(d => d.severity === 'error')) {
+          console.log('Qubit ownership errors:', diagnostics.map(d => d.message));
+          return rejectCode('Qubit ownership errors', diagnostics);
+        }
+        // Kernel parameters are bound per job, e.g. one point of a sweep
+        compiled = compileModule(module, { bindings: parameters?.bindings });
+      } catch (error) {
+        if (!(error instanceof GuppyError)) throw error;
+        console.log(`Guppy error at ${error.line}:${error.column}: ${error.message}`);
+        return rejectCode(error.message, [diagnosticFromError(error)]);
+      }
+    }
+
+    if (parameters?.noise_params) {
+      try {
+        validateNoiseModel(parameters.noise_params);
+      } catch (error) {
+        return new Response(JSON.stringify({ error: `Invalid noise model: ${(error as Error).message}` }), {
+          status: 400,
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+        });
+      }
+    }
+
+    // Lets later runs of the same circuit and settings reuse this job's results
+    const circuit_hash = compiled
+      ? await circuitHash({
+        circuit: compiled,
+        backendId: backend_type,
+        shots,
+        seed: typeof parameters?.seed === 'number' ? parameters.seed : null,
+        noise: parameters?.noise_params ?? null,
+      })
+      : null;
+
+    // Queue the job; quantum-job-worker claims and runs it
     const { data: job, error: jobError } = await supabase
       .from('quantum_jobs')
       .insert({
         user_id: user.id,
         circuit_id,
+        sweep_id: typeof sweep_id === 'string' ? sweep_id : null,
         backend_type,
         shots,
-        parameters,
-        status: 'running'
+        guppy_code: typeof guppy_code === 'string' ? guppy_code : null,
+        circuit_hash,
+        parameters: {
+          ...parameters,
+          circuit_name: compiled?.name || parameters?.circuit_name,
+          n_qubits: compiled?.numQubits
+            || (typeof parameters?.n_qubits === 'number' ? parameters.n_qubits : undefined),
+        },
+        status: 'queued'
       })
       .select()
       .single();
@@ -88,275 +115,22 @@ serve(async (req) => {
       throw jobError;
     }
 
-    // Return job ID immediately for frontend polling
-    console.log(`Job created with ID: ${job.id}, starting background processing...`);
-
-    // Start background quantum processing
-    const quantumServiceUrl = Deno.env.get('QUANTUM_SERVICE_URL');
-    
-    if (!quantumServiceUrl) {
-      // For demo purposes without Python service, return mock data
-      console.log('QUANTUM_SERVICE_URL not configured, using mock data');
-      
-      const mockResults = {
-        measurements: { '00': 512, '11': 512 },
-        probabilities: { '00': 0.5, '11': 0.5 },
-        statevector: null,
-        shots: shots
-      };
-
-      await supabase
-        .from('quantum_jobs')
-        .update({
-          status: 'completed',
-          results: mockResults,
-          execution_time_ms: 150,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', job.id);
-
-      return new Response(JSON.stringify({ job_id: job.id, status: 'completed' }), {
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-
-    // Start async background processing
-    const processQuantumJob = async () => {
-
-    const startTime = Date.now();
-
-    // Map frontend template names to backend circuit names
-    const circuitNameMap: Record<string, string> = {
-      'bell_state': 'bell',
-      'ghz_state': 'ghz',
-      'ghz_3_state': 'ghz_3',
-      'ghz_4_state': 'ghz_4',
-      'teleportation': 'teleport',
-      'quantum_teleportation': 'teleport',
-      'teleport_circuit': 'teleport'
-    };
-
-    // Derive service payload from incoming request
-    const functionNameMatch = typeof guppy_code === 'string' ? /def\s+([a-zA-Z_]\w*)\s*\(/.exec(guppy_code) : null;
-    const extractedName = functionNameMatch?.[1] || (parameters?.circuit_name) || 'custom_circuit';
-    const circuit_name = circuitNameMap[extractedName] || extractedName;
-
-    const n_qubits = (
-      typeof guppy_code === 'string'
-        ? (guppy_code.match(/qubit\s*\(\s*\)/g)?.length || 0)
-        : 0
-    ) || (typeof parameters?.n_qubits === 'number' ? parameters.n_qubits : 0) || 2;
-
-    const simulatorMap: Record<string, string> = {
-      statevector: 'quest',
-      stabilizer: 'stabilizer',
-      density: 'density',
-      density_matrix: 'density',
-      noisy: 'noisy',
-    };
-    const simulator = simulatorMap[String(backend_type).toLowerCase()] ?? 'quest';
-
-    const servicePayload = {
-      circuit_name,
-      n_qubits,
-      shots,
-      simulator,
-      seed: parameters?.seed ?? null,
-      noise_enabled: parameters?.noise_enabled ?? false,
-      noise_params: parameters?.noise_params ?? null,
-    };
-
-    // Normalize base URL
-    let baseUrl: URL;
-    try {
-      baseUrl = new URL(quantumServiceUrl);
-      baseUrl.pathname = '/';
-    } catch (_e) {
-      baseUrl = new URL('http://localhost');
-    }
-
-    // Try multiple endpoint candidates - prioritize /run since it's the only working endpoint
-    const candidates = [
-      { path: 'run', payload: servicePayload },
-      { path: 'api/run', payload: servicePayload },
-      { path: 'execute', payload: { guppy_code, backend_type, shots, parameters } },
-      { path: 'api/execute', payload: { guppy_code, backend_type, shots, parameters } }
-    ];
-
-    const attemptedEndpoints: Array<{ endpoint: string; status: number; error?: string }> = [];
-    let response: Response | null = null;
-    let executionTime = 0;
-
-    for (const candidate of candidates) {
-      const endpoint = new URL(candidate.path, baseUrl).toString();
-      
-      console.log(`Trying quantum service endpoint: ${endpoint}`);
-      console.log('Payload:', JSON.stringify(candidate.payload, null, 2));
-
-      try {
-        const startAttempt = Date.now();
-        const controller = new AbortController();
-        // Set timeout to 170s to ensure we complete before edge function timeout (180s)
-        const timeoutId = setTimeout(() => controller.abort(), 170000);
-        
-        // Log progress every 30 seconds
-        const progressInterval = setInterval(() => {
-          const elapsed = Math.round((Date.now() - startAttempt) / 1000);
-          console.log(`⏳ Still waiting for quantum service... ${elapsed}s elapsed`);
-        }, 30000);
-        
-        response = await fetch(endpoint, {
-          method: 'POST',
-          headers: { 
-            'Content-Type': 'application/json',
-            'Accept': 'application/json'
-          },
-          body: JSON.stringify(candidate.payload),
-          signal: controller.signal
-        });
-        
-        clearTimeout(timeoutId);
-        clearInterval(progressInterval);
-        executionTime = Date.now() - startAttempt;
-
-        console.log(`Endpoint ${endpoint} returned status: ${response.status}`);
-
-        // Success - process and return results
-        if (response.ok) {
-          console.log(`✓ Successfully called ${endpoint}`);
-          break;
-        }
-
-        // Not successful - record error and continue
-        const errorText = await response.text();
-        console.error(`Endpoint ${endpoint} error (${response.status}):`, errorText);
-        
-        attemptedEndpoints.push({
-          endpoint,
-          status: response.status,
-          error: errorText.slice(0, 200) // Keep first 200 chars
-        });
-
-        // Continue to next endpoint for these recoverable errors
-        if (
-          response.status === 404 ||
-          errorText.includes('Unknown circuit') ||
-          errorText.includes('Not Found') ||
-          errorText.includes('not found')
-        ) {
-          console.log(`Recoverable error, trying next endpoint...`);
-          response = null;
-          continue;
-        }
-
-        // For other errors, still try remaining endpoints
-        response = null;
-        continue;
-
-      } catch (e) {
-        const errorMsg = e instanceof Error ? e.message : 'Network error';
-        console.error(`Error calling ${endpoint}:`, errorMsg);
-        attemptedEndpoints.push({
-          endpoint,
-          status: 0,
-          error: errorMsg
-        });
-        response = null;
-        continue;
-      }
-    }
-
-    // If all endpoints failed
-    if (!response || !response.ok) {
-      const errorSummary = attemptedEndpoints.map(
-        a => `${a.endpoint} (${a.status}): ${a.error || 'Unknown error'}`
-      ).join('; ');
-      
-      const errorMsg = `All endpoints failed. Attempts: ${errorSummary}`;
-      console.error(errorMsg);
-      
-      await supabase
-        .from('quantum_jobs')
-        .update({ 
-          status: 'failed', 
-          error_message: errorMsg,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', job.id);
-      
-      return new Response(JSON.stringify({ 
-        error: 'All quantum service endpoints failed',
-        details: errorMsg,
-        attempted_endpoints: attemptedEndpoints 
-      }), {
-        status: 503,
-        headers: { ...corsHeaders, 'Content-Type': 'application/json' }
-      });
-    }
-
-    // At this point, response.ok is true
-    executionTime = executionTime || (Date.now() - startTime);
-
-    const results = await response.json();
-    console.log('✓ Received results from quantum service');
-
-    // Transform Selene format to dashboard format
-    const transformedResults = transformSeleneResults(results);
-    console.log('✓ Transformed results for dashboard');
-
-    // Update job with transformed results - retry up to 3 times
-    let updateSuccess = false;
-    for (let attempt = 1; attempt <= 3; attempt++) {
-      console.log(`Attempting to update database (attempt ${attempt}/3)...`);
-      
-      const { error: updateError } = await supabase
-        .from('quantum_jobs')
-        .update({
-          status: 'completed',
-          results: transformedResults,
-          execution_time_ms: executionTime,
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', job.id);
-
-      if (!updateError) {
-        console.log(`✓ Successfully updated job ${job.id} in database`);
-        updateSuccess = true;
-        break;
-      }
-      
-      console.error(`Database update attempt ${attempt} failed:`, updateError);
-      if (attempt < 3) {
-        await new Promise(resolve => setTimeout(resolve, 1000)); // Wait 1s before retry
-      }
-    }
-
-    if (!updateSuccess) {
-      console.error(`Failed to update job ${job.id} after 3 attempts`);
-      throw new Error('Failed to update job status in database');
-    }
-
-    console.log('Quantum job completed:', job.id);
-    };
-
-    // Execute quantum processing in background (fire-and-forget)
-    // Don't await - let it run in background while we return immediately
-    processQuantumJob().catch(error => {
-      console.error('Background quantum job processing error:', error);
-      // Update job status to failed
-      supabase
-        .from('quantum_jobs')
-        .update({ 
-          status: 'failed', 
-          error_message: error.message || 'Background processing error',
-          completed_at: new Date().toISOString()
-        })
-        .eq('id', job.id)
-        .then(() => console.log('Job marked as failed due to processing error'));
-    });
-
-    // Return immediately with job ID for polling
-    return new Response(JSON.stringify({ job_id: job.id, status: 'running' }), {
+    console.log(`Job ${job.id} queued`);
+
+    // Wake a worker now rather than waiting for the cron sweep. The request
+    // outlives this response via waitUntil; if it is lost the sweep picks the job up.
+    const kick = fetch(`${Deno.env.get('SUPABASE_URL')}/functions/v1/quantum-job-worker`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Authorization': `Bearer ${Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')}`
+      },
+      body: '{}'
+    }).catch(error => console.error('Failed to start job worker:', error));
+    EdgeRuntime.waitUntil(kick);
+
+    // Return immediately; clients follow the job row for status
+    return new Response(JSON.stringify({ job_id: job.id, status: 'queued' }), {
       headers: { ...corsHeaders, 'Content-Type': 'application/json' }
     });
 
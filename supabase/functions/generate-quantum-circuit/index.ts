@@ -111,7 +111,7 @@ Respond with a structured JSON containing your quantum circuit generation.`;
                   },
                   suggestedBackend: {
                     type: 'string',
-                    description: 'Recommended backend (statevector or selene)'
+                    description: 'Recommended backend (statevector, stabilizer, density_matrix, noisy or local)'
                   }
                 },
                 required: ['guppyCode', 'explanation', 'algorithmUsed', 'qubitCount', 'expectedResults', 'domainInsights', 'suggestedShots', 'suggestedBackend'],
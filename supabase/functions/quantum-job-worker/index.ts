@@ -0,0 +1,163 @@
+import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
+import { createClient, type SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { runOnQuantumService } from "../_shared/quantum-service.ts";
+import type { QuantumResult } from "../_shared/results/schema.ts";
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+};
+
+/**
+ * Drains the quantum_jobs queue. Each invocation claims jobs one at a time
+ * with claim_quantum_job(), heartbeats while the quantum service runs, and
+ * records the outcome only while it still owns the job. If the instance is
+ * torn down mid-job the heartbeat stops and the next claim reclaims it. A
+ * cancel_requested flag on the row aborts the call to the service and the
+ * job ends as 'cancelled'.
+ */
+
+const HEARTBEAT_INTERVAL_MS = 15000;
+// How often a running job's cancel_requested flag is checked
+const CANCEL_POLL_INTERVAL_MS = 3000;
+const STALE_AFTER = '2 minutes';
+// Stop claiming new jobs after this long so a running job can still finish
+const CLAIM_WINDOW_MS = 30000;
+
+const workerId = `worker-${crypto.randomUUID()}`;
+
+interface ClaimedJob {
+  id: string;
+  guppy_code: string | null;
+  backend_type: string;
+  shots: number | null;
+  parameters: Record<string, unknown> | null;
+  attempts: number;
+  max_attempts: number;
+}
+
+async function processJob(supabase: SupabaseClient, job: ClaimedJob): Promise<string> {
+  console.log(`${workerId} running job ${job.id} (attempt ${job.attempts}/${job.max_attempts})`);
+
+  // Lose the claim (reclaimed) or get cancelled → stop waiting on the service
+  const lost = new AbortController();
+  let cancelRequested = false;
+  const heartbeat = setInterval(async () => {
+    const { data: owned, error } = await supabase.rpc('heartbeat_quantum_job', { job_id: job.id, worker_id: workerId });
+    if (error) {
+      console.error(`Heartbeat for job ${job.id} failed:`, error);
+    } else if (!owned) {
+      console.log(`${workerId} no longer owns job ${job.id}, abandoning it`);
+      lost.abort();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+
+  const cancelPoll = setInterval(async () => {
+    const { data, error } = await supabase
+      .from('quantum_jobs')
+      .select('cancel_requested')
+      .eq('id', job.id)
+      .single();
+    if (error) {
+      console.error(`Checking job ${job.id} for cancellation failed:`, error);
+    } else if (data.cancel_requested && !cancelRequested) {
+      console.log(`${workerId} cancelling job ${job.id}`);
+      cancelRequested = true;
+      lost.abort();
+    }
+  }, CANCEL_POLL_INTERVAL_MS);
+
+  const finish = async (outcome: 'completed' | 'failed' | 'cancelled', fields: Record<string, unknown>) => {
+    // Retry transient database errors up to 3 times
+    for (let attempt = 1; attempt <= 3; attempt++) {
+      const { data: owned, error } = await supabase.rpc('finish_quantum_job', {
+        job_id: job.id,
+        worker_id: workerId,
+        final_status: outcome,
+        ...fields,
+      });
+      if (!error) return owned ? outcome : 'abandoned';
+      console.error(`Recording job ${job.id} failed (attempt ${attempt}/3):`, error);
+      if (attempt < 3) await new Promise(resolve => setTimeout(resolve, 1000));
+    }
+    throw new Error(`Failed to record outcome of job ${job.id}`);
+  };
+
+  const complete = (results: QuantumResult, executionTimeMs: number) =>
+    finish('completed', { job_results: results, job_execution_time_ms: executionTimeMs });
+
+  try {
+    const quantumServiceUrl = Deno.env.get('QUANTUM_SERVICE_URL');
+    if (!quantumServiceUrl) {
+      // Retrying cannot help, and made-up counts would be cached under the
+      // job's circuit_hash and served for other circuits
+      console.error('QUANTUM_SERVICE_URL not configured, failing job');
+      return await finish('failed', {
+        job_error: 'Quantum service not configured; choose an in-browser backend or set QUANTUM_SERVICE_URL',
+      });
+    }
+
+    const { results, executionTimeMs } = await runOnQuantumService(quantumServiceUrl, job, lost.signal);
+    return await complete(results, executionTimeMs);
+  } catch (error) {
+    if (cancelRequested) return await finish('cancelled', { job_error: 'Cancelled by user' });
+    if (lost.signal.aborted) return 'abandoned';
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    console.error(`Job ${job.id} attempt ${job.attempts} failed:`, message);
+
+    // Back to the queue until the job runs out of attempts
+    const { data: next, error: retryError } = await supabase.rpc('retry_quantum_job', {
+      job_id: job.id,
+      worker_id: workerId,
+      job_error: message,
+    });
+    if (retryError) throw retryError;
+    return next ?? 'abandoned';
+  } finally {
+    clearInterval(heartbeat);
+    clearInterval(cancelPoll);
+  }
+}
+
+serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabase = createClient(
+      Deno.env.get('SUPABASE_URL') ?? '',
+      Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
+    );
+
+    const started = Date.now();
+    const processed: Array<{ job_id: string; outcome: string }> = [];
+
+    while (Date.now() - started < CLAIM_WINDOW_MS) {
+      const { data: claimed, error } = await supabase.rpc('claim_quantum_job', {
+        worker_id: workerId,
+        stale_after: STALE_AFTER,
+      });
+      if (error) throw error;
+
+      const job = (claimed as ClaimedJob[] | null)?.[0];
+      if (!job) break;
+
+      const outcome = await processJob(supabase, job);
+      console.log(`Job ${job.id}: ${outcome}`);
+      processed.push({ job_id: job.id, outcome });
+    }
+
+    return new Response(JSON.stringify({ worker_id: workerId, processed }), {
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+
+  } catch (error) {
+    console.error('Job worker error:', error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      status: 500,
+      headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+    });
+  }
+});
@@ -0,0 +1,195 @@
+-- Queued job lifecycle for quantum_jobs: queued -> running -> completed / failed / cancelled.
+-- The quantum-job-worker edge function claims jobs atomically, heartbeats while it
+-- waits on the quantum service, and jobs whose heartbeat stops are reclaimed.
+
+ALTER TABLE public.quantum_jobs
+  ADD COLUMN guppy_code text,
+  ADD COLUMN attempts integer NOT NULL DEFAULT 0,
+  ADD COLUMN max_attempts integer NOT NULL DEFAULT 3,
+  ADD COLUMN claimed_by text,
+  ADD COLUMN claimed_at timestamptz,
+  ADD COLUMN heartbeat_at timestamptz,
+  ADD COLUMN started_at timestamptz;
+
+-- Rows left behind by the old fire-and-forget execution never finish
+UPDATE public.quantum_jobs
+SET status = 'failed',
+    error_message = coalesce(error_message, 'Job was interrupted before it finished'),
+    completed_at = coalesce(completed_at, now())
+WHERE status IS NULL OR status NOT IN ('queued', 'running', 'completed', 'failed', 'cancelled')
+   OR (status = 'running' AND created_at < now() - interval '1 hour');
+
+ALTER TABLE public.quantum_jobs
+  ALTER COLUMN status SET DEFAULT 'queued',
+  ALTER COLUMN status SET NOT NULL,
+  ADD CONSTRAINT quantum_jobs_status_check
+    CHECK (status IN ('queued', 'running', 'completed', 'failed', 'cancelled'));
+
+CREATE INDEX quantum_jobs_queue_idx
+  ON public.quantum_jobs (created_at)
+  WHERE status = 'queued';
+
+CREATE INDEX quantum_jobs_heartbeat_idx
+  ON public.quantum_jobs (heartbeat_at)
+  WHERE status = 'running' AND claimed_by IS NOT NULL;
+
+-- Put running jobs whose worker stopped heartbeating back in the queue, or fail
+-- them once they have used up their attempts. Jobs executed in the browser have
+-- no claimed_by and are never touched.
+CREATE FUNCTION public.reclaim_stale_quantum_jobs(stale_after interval DEFAULT interval '2 minutes')
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  reclaimed integer;
+BEGIN
+  WITH stale AS (
+    SELECT id
+    FROM quantum_jobs
+    WHERE status = 'running'
+      AND claimed_by IS NOT NULL
+      AND heartbeat_at < now() - stale_after
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE quantum_jobs AS job
+  SET status = CASE WHEN job.attempts >= job.max_attempts THEN 'failed' ELSE 'queued' END,
+      error_message = CASE
+        WHEN job.attempts >= job.max_attempts
+          THEN format('Worker stopped responding; gave up after %s attempts', job.attempts)
+        ELSE job.error_message
+      END,
+      completed_at = CASE WHEN job.attempts >= job.max_attempts THEN now() ELSE NULL END,
+      claimed_by = NULL,
+      claimed_at = NULL,
+      heartbeat_at = NULL
+  FROM stale
+  WHERE job.id = stale.id;
+
+  GET DIAGNOSTICS reclaimed = ROW_COUNT;
+  RETURN reclaimed;
+END;
+$$;
+
+-- Atomically take the oldest queued job for a worker
+CREATE FUNCTION public.claim_quantum_job(worker_id text, stale_after interval DEFAULT interval '2 minutes')
+RETURNS SETOF public.quantum_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM reclaim_stale_quantum_jobs(stale_after);
+
+  RETURN QUERY
+  UPDATE quantum_jobs AS job
+  SET status = 'running',
+      attempts = job.attempts + 1,
+      claimed_by = worker_id,
+      claimed_at = now(),
+      heartbeat_at = now(),
+      started_at = coalesce(job.started_at, now())
+  WHERE job.id = (
+    SELECT id
+    FROM quantum_jobs
+    WHERE status = 'queued'
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING job.*;
+END;
+$$;
+
+-- Returns false when the worker no longer owns the job (reclaimed or finished)
+CREATE FUNCTION public.heartbeat_quantum_job(job_id uuid, worker_id text)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE quantum_jobs
+  SET heartbeat_at = now()
+  WHERE id = job_id AND claimed_by = worker_id AND status = 'running';
+  RETURN FOUND;
+END;
+$$;
+
+-- Record the outcome, but only if the worker still owns the job
+CREATE FUNCTION public.finish_quantum_job(
+  job_id uuid,
+  worker_id text,
+  final_status text,
+  job_results jsonb DEFAULT NULL,
+  job_error text DEFAULT NULL,
+  job_execution_time_ms integer DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF final_status NOT IN ('completed', 'failed') THEN
+    RAISE EXCEPTION 'Invalid final status %', final_status;
+  END IF;
+
+  UPDATE quantum_jobs
+  SET status = final_status,
+      results = job_results,
+      error_message = job_error,
+      execution_time_ms = job_execution_time_ms,
+      completed_at = now(),
+      heartbeat_at = now()
+  WHERE id = job_id AND claimed_by = worker_id AND status = 'running';
+  RETURN FOUND;
+END;
+$$;
+
+-- A failed attempt goes back in the queue until max_attempts is reached
+CREATE FUNCTION public.retry_quantum_job(job_id uuid, worker_id text, job_error text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  next_status text;
+BEGIN
+  UPDATE quantum_jobs
+  SET status = CASE WHEN attempts >= max_attempts THEN 'failed' ELSE 'queued' END,
+      error_message = job_error,
+      completed_at = CASE WHEN attempts >= max_attempts THEN now() ELSE NULL END,
+      claimed_by = NULL,
+      claimed_at = NULL,
+      heartbeat_at = NULL
+  WHERE id = job_id AND claimed_by = worker_id AND status = 'running'
+  RETURNING status INTO next_status;
+  RETURN next_status;
+END;
+$$;
+
+-- Only the worker (service role) may drive the queue
+REVOKE EXECUTE ON FUNCTION public.reclaim_stale_quantum_jobs(interval) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.claim_quantum_job(text, interval) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.heartbeat_quantum_job(uuid, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.finish_quantum_job(uuid, text, text, jsonb, text, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.retry_quantum_job(uuid, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Safety net: run the worker every minute so queued and reclaimed jobs are
+-- picked up even when the kick from execute-quantum-circuit is lost. Expects
+-- `project_url` and `service_role_key` secrets in Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'quantum-job-worker',
+  '* * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url') || '/functions/v1/quantum-job-worker',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
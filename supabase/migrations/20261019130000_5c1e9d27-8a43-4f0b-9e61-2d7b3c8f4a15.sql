@@ -0,0 +1,141 @@
+-- User-requested cancellation. Queued jobs are cancelled straight away; running
+-- jobs get cancel_requested and whoever runs them (quantum-job-worker or the
+-- browser tab simulating them) stops and records status 'cancelled'.
+
+ALTER TABLE public.quantum_jobs
+  ADD COLUMN cancel_requested boolean NOT NULL DEFAULT false;
+
+-- Returns the job's status after the request: 'cancelled' for queued jobs,
+-- 'running' while the runner is being asked to stop, or the final status of a
+-- job that had already finished. NULL when the caller has no such job.
+CREATE FUNCTION public.cancel_quantum_job(job_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  current_status text;
+BEGIN
+  SELECT status INTO current_status
+  FROM quantum_jobs
+  WHERE id = job_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF current_status = 'queued' THEN
+    UPDATE quantum_jobs
+    SET status = 'cancelled',
+        cancel_requested = true,
+        error_message = 'Cancelled by user',
+        completed_at = now()
+    WHERE id = job_id;
+    RETURN 'cancelled';
+  ELSIF current_status = 'running' THEN
+    UPDATE quantum_jobs SET cancel_requested = true WHERE id = job_id;
+  END IF;
+
+  RETURN current_status;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_quantum_job(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.cancel_quantum_job(uuid) TO authenticated;
+
+-- Workers may now finish a job as cancelled
+CREATE OR REPLACE FUNCTION public.finish_quantum_job(
+  job_id uuid,
+  worker_id text,
+  final_status text,
+  job_results jsonb DEFAULT NULL,
+  job_error text DEFAULT NULL,
+  job_execution_time_ms integer DEFAULT NULL
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF final_status NOT IN ('completed', 'failed', 'cancelled') THEN
+    RAISE EXCEPTION 'Invalid final status %', final_status;
+  END IF;
+
+  UPDATE quantum_jobs
+  SET status = final_status,
+      results = job_results,
+      error_message = job_error,
+      execution_time_ms = job_execution_time_ms,
+      completed_at = now(),
+      heartbeat_at = now()
+  WHERE id = job_id AND claimed_by = worker_id AND status = 'running';
+  RETURN FOUND;
+END;
+$$;
+
+-- A failed attempt of a job the user asked to cancel is not retried
+CREATE OR REPLACE FUNCTION public.retry_quantum_job(job_id uuid, worker_id text, job_error text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  next_status text;
+BEGIN
+  UPDATE quantum_jobs
+  SET status = CASE
+        WHEN cancel_requested THEN 'cancelled'
+        WHEN attempts >= max_attempts THEN 'failed'
+        ELSE 'queued'
+      END,
+      error_message = CASE WHEN cancel_requested THEN 'Cancelled by user' ELSE job_error END,
+      completed_at = CASE WHEN cancel_requested OR attempts >= max_attempts THEN now() ELSE NULL END,
+      claimed_by = NULL,
+      claimed_at = NULL,
+      heartbeat_at = NULL
+  WHERE id = job_id AND claimed_by = worker_id AND status = 'running'
+  RETURNING status INTO next_status;
+  RETURN next_status;
+END;
+$$;
+
+-- Nor is a stale one
+CREATE OR REPLACE FUNCTION public.reclaim_stale_quantum_jobs(stale_after interval DEFAULT interval '2 minutes')
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  reclaimed integer;
+BEGIN
+  WITH stale AS (
+    SELECT id
+    FROM quantum_jobs
+    WHERE status = 'running'
+      AND claimed_by IS NOT NULL
+      AND heartbeat_at < now() - stale_after
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE quantum_jobs AS job
+  SET status = CASE
+        WHEN job.cancel_requested THEN 'cancelled'
+        WHEN job.attempts >= job.max_attempts THEN 'failed'
+        ELSE 'queued'
+      END,
+      error_message = CASE
+        WHEN job.cancel_requested THEN 'Cancelled by user'
+        WHEN job.attempts >= job.max_attempts
+          THEN format('Worker stopped responding; gave up after %s attempts', job.attempts)
+        ELSE job.error_message
+      END,
+      completed_at = CASE
+        WHEN job.cancel_requested OR job.attempts >= job.max_attempts THEN now()
+        ELSE NULL
+      END,
+      claimed_by = NULL,
+      claimed_at = NULL,
+      heartbeat_at = NULL
+  FROM stale
+  WHERE job.id = stale.id;
+
+  GET DIAGNOSTICS reclaimed = ROW_COUNT;
+  RETURN reclaimed;
+END;
+$$;
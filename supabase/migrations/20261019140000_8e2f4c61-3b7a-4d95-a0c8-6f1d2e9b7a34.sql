@@ -0,0 +1,50 @@
+-- Parameter sweeps: one circuit run across a grid of kernel parameter values,
+-- shot counts or noise strengths. Every grid point is an ordinary quantum_jobs
+-- row that points back at its sweep.
+
+CREATE TABLE public.quantum_sweeps (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  circuit_name text,
+  guppy_code text NOT NULL,
+  backend_type text NOT NULL,
+  -- Swept axes in grid order: [{ kind, name?, values }]
+  axes jsonb NOT NULL,
+  -- Settings shared by every point (base shots, seed, noise model)
+  parameters jsonb NOT NULL DEFAULT '{}'::jsonb,
+  status text NOT NULL DEFAULT 'running'
+    CHECK (status IN ('running', 'completed', 'failed', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  completed_at timestamptz
+);
+
+ALTER TABLE public.quantum_sweeps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own sweeps"
+ON public.quantum_sweeps
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can insert own sweeps"
+ON public.quantum_sweeps
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own sweeps"
+ON public.quantum_sweeps
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own sweeps"
+ON public.quantum_sweeps
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX quantum_sweeps_user_id_idx ON public.quantum_sweeps (user_id, created_at DESC);
+
+ALTER TABLE public.quantum_jobs
+  ADD COLUMN sweep_id uuid REFERENCES public.quantum_sweeps(id) ON DELETE CASCADE;
+
+CREATE INDEX quantum_jobs_sweep_idx
+  ON public.quantum_jobs (sweep_id)
+  WHERE sweep_id IS NOT NULL;
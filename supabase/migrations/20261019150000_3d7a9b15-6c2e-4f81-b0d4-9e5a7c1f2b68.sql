@@ -0,0 +1,12 @@
+-- Result caching: every job records a hash of its normalized circuit,
+-- backend, shots, seed and noise model. A run that opts in can be answered
+-- with the results of an earlier completed job with the same hash; such
+-- jobs point at the job whose results they reuse.
+
+ALTER TABLE public.quantum_jobs
+  ADD COLUMN circuit_hash text,
+  ADD COLUMN cached_from uuid REFERENCES public.quantum_jobs(id) ON DELETE SET NULL;
+
+CREATE INDEX quantum_jobs_cache_idx
+  ON public.quantum_jobs (circuit_hash, completed_at DESC)
+  WHERE status = 'completed' AND circuit_hash IS NOT NULL;
@@ -0,0 +1,75 @@
+-- Browser jobs: the tab simulating a job heartbeats its row while it runs, and
+-- running jobs without a worker whose heartbeat stops are failed, so a closed
+-- or crashed tab doesn't leave its job running forever. They can't be put back
+-- in the queue since only that tab could run them.
+
+DROP INDEX public.quantum_jobs_heartbeat_idx;
+
+CREATE INDEX quantum_jobs_heartbeat_idx
+  ON public.quantum_jobs (heartbeat_at)
+  WHERE status = 'running';
+
+CREATE OR REPLACE FUNCTION public.reclaim_stale_quantum_jobs(stale_after interval DEFAULT interval '2 minutes')
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  reclaimed integer;
+  abandoned integer;
+BEGIN
+  WITH stale AS (
+    SELECT id
+    FROM quantum_jobs
+    WHERE status = 'running'
+      AND claimed_by IS NOT NULL
+      AND heartbeat_at < now() - stale_after
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE quantum_jobs AS job
+  SET status = CASE
+        WHEN job.cancel_requested THEN 'cancelled'
+        WHEN job.attempts >= job.max_attempts THEN 'failed'
+        ELSE 'queued'
+      END,
+      error_message = CASE
+        WHEN job.cancel_requested THEN 'Cancelled by user'
+        WHEN job.attempts >= job.max_attempts
+          THEN format('Worker stopped responding; gave up after %s attempts', job.attempts)
+        ELSE job.error_message
+      END,
+      completed_at = CASE
+        WHEN job.cancel_requested OR job.attempts >= job.max_attempts THEN now()
+        ELSE NULL
+      END,
+      claimed_by = NULL,
+      claimed_at = NULL,
+      heartbeat_at = NULL
+  FROM stale
+  WHERE job.id = stale.id;
+
+  GET DIAGNOSTICS reclaimed = ROW_COUNT;
+
+  -- Browser jobs have no claimed_by; a stale heartbeat means the tab is gone
+  WITH stale AS (
+    SELECT id
+    FROM quantum_jobs
+    WHERE status = 'running'
+      AND claimed_by IS NULL
+      AND coalesce(heartbeat_at, started_at, created_at) < now() - stale_after
+    FOR UPDATE SKIP LOCKED
+  )
+  UPDATE quantum_jobs AS job
+  SET status = CASE WHEN job.cancel_requested THEN 'cancelled' ELSE 'failed' END,
+      error_message = CASE
+        WHEN job.cancel_requested THEN 'Cancelled by user'
+        ELSE 'The browser tab running this job closed before it finished'
+      END,
+      completed_at = now()
+  FROM stale
+  WHERE job.id = stale.id;
+
+  GET DIAGNOSTICS abandoned = ROW_COUNT;
+  RETURN reclaimed + abandoned;
+END;
+$$;
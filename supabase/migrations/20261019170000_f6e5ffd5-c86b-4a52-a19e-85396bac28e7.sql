@@ -0,0 +1,38 @@
+-- Cancelling a running job nobody is running any more (its worker or browser
+-- tab stopped heartbeating) cancels it straight away, since no runner is left
+-- to act on cancel_requested.
+
+CREATE OR REPLACE FUNCTION public.cancel_quantum_job(job_id uuid)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  current_status text;
+  last_heartbeat timestamptz;
+BEGIN
+  SELECT status, coalesce(heartbeat_at, started_at, created_at) INTO current_status, last_heartbeat
+  FROM quantum_jobs
+  WHERE id = job_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  -- Same cutoff reclaim_stale_quantum_jobs uses by default
+  IF current_status = 'queued'
+     OR (current_status = 'running' AND last_heartbeat < now() - interval '2 minutes') THEN
+    UPDATE quantum_jobs
+    SET status = 'cancelled',
+        cancel_requested = true,
+        error_message = 'Cancelled by user',
+        completed_at = now(),
+        claimed_by = NULL,
+        claimed_at = NULL,
+        heartbeat_at = NULL
+    WHERE id = job_id;
+    RETURN 'cancelled';
+  ELSIF current_status = 'running' THEN
+    UPDATE quantum_jobs SET cancel_requested = true WHERE id = job_id;
+  END IF;
+
+  RETURN current_status;
+END;
+$$;